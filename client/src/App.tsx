@@ -5,16 +5,25 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ProtectedApp } from "@/components/ProtectedApp";
 import { NotificationPreferencesProvider } from "@/contexts/NotificationPreferences";
+import { GenerationEventsProvider } from "@/contexts/GenerationEvents";
 import Home from "@/pages/home";
+import HistoryPage from "@/pages/history";
+import BatchesPage from "@/pages/batches";
+import SchedulesPage from "@/pages/schedules";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <ProtectedApp>
-      <Switch>
-        <Route path="/" component={Home} />
-        <Route component={NotFound} />
-      </Switch>
+      <GenerationEventsProvider>
+        <Switch>
+          <Route path="/" component={Home} />
+          <Route path="/history" component={HistoryPage} />
+          <Route path="/batches" component={BatchesPage} />
+          <Route path="/schedules" component={SchedulesPage} />
+          <Route component={NotFound} />
+        </Switch>
+      </GenerationEventsProvider>
     </ProtectedApp>
   );
 }
@@ -0,0 +1,240 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Pencil, Plus, Trash2, Upload, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { getMediaUrl } from "@/lib/media";
+import type { BrandPersona } from "@shared/schema";
+
+const MAX_PERSONA_IMAGES = 10;
+const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/gif'];
+
+interface PersonaDraft {
+  id?: string;
+  name: string;
+  description: string;
+  imagePaths: string[];
+}
+
+interface BrandPersonaManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called with the persona that was just created or saved
+  onSaved?: (persona: BrandPersona) => void;
+}
+
+export function BrandPersonaManager({ open, onOpenChange, onSaved }: BrandPersonaManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: personas = [], isLoading } = useQuery({
+    queryKey: ['/api/brand-personas'],
+    queryFn: () => api.getBrandPersonas(),
+    enabled: open
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (persona: PersonaDraft) => {
+      const data = { name: persona.name, description: persona.description, imagePaths: persona.imagePaths };
+      return persona.id ? api.updateBrandPersona(persona.id, data) : api.createBrandPersona(data);
+    },
+    onSuccess: (persona) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/brand-personas'] });
+      toast({ title: "Persona saved", description: `${persona.name} is ready to use.` });
+      setDraft(null);
+      onSaved?.(persona);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save persona", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteBrandPersona(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/brand-personas'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete persona", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const handleImageSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (!draft || files.length === 0) return;
+
+    if (draft.imagePaths.length + files.length > MAX_PERSONA_IMAGES) {
+      toast({ title: "Too many images", description: `A persona can have at most ${MAX_PERSONA_IMAGES} images.`, variant: "destructive" });
+      return;
+    }
+    const invalid = files.find(file => !ALLOWED_IMAGE_TYPES.includes(file.type));
+    if (invalid) {
+      toast({ title: "Invalid file", description: `${invalid.name}: Only PNG, JPG, WEBP, and GIF files are allowed`, variant: "destructive" });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const uploaded = await Promise.all(files.map(file => api.uploadFile(file)));
+      setDraft(prev => prev && { ...prev, imagePaths: [...prev.imagePaths, ...uploaded.map(upload => upload.objectPath)] });
+    } catch (error) {
+      toast({ title: "Upload failed", description: error instanceof Error ? error.message : "Unknown error occurred", variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setDraft(null);
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Brand personas</DialogTitle>
+          <DialogDescription>
+            Personas describe the on-screen character and carry the reference images sent with each generation.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="persona-name" className="text-sm font-medium text-slate-700">Name</Label>
+              <Input
+                id="persona-name"
+                className="mt-2"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Ayesha"
+              />
+            </div>
+            <div>
+              <Label htmlFor="persona-description" className="text-sm font-medium text-slate-700">Description</Label>
+              <Textarea
+                id="persona-description"
+                className="mt-2 resize-none"
+                rows={5}
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Describe the persona's appearance and style..."
+              />
+            </div>
+            <div>
+              <Label className="text-sm font-medium text-slate-700">
+                Reference images {draft.imagePaths.length > 0 && `- ${draft.imagePaths.length}/${MAX_PERSONA_IMAGES}`}
+              </Label>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {draft.imagePaths.map((imagePath) => (
+                  <div key={imagePath} className="relative group">
+                    <img
+                      src={getMediaUrl(imagePath)}
+                      alt="Persona reference"
+                      className="w-20 h-20 object-cover rounded border border-slate-200"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setDraft({ ...draft, imagePaths: draft.imagePaths.filter(path => path !== imagePath) })}
+                      className="absolute -top-2 -right-2 w-5 h-5 bg-red-500 text-white rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                ))}
+                {draft.imagePaths.length < MAX_PERSONA_IMAGES && (
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading}
+                    className="w-20 h-20 border-2 border-dashed border-slate-300 rounded flex items-center justify-center text-slate-400 hover:border-primary hover:text-primary transition-colors"
+                  >
+                    {isUploading ? <Loader2 className="animate-spin" size={20} /> : <Upload size={20} />}
+                  </button>
+                )}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ALLOWED_IMAGE_TYPES.join(',')}
+                multiple
+                className="hidden"
+                onChange={handleImageSelect}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>Back</Button>
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={!draft.name.trim() || !draft.description.trim() || isUploading || saveMutation.isPending}
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save persona
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8 text-slate-500">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading personas...
+              </div>
+            ) : personas.length === 0 ? (
+              <p className="text-sm text-slate-500 py-4 text-center">No personas yet. Create one to reuse it across generations.</p>
+            ) : (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                {personas.map((persona) => (
+                  <div key={persona.id} className="flex items-center gap-3 p-3">
+                    {persona.imagePaths[0] ? (
+                      <img
+                        src={getMediaUrl(persona.imagePaths[0])}
+                        alt=""
+                        className="w-12 h-12 object-cover rounded border border-slate-200 flex-shrink-0"
+                      />
+                    ) : (
+                      <div className="w-12 h-12 rounded border border-slate-200 bg-slate-100 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-slate-900">{persona.name}</p>
+                      <p className="text-xs text-slate-500 truncate">{persona.description}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDraft({ id: persona.id, name: persona.name, description: persona.description, imagePaths: persona.imagePaths })}
+                    >
+                      <Pencil size={16} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(persona.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 size={16} className="text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <Button className="w-full" variant="outline" onClick={() => setDraft({ name: "", description: "", imagePaths: [] })}>
+              <Plus className="mr-2" size={16} />
+              New persona
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Settings2 } from "lucide-react";
+import { api } from "@/lib/api";
+import { getMediaUrl } from "@/lib/media";
+import { BrandPersonaManager } from "@/components/BrandPersonaManager";
+
+// Radix Select items cannot have an empty value
+const NO_PERSONA = "none";
+
+interface BrandPersonaPickerProps {
+  value?: string;
+  onChange: (personaId: string | undefined) => void;
+}
+
+export function BrandPersonaPicker({ value, onChange }: BrandPersonaPickerProps) {
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+  const { data: personas = [] } = useQuery({
+    queryKey: ['/api/brand-personas'],
+    queryFn: () => api.getBrandPersonas()
+  });
+
+  // A deleted persona drops back to "no persona"
+  const selected = personas.find(persona => persona.id === value);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select
+          value={selected ? selected.id : NO_PERSONA}
+          onValueChange={(next) => onChange(next === NO_PERSONA ? undefined : next)}
+        >
+          <SelectTrigger id="brand_persona" className="flex-1">
+            <SelectValue placeholder="Select a persona" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PERSONA}>No saved persona</SelectItem>
+            {personas.map((persona) => (
+              <SelectItem key={persona.id} value={persona.id}>{persona.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="icon" onClick={() => setIsManagerOpen(true)} title="Manage personas">
+          <Settings2 size={16} />
+        </Button>
+      </div>
+
+      {selected && (
+        <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+          <p className="text-xs text-slate-600 leading-relaxed line-clamp-3">{selected.description}</p>
+          {selected.imagePaths.length > 0 && (
+            <div className="flex gap-1">
+              {selected.imagePaths.slice(0, 5).map((imagePath) => (
+                <img
+                  key={imagePath}
+                  src={getMediaUrl(imagePath)}
+                  alt=""
+                  className="w-8 h-8 object-cover rounded border border-slate-200"
+                />
+              ))}
+              {selected.imagePaths.length > 5 && (
+                <div className="w-8 h-8 flex items-center justify-center bg-slate-100 rounded border border-slate-200 text-xs text-slate-600">
+                  +{selected.imagePaths.length - 5}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <BrandPersonaManager
+        open={isManagerOpen}
+        onOpenChange={setIsManagerOpen}
+        onSaved={(persona) => onChange(persona.id)}
+      />
+    </div>
+  );
+}
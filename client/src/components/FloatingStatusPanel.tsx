@@ -1,3 +1,4 @@
+import { isTerminalGenerationStatus } from "@shared/generationStatus";
 import { GenerationStatusCard } from "./GenerationStatusCard";
 import type { GenerationStatus } from "./GenerationStatusManager";
 
@@ -6,6 +7,7 @@ interface FloatingStatusPanelProps {
   onDismiss: (id: string) => void;
   onToggleMinimize: (id: string) => void;
   onRetry: (taskId: string) => void;
+  onCancel: (taskId: string) => Promise<void>;
 }
 
 export function FloatingStatusPanel({
@@ -13,6 +15,7 @@ export function FloatingStatusPanel({
   onDismiss,
   onToggleMinimize,
   onRetry,
+  onCancel,
 }: FloatingStatusPanelProps) {
   if (generations.length === 0) {
     return null;
@@ -41,11 +44,13 @@ export function FloatingStatusPanel({
               nextRetryAt={generation.nextRetryAt}
               webhookResponseStatus={generation.webhookResponseStatus}
               webhookResponseBody={generation.webhookResponseBody}
+              stages={generation.stages}
               startTime={generation.startTime}
               isMinimized={generation.isMinimized}
               onDismiss={onDismiss}
               onToggleMinimize={onToggleMinimize}
               onRetry={onRetry}
+              onCancel={onCancel}
               className="shadow-xl"
             />
           </div>
@@ -53,13 +58,13 @@ export function FloatingStatusPanel({
       </div>
       
       {/* Backdrop for completed generations indicator */}
-      {generations.some(g => g.status === "completed" || g.status === "200" || g.status === "failed") && (
+      {generations.some(g => isTerminalGenerationStatus(g.status)) && (
         <div className="text-center pointer-events-auto space-y-1">
-          {generations.some(g => g.status === "completed" || g.status === "200") && (
+          {generations.some(g => g.status === "completed") && (
             <div className="inline-flex items-center space-x-2 bg-green-100 text-green-700 text-xs px-3 py-1 rounded-full border border-green-200">
               <div className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></div>
               <span>
-                {generations.filter(g => g.status === "completed" || g.status === "200").length} completed
+                {generations.filter(g => g.status === "completed").length} completed
               </span>
             </div>
           )}
@@ -71,6 +76,14 @@ export function FloatingStatusPanel({
               </span>
             </div>
           )}
+          {generations.some(g => g.status === "cancelled") && (
+            <div className="inline-flex items-center space-x-2 bg-slate-100 text-slate-600 text-xs px-3 py-1 rounded-full border border-slate-200">
+              <div className="w-1.5 h-1.5 bg-slate-400 rounded-full"></div>
+              <span>
+                {generations.filter(g => g.status === "cancelled").length} cancelled
+              </span>
+            </div>
+          )}
         </div>
       )}
     </div>
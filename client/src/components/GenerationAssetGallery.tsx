@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, ExternalLink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { getMediaUrl, openMedia } from "@/lib/media";
+import { cn } from "@/lib/utils";
+import type { GenerationAsset } from "@shared/schema";
+
+const KIND_LABELS: Record<GenerationAsset["kind"], string> = {
+  video: "Videos",
+  image: "Images",
+  audio: "Audio"
+};
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const describeAsset = (asset: GenerationAsset): string =>
+  [
+    `Variant ${asset.variantIndex + 1}`,
+    asset.width && asset.height ? `${asset.width}×${asset.height}` : null,
+    asset.durationSeconds != null ? `${asset.durationSeconds.toFixed(1)}s` : null,
+    asset.sizeBytes != null ? formatBytes(asset.sizeBytes) : null
+  ].filter(Boolean).join(" · ");
+
+interface GenerationAssetGalleryProps {
+  generationId: string;
+}
+
+export function GenerationAssetGallery({ generationId }: GenerationAssetGalleryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: assets = [], isLoading } = useQuery({
+    queryKey: ['/api/generations', generationId, 'assets'],
+    queryFn: () => api.getGenerationAssets(generationId)
+  });
+
+  const pickMutation = useMutation({
+    mutationFn: (assetId: string) => api.pickGenerationAsset(generationId, assetId),
+    onSuccess: () => {
+      // The pick also replaces the generation's main video or image
+      queryClient.invalidateQueries({ queryKey: ['/api/generations'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not pick variant", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // A single output is already shown as the generation's main video or image
+  if (isLoading || assets.length < 2) return null;
+
+  const kinds = (Object.keys(KIND_LABELS) as GenerationAsset["kind"][]).filter(kind => assets.some(asset => asset.kind === kind));
+
+  return (
+    <section>
+      <h4 className="text-sm font-semibold text-slate-900 mb-2">All outputs ({assets.length})</h4>
+      <div className="space-y-4">
+        {kinds.map((kind) => {
+          const variants = assets.filter(asset => asset.kind === kind);
+          return (
+            <div key={kind}>
+              <p className="text-xs font-medium text-slate-500 mb-2">{KIND_LABELS[kind]}</p>
+              <div className={cn("grid gap-3", kind === "audio" ? "grid-cols-1" : "grid-cols-1 sm:grid-cols-2")}>
+                {variants.map((asset) => (
+                  <div
+                    key={asset.id}
+                    className={cn(
+                      "rounded-lg border p-2 space-y-2",
+                      asset.isPick ? "border-primary ring-1 ring-primary" : "border-slate-200"
+                    )}
+                  >
+                    {asset.kind === "video" && (
+                      <video className="w-full rounded" controls preload="metadata" style={{ maxHeight: '240px' }}>
+                        <source src={getMediaUrl(asset.path)} type={asset.mime ?? undefined} />
+                      </video>
+                    )}
+                    {asset.kind === "image" && (
+                      <img
+                        src={getMediaUrl(asset.path)}
+                        alt={describeAsset(asset)}
+                        className="w-full max-h-60 object-contain rounded cursor-pointer"
+                        onClick={() => openMedia(getMediaUrl(asset.path))}
+                      />
+                    )}
+                    {asset.kind === "audio" && (
+                      <audio className="w-full" controls preload="metadata" src={getMediaUrl(asset.path)} />
+                    )}
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-slate-600 truncate">{describeAsset(asset)}</span>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button
+                          type="button"
+                          className="p-1 text-slate-500 hover:text-slate-700"
+                          title="Open in new tab"
+                          onClick={() => openMedia(getMediaUrl(asset.path))}
+                        >
+                          <ExternalLink size={12} />
+                        </button>
+                        {asset.isPick ? (
+                          <Badge className="gap-1"><Check size={10} />Pick</Badge>
+                        ) : variants.length > 1 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-6 px-2 text-xs"
+                            disabled={pickMutation.isPending}
+                            onClick={() => pickMutation.mutate(asset.id)}
+                          >
+                            Use this
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,262 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2, ExternalLink, Shuffle } from "lucide-react";
+import { api } from "@/lib/api";
+import { getMediaUrl, openMedia } from "@/lib/media";
+import { GenerationStatusBadge, getErrorTypeDisplayName } from "@/components/GenerationStatusBadge";
+import { GenerationLineageTree } from "@/components/GenerationLineageTree";
+import { GenerationAssetGallery } from "@/components/GenerationAssetGallery";
+import { GenerationStageTimeline } from "@/components/GenerationStageTimeline";
+import type { GenerationHistoryItem } from "@shared/types";
+
+interface GenerationDetailDialogProps {
+  generation: GenerationHistoryItem | null;
+  onOpenChange: (open: boolean) => void;
+  // Opens another generation from the lineage tree
+  onSelectGeneration?: (generationId: string) => void;
+}
+
+const formatTimestamp = (value: string | Date | null | undefined): string =>
+  value ? new Date(value).toLocaleString() : "—";
+
+export function GenerationDetailDialog({ generation, onOpenChange, onSelectGeneration }: GenerationDetailDialogProps) {
+  const [, setLocation] = useLocation();
+  const { data: attempts = [], isLoading: attemptsLoading } = useQuery({
+    queryKey: ['/api/generations', generation?.id, 'attempts'],
+    queryFn: () => api.getGenerationAttempts(generation!.id),
+    enabled: !!generation
+  });
+
+  const inputImages = generation
+    ? (generation.imagesPaths && generation.imagesPaths.length > 0
+        ? generation.imagesPaths
+        : generation.imageOriginalPath ? [generation.imageOriginalPath] : [])
+    : [];
+
+  return (
+    <Dialog open={!!generation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {generation && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-3">
+                <span>Generation details</span>
+                <GenerationStatusBadge status={generation.status} />
+              </DialogTitle>
+              <DialogDescription className="font-mono text-xs">{generation.taskId}</DialogDescription>
+            </DialogHeader>
+
+            {(generation.status === "completed" || generation.status === "failed") && (
+              <div>
+                <Button size="sm" variant="outline" onClick={() => setLocation(`/?remix=${generation.id}`)}>
+                  <Shuffle className="mr-2" size={14} />
+                  Remix
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-6">
+              {/* Output */}
+              {generation.videoPath && (
+                <section>
+                  <h4 className="text-sm font-semibold text-slate-900 mb-2">Output video</h4>
+                  <video
+                    className="w-full rounded-lg border border-slate-200"
+                    controls
+                    preload="metadata"
+                    style={{ maxHeight: '400px' }}
+                  >
+                    <source src={getMediaUrl(generation.videoPath)} />
+                  </video>
+                  <button
+                    className="mt-2 text-xs text-slate-500 hover:text-slate-700 underline flex items-center space-x-1"
+                    onClick={() => openMedia(getMediaUrl(generation.videoPath!))}
+                  >
+                    <ExternalLink size={10} />
+                    <span>Open in new tab</span>
+                  </button>
+                </section>
+              )}
+
+              {generation.imageGenerationPath && (
+                <section>
+                  <h4 className="text-sm font-semibold text-slate-900 mb-2">Generated reference image</h4>
+                  <img
+                    src={getMediaUrl(generation.imageGenerationPath)}
+                    alt="Generated reference"
+                    className="max-h-64 object-contain rounded-lg border border-slate-200 cursor-pointer"
+                    onClick={() => openMedia(getMediaUrl(generation.imageGenerationPath!))}
+                  />
+                </section>
+              )}
+
+              <GenerationAssetGallery generationId={generation.id} />
+
+              {generation.stageHistory && generation.stageHistory.length > 0 && (
+                <section>
+                  <h4 className="text-sm font-semibold text-slate-900 mb-2">Pipeline stages</h4>
+                  <GenerationStageTimeline
+                    stages={generation.stageHistory}
+                    active={generation.status === "pending" || generation.status === "processing"}
+                  />
+                </section>
+              )}
+
+              {/* Prompt */}
+              <section>
+                <h4 className="text-sm font-semibold text-slate-900 mb-2">Prompt</h4>
+                <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">{generation.promptText}</p>
+                {generation.promptTemplateVariables && (
+                  <dl className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                    {Object.entries(generation.promptTemplateVariables).map(([name, value]) => (
+                      <div key={name}>
+                        <dt className="inline text-slate-500">{name}: </dt>
+                        <dd className="inline font-medium text-slate-900">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </section>
+
+              {/* Settings; absent on generations created before they were stored */}
+              {generation.aspectRatio && (
+                <section>
+                  <h4 className="text-sm font-semibold text-slate-900 mb-2">Video settings</h4>
+                  <dl className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-xs">
+                    <div>
+                      <dt className="text-slate-500">Aspect ratio</dt>
+                      <dd className="font-medium text-slate-900">{generation.aspectRatio}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-slate-500">Duration</dt>
+                      <dd className="font-medium text-slate-900">{generation.durationSeconds}s</dd>
+                    </div>
+                    <div>
+                      <dt className="text-slate-500">Resolution</dt>
+                      <dd className="font-medium text-slate-900">{generation.resolution}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-slate-500">Seed</dt>
+                      <dd className="font-medium text-slate-900">{generation.seed ?? "Random"}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-slate-500">Audio</dt>
+                      <dd className="font-medium text-slate-900">{generation.generateAudio ? "On" : "Off"}</dd>
+                    </div>
+                  </dl>
+                  {generation.negativePrompt && (
+                    <p className="mt-2 text-xs text-slate-600">
+                      <span className="text-slate-500">Negative prompt:</span> {generation.negativePrompt}
+                    </p>
+                  )}
+                </section>
+              )}
+
+              {generation.brandPersona?.description && (
+                <section>
+                  <h4 className="text-sm font-semibold text-slate-900 mb-2">
+                    Brand persona{generation.brandPersona.name ? `: ${generation.brandPersona.name}` : ""}
+                  </h4>
+                  <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">{generation.brandPersona.description}</p>
+                </section>
+              )}
+
+              {/* Inputs */}
+              {inputImages.length > 0 && (
+                <section>
+                  <h4 className="text-sm font-semibold text-slate-900 mb-2">Input images</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {inputImages.map((imagePath, index) => (
+                      <img
+                        key={index}
+                        src={getMediaUrl(imagePath)}
+                        alt={`Input image ${index + 1}`}
+                        className="w-20 h-20 object-cover rounded border border-slate-200 cursor-pointer hover:ring-1 hover:ring-primary"
+                        onClick={() => openMedia(getMediaUrl(imagePath))}
+                      />
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {/* Error */}
+              {(generation.errorMessage || generation.errorType) && (
+                <section>
+                  <h4 className="text-sm font-semibold text-slate-900 mb-2">Error</h4>
+                  <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 space-y-2">
+                    <div className="font-medium">{getErrorTypeDisplayName(generation.errorType)}</div>
+                    {generation.errorMessage && <div>{generation.errorMessage}</div>}
+                    {generation.errorDetails != null && (
+                      <pre className="text-xs bg-white/60 rounded p-2 overflow-x-auto">
+                        {JSON.stringify(generation.errorDetails, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                </section>
+              )}
+
+              {/* Lineage */}
+              <section>
+                <h4 className="text-sm font-semibold text-slate-900 mb-2">Remix lineage</h4>
+                <GenerationLineageTree generationId={generation.id} onSelect={onSelectGeneration} />
+              </section>
+
+              {/* Retry history */}
+              <section>
+                <h4 className="text-sm font-semibold text-slate-900 mb-2">Retry history</h4>
+                <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs text-slate-600 mb-3">
+                  <div>
+                    <dt className="text-slate-500">Retries</dt>
+                    <dd className="font-medium text-slate-900">{generation.retryCount || 0}/{generation.maxRetries || 3}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-slate-500">Created</dt>
+                    <dd className="font-medium text-slate-900">{formatTimestamp(generation.createdAt)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-slate-500">Last attempt</dt>
+                    <dd className="font-medium text-slate-900">{formatTimestamp(generation.lastAttemptAt)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-slate-500">Next retry</dt>
+                    <dd className="font-medium text-slate-900">{formatTimestamp(generation.nextRetryAt)}</dd>
+                  </div>
+                </dl>
+
+                {attemptsLoading ? (
+                  <div className="flex items-center text-xs text-slate-500">
+                    <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                    Loading attempts...
+                  </div>
+                ) : attempts.length === 0 ? (
+                  <p className="text-xs text-slate-500">No webhook attempts recorded.</p>
+                ) : (
+                  <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                    {attempts.map((attempt) => (
+                      <div key={attempt.id} className="flex items-center justify-between px-3 py-2 text-xs">
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium text-slate-900 capitalize">{attempt.kind} #{attempt.attempt}</span>
+                          <span className="text-slate-500">{formatTimestamp(attempt.createdAt)}</span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          {attempt.latencyMs != null && <span className="text-slate-500">{attempt.latencyMs}ms</span>}
+                          {attempt.errorType ? (
+                            <span className="text-red-600">{getErrorTypeDisplayName(attempt.errorType)}</span>
+                          ) : (
+                            <span className="text-green-600">{attempt.responseStatus ?? "OK"}</span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { api } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { GenerationStatusBadge } from "@/components/GenerationStatusBadge";
+import type { GenerationLineageNode } from "@shared/types";
+
+interface GenerationLineageTreeProps {
+  generationId: string;
+  onSelect?: (generationId: string) => void;
+}
+
+export function GenerationLineageTree({ generationId, onSelect }: GenerationLineageTreeProps) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/generations', generationId, 'lineage'],
+    queryFn: () => api.getGenerationLineage(generationId)
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-xs text-slate-500">
+        <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+        Loading lineage...
+      </div>
+    );
+  }
+
+  // A lone generation has no remix history worth showing
+  if (!data || data.nodes.length < 2) {
+    return <p className="text-xs text-slate-500">No remixes yet.</p>;
+  }
+
+  const childrenByParent = new Map<string, GenerationLineageNode[]>();
+  for (const node of data.nodes) {
+    if (!node.parentGenerationId) continue;
+    const siblings = childrenByParent.get(node.parentGenerationId) ?? [];
+    siblings.push(node);
+    childrenByParent.set(node.parentGenerationId, siblings);
+  }
+  const root = data.nodes.find(node => node.id === data.rootId);
+
+  const renderNode = (node: GenerationLineageNode) => {
+    const children = childrenByParent.get(node.id) ?? [];
+    const isCurrent = node.id === generationId;
+    return (
+      <li key={node.id}>
+        <button
+          type="button"
+          disabled={isCurrent || !onSelect}
+          onClick={() => onSelect?.(node.id)}
+          className={cn(
+            "w-full flex items-center gap-3 rounded px-2 py-1.5 text-left text-xs transition-colors",
+            isCurrent ? "bg-slate-100 font-medium" : "hover:bg-slate-50"
+          )}
+        >
+          <span className="flex-1 min-w-0 truncate text-slate-800">{node.promptText}</span>
+          <span className="text-slate-500 flex-shrink-0">
+            {node.createdAt ? new Date(node.createdAt).toLocaleDateString() : ""}
+          </span>
+          <GenerationStatusBadge status={node.status} className="flex-shrink-0" />
+        </button>
+        {children.length > 0 && (
+          <ul className="ml-4 border-l border-slate-200 pl-2 space-y-1">
+            {children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return root ? <ul className="space-y-1">{renderNode(root)}</ul> : null;
+}
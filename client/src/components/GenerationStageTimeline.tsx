@@ -0,0 +1,74 @@
+import { CheckCircle, Loader2 } from "lucide-react";
+import { getMediaUrl, openMedia } from "@/lib/media";
+import { cn } from "@/lib/utils";
+import type { GenerationStage } from "@shared/types";
+
+// "video_rendering" -> "Video rendering"
+export const formatStageName = (stage: string): string => {
+  const words = stage.replace(/[_.-]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatOffset = (from: string, to: string): string => {
+  const seconds = Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+interface GenerationStageTimelineProps {
+  stages: GenerationStage[];
+  // While in flight the latest stage is shown as running rather than done
+  active: boolean;
+  className?: string;
+}
+
+export function GenerationStageTimeline({ stages, active, className = "" }: GenerationStageTimelineProps) {
+  if (stages.length === 0) return null;
+
+  const firstStartedAt = stages[0].startedAt;
+
+  return (
+    <ol className={cn("space-y-2", className)}>
+      {stages.map((stage, index) => {
+        const isRunning = active && index === stages.length - 1;
+        const preview = stage.previewAsset;
+        return (
+          <li key={`${stage.stage}-${stage.startedAt}`} className="flex items-start gap-2">
+            <div className="flex flex-col items-center pt-0.5">
+              {isRunning
+                ? <Loader2 className="h-3.5 w-3.5 text-blue-500 animate-spin" />
+                : <CheckCircle className="h-3.5 w-3.5 text-green-500" />}
+              {index < stages.length - 1 && <div className="w-px flex-1 min-h-3 bg-slate-300 mt-1" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className={cn("font-medium", isRunning ? "text-slate-900" : "text-slate-600")}>
+                  {formatStageName(stage.stage)}
+                  {stage.percent != null && <span className="ml-1 font-normal text-slate-500">{Math.round(stage.percent)}%</span>}
+                </span>
+                <span className="text-slate-400 font-mono">+{formatOffset(firstStartedAt, stage.startedAt)}</span>
+              </div>
+              {stage.message && <p className="text-xs text-slate-500 break-words">{stage.message}</p>}
+              {preview && preview.kind === "image" && (
+                <img
+                  src={getMediaUrl(preview.path)}
+                  alt={`${formatStageName(stage.stage)} preview`}
+                  className="mt-1 h-16 rounded border border-slate-200 object-cover cursor-pointer"
+                  onClick={() => openMedia(getMediaUrl(preview.path))}
+                />
+              )}
+              {preview && preview.kind !== "image" && (
+                <button
+                  type="button"
+                  className="mt-1 text-xs text-slate-500 hover:text-slate-700 underline"
+                  onClick={() => openMedia(getMediaUrl(preview.path))}
+                >
+                  Open {preview.kind} preview
+                </button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
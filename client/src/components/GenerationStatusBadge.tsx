@@ -0,0 +1,33 @@
+import { cn } from "@/lib/utils";
+import type { GenerationStatus } from "@shared/types";
+
+const statusStyles: Record<GenerationStatus, { label: string; className: string; dotClassName: string }> = {
+  pending: { label: "Pending", className: "bg-blue-100 text-blue-700", dotClassName: "bg-blue-500" },
+  processing: { label: "Processing", className: "bg-blue-100 text-blue-700", dotClassName: "bg-blue-500 animate-pulse" },
+  completed: { label: "Completed", className: "bg-emerald-100 text-emerald-700", dotClassName: "bg-emerald-500" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700", dotClassName: "bg-red-500" },
+  cancelled: { label: "Cancelled", className: "bg-slate-100 text-slate-600", dotClassName: "bg-slate-400" }
+};
+
+export const getErrorTypeDisplayName = (type: string | null | undefined): string => {
+  switch (type) {
+    case "webhook_failure": return "Service Error";
+    case "network_error": return "Network Error";
+    case "timeout": return "Timeout Error";
+    case "validation_error": return "Validation Error";
+    case "configuration_error": return "Configuration Error";
+    case "callback_timeout": return "Callback Timeout";
+    case "unknown": return "Unknown Error";
+    default: return "Error";
+  }
+};
+
+export function GenerationStatusBadge({ status, className }: { status: GenerationStatus; className?: string }) {
+  const style = statusStyles[status];
+  return (
+    <span className={cn("inline-flex items-center px-2 py-1 rounded-full text-xs font-medium", style.className, className)}>
+      <span className={cn("w-1.5 h-1.5 rounded-full mr-1", style.dotClassName)}></span>
+      {style.label}
+    </span>
+  );
+}
@@ -1,8 +1,12 @@
 import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, XCircle, Loader2, Clock, X, Minimize2, Maximize2, RefreshCw, AlertTriangle, Info } from "lucide-react";
-import type { GenerationStatusResponse } from "@shared/types";
+import { CheckCircle, XCircle, Loader2, Clock, X, Minimize2, Maximize2, RefreshCw, AlertTriangle, Info, Ban } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { getErrorTypeDisplayName } from "@/components/GenerationStatusBadge";
+import { GenerationStageTimeline, formatStageName } from "@/components/GenerationStageTimeline";
+import { isTerminalGenerationStatus } from "@shared/generationStatus";
+import type { GenerationStage, GenerationStatusResponse } from "@shared/types";
 
 interface GenerationStatusCardProps {
   id: string;
@@ -10,17 +14,20 @@ interface GenerationStatusCardProps {
   status: GenerationStatusResponse["status"];
   errorMessage?: string | null;
   errorDetails?: any;
-  errorType?: "webhook_failure" | "network_error" | "timeout" | "validation_error" | "unknown" | null;
+  errorType?: "webhook_failure" | "network_error" | "timeout" | "validation_error" | "configuration_error" | "callback_timeout" | "unknown" | null;
   retryCount?: string | null;
   maxRetries?: string | null;
   nextRetryAt?: string | null;
   webhookResponseStatus?: string | null;
   webhookResponseBody?: string | null;
+  // Progress reported by the pipeline, oldest first
+  stages?: GenerationStage[];
   startTime: Date;
   isMinimized: boolean;
   onDismiss: (id: string) => void;
   onToggleMinimize: (id: string) => void;
   onRetry: (taskId: string) => void;
+  onCancel: (taskId: string) => Promise<void>;
   className?: string;
 }
 
@@ -36,21 +43,24 @@ export function GenerationStatusCard({
   nextRetryAt,
   webhookResponseStatus,
   webhookResponseBody,
+  stages = [],
   startTime,
   isMinimized,
   onDismiss,
   onToggleMinimize,
   onRetry,
+  onCancel,
   className = ""
 }: GenerationStatusCardProps) {
   const [elapsedTime, setElapsedTime] = useState(0);
   const [finalElapsedTime, setFinalElapsedTime] = useState<number | null>(null);
   const [showErrorDetails, setShowErrorDetails] = useState(false);
-  const [previousStatus, setPreviousStatus] = useState<string>(status);
+  const [previousStatus, setPreviousStatus] = useState<GenerationStatusResponse["status"]>(status);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   // Update elapsed time every second
   useEffect(() => {
-    const isCompleted = status === "completed" || status === "200" || status === "failed";
+    const isCompleted = isTerminalGenerationStatus(status);
     
     if (isCompleted) {
       // Capture final elapsed time when status becomes final and ensure it's displayed
@@ -83,8 +93,8 @@ export function GenerationStatusCard({
 
   // Detect status changes and ensure completion is handled
   useEffect(() => {
-    const isCompleted = status === "completed" || status === "200" || status === "failed";
-    const wasNotCompleted = previousStatus !== "completed" && previousStatus !== "200" && previousStatus !== "failed";
+    const isCompleted = isTerminalGenerationStatus(status);
+    const wasNotCompleted = !isTerminalGenerationStatus(previousStatus);
     
     // If status changed to completed and we haven't captured final time yet
     if (isCompleted && wasNotCompleted && finalElapsedTime === null) {
@@ -129,17 +139,6 @@ export function GenerationStatusCard({
     return currentRetryCount < maxRetryCount;
   };
 
-  const getErrorTypeDisplayName = (type: string | null | undefined): string => {
-    switch (type) {
-      case "webhook_failure": return "Service Error";
-      case "network_error": return "Network Error";
-      case "timeout": return "Timeout Error";
-      case "validation_error": return "Validation Error";
-      case "unknown": return "Unknown Error";
-      default: return "Error";
-    }
-  };
-
   const getNextRetryTime = (): string | null => {
     if (!nextRetryAt) return null;
     try {
@@ -159,6 +158,9 @@ export function GenerationStatusCard({
     }
   };
 
+  const latestStage = stages.length > 0 ? stages[stages.length - 1] : null;
+  const isInFlight = status === "pending" || status === "processing";
+
   const getStatusContent = () => {
     switch (status) {
       case "pending":
@@ -175,14 +177,13 @@ export function GenerationStatusCard({
         return {
           icon: <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />,
           title: "Generating",
-          message: "Video is being generated...",
+          message: latestStage ? `${formatStageName(latestStage.stage)}...` : "Video is being generated...",
           showTimer: true,
           bgColor: "bg-blue-50",
           borderColor: "border-blue-200",
           textColor: "text-blue-700",
         };
       case "completed":
-      case "200":
         return {
           icon: <CheckCircle className="h-5 w-5 text-green-500" />,
           title: "Completed",
@@ -224,6 +225,16 @@ export function GenerationStatusCard({
           borderColor: "border-red-200",
           textColor: "text-red-700",
         };
+      case "cancelled":
+        return {
+          icon: <Ban className="h-5 w-5 text-slate-500" />,
+          title: "Cancelled",
+          message: "Generation was cancelled",
+          showTimer: false,
+          bgColor: "bg-slate-50",
+          borderColor: "border-slate-200",
+          textColor: "text-slate-700",
+        };
       default:
         return {
           icon: <Clock className="h-5 w-5 text-gray-500" />,
@@ -238,7 +249,17 @@ export function GenerationStatusCard({
   };
 
   const statusContent = getStatusContent();
-  const canDismiss = status === "completed" || status === "200" || status === "failed";
+  const canDismiss = isTerminalGenerationStatus(status);
+  const canCancel = status === "pending" || status === "processing";
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      await onCancel(taskId);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
 
   if (isMinimized) {
     return (
@@ -250,6 +271,9 @@ export function GenerationStatusCard({
               <span className={`text-sm font-medium ${statusContent.textColor}`}>
                 {statusContent.title}
               </span>
+              {isInFlight && latestStage?.percent != null && (
+                <span className="text-xs text-slate-500">{Math.round(latestStage.percent)}%</span>
+              )}
               {statusContent.showTimer && (
                 <span className="font-mono text-sm">
                   {formatTime(finalElapsedTime !== null ? finalElapsedTime : elapsedTime)}
@@ -268,6 +292,18 @@ export function GenerationStatusCard({
                   <RefreshCw className="h-3 w-3" />
                 </Button>
               )}
+              {canCancel && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 hover:bg-white/50"
+                  onClick={handleCancel}
+                  disabled={isCancelling}
+                  title="Cancel generation"
+                >
+                  <Ban className="h-3 w-3" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -366,6 +402,36 @@ export function GenerationStatusCard({
             </div>
           )}
 
+          {/* Pipeline stages reported so far */}
+          {stages.length > 0 && (
+            <div className="space-y-2">
+              {isInFlight && latestStage?.percent != null && (
+                <Progress value={latestStage.percent} className="h-1.5" />
+              )}
+              <GenerationStageTimeline stages={stages} active={isInFlight} className="bg-white/70 rounded-lg p-2" />
+            </div>
+          )}
+
+          {/* Cancel control for generations still in flight */}
+          {canCancel && (
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCancel}
+                disabled={isCancelling}
+                className="h-7 px-2 text-xs"
+              >
+                {isCancelling ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <Ban className="h-3 w-3 mr-1" />
+                )}
+                Cancel
+              </Button>
+            </div>
+          )}
+
           {/* Retry information for failed generations */}
           {status === "failed" && errorMessage !== "400" && (
             <div className="space-y-2">
@@ -6,8 +6,10 @@ import { useTabVisibility } from "@/hooks/use-tab-visibility";
 import { useNotificationSound } from "@/lib/notification-sound";
 import { useTabIndicators } from "@/hooks/use-tab-indicators";
 import { useNotificationPreferences } from "@/contexts/NotificationPreferences";
+import { useGenerationEvents, RECONCILE_POLL_INTERVAL_MS } from "@/contexts/GenerationEvents";
 import { api } from "@/lib/api";
-import type { GenerationStatusResponse } from "@shared/types";
+import { isTerminalGenerationStatus } from "@shared/generationStatus";
+import type { GenerationStage, GenerationStatusResponse } from "@shared/types";
 import { Button } from "@/components/ui/button";
 
 export interface GenerationStatus {
@@ -16,12 +18,13 @@ export interface GenerationStatus {
   status: GenerationStatusResponse["status"];
   errorMessage?: string | null;
   errorDetails?: any;
-  errorType?: "webhook_failure" | "network_error" | "timeout" | "validation_error" | "unknown" | null;
+  errorType?: "webhook_failure" | "network_error" | "timeout" | "validation_error" | "configuration_error" | "callback_timeout" | "unknown" | null;
   retryCount?: string | null;
   maxRetries?: string | null;
   nextRetryAt?: string | null;
   webhookResponseStatus?: string | null;
   webhookResponseBody?: string | null;
+  stages?: GenerationStage[];
   startTime: Date;
   endTime?: Date;
   isMinimized: boolean;
@@ -31,7 +34,7 @@ export interface GenerationStatus {
 interface CompletedGeneration {
   id: string;
   taskId: string;
-  status: "completed" | "200" | "failed";
+  status: "completed" | "failed";
   endTime: Date;
   duration: number; // in seconds
   isSuccess: boolean;
@@ -45,12 +48,12 @@ interface GenerationStatusManagerProps {
     dismissGeneration: (id: string) => void;
     toggleMinimize: (id: string) => void;
     retryGeneration: (taskId: string) => void;
+    cancelGeneration: (taskId: string) => Promise<void>;
   }) => React.ReactNode;
 }
 
 export function GenerationStatusManager({ children }: GenerationStatusManagerProps) {
   const [generations, setGenerations] = useState<GenerationStatus[]>([]);
-  const [pollingIntervals, setPollingIntervals] = useState<Map<string, NodeJS.Timeout>>(new Map());
   const [pendingNotifications, setPendingNotifications] = useState<CompletedGeneration[]>([]);
   
   const queryClient = useQueryClient();
@@ -60,18 +63,20 @@ export function GenerationStatusManager({ children }: GenerationStatusManagerPro
   const { playSound } = useNotificationSound();
   const { updateFaviconBadge, updateTabTitle, clearIndicators } = useTabIndicators();
   const { preferences } = useNotificationPreferences();
+  const { isConnected, subscribe } = useGenerationEvents();
   
   const batchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const generationsRef = useRef<GenerationStatus[]>([]);
+  generationsRef.current = generations;
 
-  // Cleanup intervals on unmount
+  // Cleanup batch timeout on unmount
   useEffect(() => {
     return () => {
-      pollingIntervals.forEach(interval => clearInterval(interval));
       if (batchTimeoutRef.current) {
         clearTimeout(batchTimeoutRef.current);
       }
     };
-  }, [pollingIntervals]);
+  }, []);
 
   // Update tab indicators based on active generations
   useEffect(() => {
@@ -269,121 +274,123 @@ export function GenerationStatusManager({ children }: GenerationStatusManagerPro
     }
   }, [preferences, toast, playSound, showNotification, permission]);
 
-  const pollGenerationStatus = useCallback(async (generationId: string, taskId: string) => {
-    try {
-      const status = await api.getGenerationStatus(taskId);
-      let shouldNotify = false;
-      let completedGeneration: CompletedGeneration | null = null;
-      
-      setGenerations(prev => prev.map(gen => {
-        if (gen.id === generationId) {
-          const wasCompleted = gen.status === "completed" || gen.status === "200" || gen.status === "failed";
-          const isNowCompleted = status.status === "completed" || status.status === "200" || status.status === "failed" || status.errorMessage;
-          
-          // Check for content policy failure (error message "400")
-          const isContentPolicyFailure = status.errorMessage === "400";
-          
-          // If content policy failure detected, force completion and stop timer
-          if (isContentPolicyFailure && !wasCompleted) {
-            shouldNotify = true;
-            const endTime = new Date();
-            const duration = Math.round((endTime.getTime() - gen.startTime.getTime()) / 1000);
-            
-            completedGeneration = {
-              id: gen.id,
-              taskId: gen.taskId,
-              status: "failed" as const,
-              endTime,
-              duration,
-              isSuccess: false,
-              isContentPolicy: true,
-            };
-            
-            // Immediately stop polling for this generation - this prevents timer race conditions
-            const interval = pollingIntervals.get(generationId);
-            if (interval) {
-              clearInterval(interval);
-              setPollingIntervals(prev => {
-                const newMap = new Map(prev);
-                newMap.delete(generationId);
-                return newMap;
-              });
-            }
-          }
-          // Check if this is a new completion that we haven't notified about
-          else if (!wasCompleted && isNowCompleted && !gen.hasNotified) {
-            shouldNotify = true;
-            const endTime = new Date();
-            const duration = Math.round((endTime.getTime() - gen.startTime.getTime()) / 1000);
-            // Job is successful only if no error message AND status is completed/200
-            const isSuccess = (status.status === "completed" || status.status === "200") && !status.errorMessage;
-            
-            completedGeneration = {
-              id: gen.id,
-              taskId: gen.taskId,
-              status: status.errorMessage ? "failed" : (status.status as "completed" | "200" | "failed"),
-              endTime,
-              duration,
-              isSuccess,
-            };
-            
-            // Immediately stop polling for this generation to prevent timer race conditions
-            const interval = pollingIntervals.get(generationId);
-            if (interval) {
-              clearInterval(interval);
-              setPollingIntervals(prev => {
-                const newMap = new Map(prev);
-                newMap.delete(generationId);
-                return newMap;
-              });
-            }
-          }
+  // Applies a status update from the event stream or a fallback poll
+  const applyGenerationStatus = useCallback((generationId: string, status: GenerationStatusResponse) => {
+    let shouldNotify = false;
+    let completedGeneration: CompletedGeneration | null = null;
+    
+    setGenerations(prev => prev.map(gen => {
+      if (gen.id === generationId) {
+        const wasCompleted = isTerminalGenerationStatus(gen.status);
+        // Cancellation is user-initiated, so it ends tracking without a completion notification
+        const isCancelled = status.status === "cancelled";
+        const isNowCompleted = isTerminalGenerationStatus(status.status) || status.errorMessage;
+        
+        // Check for content policy failure (error message "400")
+        const isContentPolicyFailure = status.errorMessage === "400";
+        
+        // If content policy failure detected, force completion and stop timer
+        if (isContentPolicyFailure && !wasCompleted) {
+          shouldNotify = true;
+          const endTime = new Date();
+          const duration = Math.round((endTime.getTime() - gen.startTime.getTime()) / 1000);
           
-          const updatedGen: GenerationStatus = { 
-            ...gen, 
-            status: (status.errorMessage ? "failed" : status.status) as GenerationStatusResponse["status"], // Override status to "failed" if error message exists
-            errorMessage: status.errorMessage,
-            errorDetails: status.errorDetails,
-            errorType: status.errorType,
-            retryCount: status.retryCount,
-            maxRetries: status.maxRetries,
-            nextRetryAt: status.nextRetryAt,
-            webhookResponseStatus: status.webhookResponseStatus,
-            webhookResponseBody: status.webhookResponseBody,
-            endTime: isNowCompleted && !gen.endTime ? new Date() : gen.endTime,
-            hasNotified: Boolean(isNowCompleted) || gen.hasNotified,
+          completedGeneration = {
+            id: gen.id,
+            taskId: gen.taskId,
+            status: "failed" as const,
+            endTime,
+            duration,
+            isSuccess: false,
+            isContentPolicy: true,
           };
-          return updatedGen;
         }
-        return gen;
-      }));
-
-      // Handle completion notifications
-      if (shouldNotify && completedGeneration) {
-        handleCompletedGeneration(completedGeneration);
-      }
-
-      // Check if generation is complete and stop polling (only if not already stopped above)
-      if ((status.status === "completed" || status.status === "200" || status.status === "failed" || status.errorMessage) && 
-          pollingIntervals.has(generationId)) {
-        const interval = pollingIntervals.get(generationId);
-        if (interval) {
-          clearInterval(interval);
-          setPollingIntervals(prev => {
-            const newMap = new Map(prev);
-            newMap.delete(generationId);
-            return newMap;
-          });
+        // Check if this is a new completion that we haven't notified about
+        else if (!wasCompleted && isNowCompleted && !isCancelled && !gen.hasNotified) {
+          shouldNotify = true;
+          const endTime = new Date();
+          const duration = Math.round((endTime.getTime() - gen.startTime.getTime()) / 1000);
+          // Job is successful only if no error message AND status is completed/200
+          const isSuccess = status.status === "completed" && !status.errorMessage;
+          
+          completedGeneration = {
+            id: gen.id,
+            taskId: gen.taskId,
+            status: status.errorMessage ? "failed" : (status.status as "completed" | "failed"),
+            endTime,
+            duration,
+            isSuccess,
+          };
         }
         
-        // Refresh the completed videos list to ensure UI consistency
-        queryClient.invalidateQueries({ queryKey: ['/api/generations'] });
+        const updatedGen: GenerationStatus = { 
+          ...gen, 
+          status: (status.errorMessage && !isCancelled ? "failed" : status.status) as GenerationStatusResponse["status"], // Override status to "failed" if error message exists
+          errorMessage: status.errorMessage,
+          errorDetails: status.errorDetails,
+          errorType: status.errorType,
+          retryCount: status.retryCount,
+          maxRetries: status.maxRetries,
+          nextRetryAt: status.nextRetryAt,
+          webhookResponseStatus: status.webhookResponseStatus,
+          webhookResponseBody: status.webhookResponseBody,
+          stages: status.stages,
+          endTime: isNowCompleted && !gen.endTime ? new Date() : gen.endTime,
+          hasNotified: Boolean(isNowCompleted) || gen.hasNotified,
+        };
+        return updatedGen;
       }
+      return gen;
+    }));
+
+    // Handle completion notifications
+    if (shouldNotify && completedGeneration) {
+      handleCompletedGeneration(completedGeneration);
+    }
+
+    // Refresh the completed videos list to ensure UI consistency
+    if (status.status === "completed" || status.status === "failed" || status.errorMessage) {
+      queryClient.invalidateQueries({ queryKey: ['/api/generations'] });
+    }
+  }, [queryClient, handleCompletedGeneration]);
+
+  const pollGenerationStatus = useCallback(async (generationId: string, taskId: string) => {
+    try {
+      const status = await api.getGenerationStatus(taskId);
+      applyGenerationStatus(generationId, status);
     } catch (error) {
       console.error('Error polling status:', error);
       // Continue polling even if there's an error, but we could add retry logic here
     }
-  }, [queryClient, pollingIntervals, handleCompletedGeneration]);
+  }, [applyGenerationStatus]);
+  const pollGenerationStatusRef = useRef(pollGenerationStatus);
+  pollGenerationStatusRef.current = pollGenerationStatus;
+
+  // Push updates from the server event stream
+  useEffect(() => {
+    return subscribe((status) => {
+      const generation = generationsRef.current.find(gen => gen.taskId === status.taskId);
+      if (generation) {
+        applyGenerationStatus(generation.id, status);
+      }
+    });
+  }, [subscribe, applyGenerationStatus]);
+
+  // Poll generations still awaiting a result: often while the event stream is down, and slowly
+  // while it is up to catch changes made on other server instances
+  useEffect(() => {
+    const pollActiveGenerations = () => {
+      generationsRef.current
+        .filter(gen => !gen.hasNotified)
+        .forEach(gen => pollGenerationStatusRef.current(gen.id, gen.taskId));
+    };
+
+    // Catch up on anything missed while the stream was connecting or reconnecting
+    pollActiveGenerations();
+
+    const interval = setInterval(pollActiveGenerations, isConnected ? RECONCILE_POLL_INTERVAL_MS : 3000);
+    return () => clearInterval(interval);
+  }, [isConnected]);
 
   const addGeneration = useCallback((taskId: string) => {
     const generationId = `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -399,29 +406,13 @@ export function GenerationStatusManager({ children }: GenerationStatusManagerPro
 
     setGenerations(prev => [newGeneration, ...prev]);
 
-    // Start polling for this generation
-    const interval = setInterval(() => {
-      pollGenerationStatus(generationId, taskId);
-    }, 3000);
-
-    setPollingIntervals(prev => new Map(prev).set(generationId, interval));
+    // Fetch once in case the task changed before it was tracked; later updates arrive as events
+    pollGenerationStatus(generationId, taskId);
   }, [pollGenerationStatus]);
 
   const dismissGeneration = useCallback((id: string) => {
-    // Clear polling interval
-    const interval = pollingIntervals.get(id);
-    if (interval) {
-      clearInterval(interval);
-      setPollingIntervals(prev => {
-        const newMap = new Map(prev);
-        newMap.delete(id);
-        return newMap;
-      });
-    }
-
-    // Remove from state
     setGenerations(prev => prev.filter(gen => gen.id !== id));
-  }, [pollingIntervals]);
+  }, []);
 
   const toggleMinimize = useCallback((id: string) => {
     setGenerations(prev => prev.map(gen => 
@@ -437,12 +428,12 @@ export function GenerationStatusManager({ children }: GenerationStatusManagerPro
       
       if (result.success) {
         toast({
-          title: "Retry Successful",
+          title: "Retry Queued",
           description: result.message,
           duration: 5000,
         });
         
-        // Update status to pending and restart polling
+        // Update status to pending; further updates arrive as events or fallback polls
         setGenerations(prev => prev.map(gen => 
           gen.taskId === taskId 
             ? { 
@@ -455,15 +446,6 @@ export function GenerationStatusManager({ children }: GenerationStatusManagerPro
               }
             : gen
         ));
-        
-        // Find the generation and restart polling
-        const generation = generations.find(g => g.taskId === taskId);
-        if (generation) {
-          const interval = setInterval(() => {
-            pollGenerationStatus(generation.id, taskId);
-          }, 3000);
-          setPollingIntervals(prev => new Map(prev).set(generation.id, interval));
-        }
       } else {
         toast({
           title: "Retry Failed",
@@ -481,7 +463,32 @@ export function GenerationStatusManager({ children }: GenerationStatusManagerPro
         duration: 5000,
       });
     }
-  }, [api, toast, generations, pollGenerationStatus]);
+  }, [api, toast]);
+
+  const cancelGeneration = useCallback(async (taskId: string) => {
+    try {
+      const result = await api.cancelGeneration(taskId);
+      toast({
+        title: "Generation Cancelled",
+        description: result.message,
+        duration: 5000,
+      });
+
+      // The status event normally arrives first; apply locally in case the stream is down
+      const generation = generationsRef.current.find(g => g.taskId === taskId);
+      if (generation) {
+        await pollGenerationStatus(generation.id, taskId);
+      }
+    } catch (error) {
+      console.error('Cancel error:', error);
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Failed to cancel generation. Please try again.",
+        variant: "destructive",
+        duration: 5000,
+      });
+    }
+  }, [toast, pollGenerationStatus]);
 
   return (
     <>
@@ -491,6 +498,7 @@ export function GenerationStatusManager({ children }: GenerationStatusManagerPro
         dismissGeneration,
         toggleMinimize,
         retryGeneration,
+        cancelGeneration,
       })}
     </>
   );
@@ -1,23 +1,17 @@
 import { useState } from "react";
 import type { ReactNode } from "react";
-import Uppy from "@uppy/core";
 import { DashboardModal } from "@uppy/react";
 import "@uppy/core/dist/style.min.css";
 import "@uppy/dashboard/dist/style.min.css";
-import AwsS3 from "@uppy/aws-s3";
-import type { UploadResult } from "@uppy/core";
+import type { UploadResponse } from "@shared/types";
+import { createResumableUppy, getUploadedObject } from "@/lib/resumableUpload";
 import { Button } from "@/components/ui/button";
 
 interface ObjectUploaderProps {
   maxNumberOfFiles?: number;
   maxFileSize?: number;
-  onGetUploadParameters: () => Promise<{
-    method: "PUT";
-    url: string;
-  }>;
-  onComplete?: (
-    result: UploadResult<Record<string, unknown>, Record<string, unknown>>
-  ) => void;
+  allowedFileTypes?: string[];
+  onComplete?: (uploads: UploadResponse[]) => void;
   buttonClassName?: string;
   children: ReactNode;
 }
@@ -34,45 +28,37 @@ interface ObjectUploaderProps {
  *   - Upload progress tracking
  *   - Upload status display
  * 
- * The component uses Uppy under the hood to handle all file upload functionality.
- * All file management features are automatically handled by the Uppy dashboard modal.
+ * Files are sent in chunks over the tus resumable upload protocol, so an upload interrupted by
+ * a flaky connection continues from the last stored chunk; the dashboard shows each file's
+ * progress and lets the user pause and resume it.
  * 
  * @param props - Component props
  * @param props.maxNumberOfFiles - Maximum number of files allowed to be uploaded
  *   (default: 1)
  * @param props.maxFileSize - Maximum file size in bytes (default: 10MB)
- * @param props.onGetUploadParameters - Function to get upload parameters (method and URL).
- *   Typically used to fetch a presigned URL from the backend server for direct-to-S3
- *   uploads.
- * @param props.onComplete - Callback function called when upload is complete. Typically
- *   used to make post-upload API calls to update server state and set object ACL
- *   policies.
+ * @param props.allowedFileTypes - MIME types the picker accepts (default: the image types the
+ *   server accepts)
+ * @param props.onComplete - Callback function called with the published object paths once
+ *   every file has been uploaded.
  * @param props.buttonClassName - Optional CSS class name for the button
  * @param props.children - Content to be rendered inside the button
  */
 export function ObjectUploader({
   maxNumberOfFiles = 1,
   maxFileSize = 10485760, // 10MB default
-  onGetUploadParameters,
+  allowedFileTypes,
   onComplete,
   buttonClassName,
   children,
 }: ObjectUploaderProps) {
   const [showModal, setShowModal] = useState(false);
   const [uppy] = useState(() =>
-    new Uppy({
-      restrictions: {
-        maxNumberOfFiles,
-        maxFileSize,
-      },
-      autoProceed: false,
-    })
-      .use(AwsS3, {
-        shouldUseMultipart: false,
-        getUploadParameters: onGetUploadParameters,
-      })
+    createResumableUppy({ maxNumberOfFiles, maxFileSize, allowedFileTypes })
       .on("complete", (result) => {
-        onComplete?.(result);
+        const uploads = (result.successful ?? [])
+          .map((file) => getUploadedObject(file.response))
+          .filter((upload): upload is UploadResponse => upload !== null);
+        onComplete?.(uploads);
       })
   );
 
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { api } from "@/lib/api";
+import { extractTemplateVariables } from "@shared/promptTemplates";
+import type { PromptTemplate } from "@shared/schema";
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  body: string;
+  shared: boolean;
+}
+
+interface PromptTemplateManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called with the template that was just created or saved
+  onSaved?: (template: PromptTemplate) => void;
+}
+
+export function PromptTemplateManager({ open, onOpenChange, onSaved }: PromptTemplateManagerProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['/api/prompt-templates'],
+    queryFn: () => api.getPromptTemplates(),
+    enabled: open
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (template: TemplateDraft) => {
+      const data = { name: template.name, body: template.body, shared: template.shared };
+      return template.id ? api.updatePromptTemplate(template.id, data) : api.createPromptTemplate(data);
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prompt-templates'] });
+      toast({ title: "Template saved", description: `${template.name} is ready to use.` });
+      setDraft(null);
+      onSaved?.(template);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save template", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deletePromptTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prompt-templates'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete template", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setDraft(null);
+    onOpenChange(nextOpen);
+  };
+
+  const draftVariables = draft ? extractTemplateVariables(draft.body) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Prompt templates</DialogTitle>
+          <DialogDescription>
+            Reuse a prompt structure across products. Wrap the parts that change in double braces, e.g. {"{{product}}"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="template-name" className="text-sm font-medium text-slate-700">Name</Label>
+              <Input
+                id="template-name"
+                className="mt-2"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Themed product ad"
+              />
+            </div>
+            <div>
+              <Label htmlFor="template-body" className="text-sm font-medium text-slate-700">Template</Label>
+              <Textarea
+                id="template-body"
+                className="mt-2 resize-none"
+                rows={5}
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                placeholder="Create a {{product}} advertisement with a {{theme}} theme..."
+              />
+              <div className="mt-2 flex flex-wrap gap-1">
+                {draftVariables.length === 0 ? (
+                  <span className="text-xs text-slate-500">No variables yet</span>
+                ) : (
+                  draftVariables.map((name) => <Badge key={name} variant="secondary">{name}</Badge>)
+                )}
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="template-shared" className="text-sm text-slate-700">Share with the team</Label>
+                <p className="text-xs text-slate-500">Everyone can use shared templates; only you can edit them</p>
+              </div>
+              <Switch
+                id="template-shared"
+                checked={draft.shared}
+                onCheckedChange={(shared) => setDraft({ ...draft, shared })}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>Back</Button>
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={!draft.name.trim() || !draft.body.trim() || saveMutation.isPending}
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save template
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8 text-slate-500">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading templates...
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-slate-500 py-4 text-center">No templates yet. Create one to reuse a prompt across products.</p>
+            ) : (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                {templates.map((template) => {
+                  const isOwner = template.userId === user?.id;
+                  return (
+                    <div key={template.id} className="flex items-center gap-3 p-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-slate-900 flex items-center gap-2">
+                          {template.name}
+                          {template.shared && <Badge variant="outline">Shared</Badge>}
+                        </p>
+                        <p className="text-xs text-slate-500 truncate">{template.body}</p>
+                      </div>
+                      {isOwner && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setDraft({ id: template.id, name: template.name, body: template.body, shared: template.shared })}
+                          >
+                            <Pencil size={16} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteMutation.mutate(template.id)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 size={16} className="text-red-500" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <Button className="w-full" variant="outline" onClick={() => setDraft({ name: "", body: "", shared: false })}>
+              <Plus className="mr-2" size={16} />
+              New template
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Settings2 } from "lucide-react";
+import { api } from "@/lib/api";
+import { PromptTemplateManager } from "@/components/PromptTemplateManager";
+import { expandPromptTemplate, extractTemplateVariables } from "@shared/promptTemplates";
+import type { PromptTemplate } from "@shared/schema";
+
+// Radix Select items cannot have an empty value
+const NO_TEMPLATE = "none";
+
+export interface PromptTemplateSelection {
+  templateId?: string;
+  variables: Record<string, string>;
+  // Template expanded with the current values; unset when no template is selected
+  promptText?: string;
+}
+
+interface PromptTemplatePickerProps {
+  templateId?: string;
+  variables: Record<string, string>;
+  onChange: (selection: PromptTemplateSelection) => void;
+}
+
+export function PromptTemplatePicker({ templateId, variables, onChange }: PromptTemplatePickerProps) {
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+  const { data: templates = [], isSuccess } = useQuery({
+    queryKey: ['/api/prompt-templates'],
+    queryFn: () => api.getPromptTemplates()
+  });
+
+  // A deleted template drops back to free-text prompting
+  const selected = templates.find(template => template.id === templateId);
+  const variableNames = selected ? extractTemplateVariables(selected.body) : [];
+
+  // Keep the expanded prompt in step with template edits made in the manager
+  useEffect(() => {
+    if (selected) {
+      onChange({ templateId: selected.id, variables, promptText: expandPromptTemplate(selected.body, variables) });
+    } else if (templateId && isSuccess) {
+      onChange({ templateId: undefined, variables: {} });
+    }
+  }, [selected?.body, templateId, isSuccess]);
+
+  // Carries over values for variables the new template shares with the old one
+  const applyTemplate = (template: PromptTemplate) => {
+    const nextVariables = Object.fromEntries(
+      extractTemplateVariables(template.body).map(name => [name, variables[name] ?? ""])
+    );
+    onChange({ templateId: template.id, variables: nextVariables, promptText: expandPromptTemplate(template.body, nextVariables) });
+  };
+
+  const selectTemplate = (nextId: string) => {
+    const template = templates.find(candidate => candidate.id === nextId);
+    if (template) {
+      applyTemplate(template);
+    } else {
+      onChange({ templateId: undefined, variables: {} });
+    }
+  };
+
+  const setVariable = (name: string, value: string) => {
+    if (!selected) return;
+    const nextVariables = { ...variables, [name]: value };
+    onChange({ templateId: selected.id, variables: nextVariables, promptText: expandPromptTemplate(selected.body, nextVariables) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={selected ? selected.id : NO_TEMPLATE} onValueChange={selectTemplate}>
+          <SelectTrigger id="prompt_template" className="flex-1">
+            <SelectValue placeholder="Select a template" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TEMPLATE}>No template</SelectItem>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}{template.shared ? " (shared)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="icon" onClick={() => setIsManagerOpen(true)} title="Manage templates">
+          <Settings2 size={16} />
+        </Button>
+      </div>
+
+      {variableNames.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {variableNames.map((name) => (
+            <div key={name} className="space-y-1">
+              <Label htmlFor={`template-variable-${name}`} className="text-xs text-slate-500">{name}</Label>
+              <Input
+                id={`template-variable-${name}`}
+                value={variables[name] ?? ""}
+                onChange={(e) => setVariable(name, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <PromptTemplateManager
+        open={isManagerOpen}
+        onOpenChange={setIsManagerOpen}
+        onSaved={applyTemplate}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import type { GenerationCreateRequest } from "@shared/types";
+
+// Cron runs in UTC on the server
+const CRON_PRESETS = [
+  { value: "0 9 * * *", label: "Every day at 09:00 UTC" },
+  { value: "0 9 * * 1", label: "Every Monday at 09:00 UTC" },
+  { value: "0 9 1 * *", label: "First of the month at 09:00 UTC" },
+  { value: "custom", label: "Custom cron expression" }
+];
+
+interface ScheduleGenerationDialogProps {
+  // The generation to schedule, built from the create form; null closes the dialog
+  request: GenerationCreateRequest | null;
+  onOpenChange: (open: boolean) => void;
+  onScheduled?: () => void;
+}
+
+export function ScheduleGenerationDialog({ request, onOpenChange, onScheduled }: ScheduleGenerationDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [mode, setMode] = useState<"once" | "recurring">("once");
+  const [runAt, setRunAt] = useState("");
+  const [preset, setPreset] = useState(CRON_PRESETS[1].value);
+  const [customCron, setCustomCron] = useState("");
+
+  const cron = preset === "custom" ? customCron.trim() : preset;
+
+  const scheduleMutation = useMutation({
+    mutationFn: () => api.createScheduledGeneration({
+      name: name.trim(),
+      request: request!,
+      ...(mode === "once" ? { runAt: new Date(runAt).toISOString() } : { cron })
+    }),
+    onSuccess: (schedule) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-generations'] });
+      toast({
+        title: "Generation scheduled",
+        description: schedule.nextRunAt ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}` : schedule.name
+      });
+      setName("");
+      setRunAt("");
+      onOpenChange(false);
+      onScheduled?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not schedule generation", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const canSubmit = !!name.trim() && (mode === "once" ? !!runAt : !!cron);
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Schedule generation</DialogTitle>
+          <DialogDescription>
+            Runs the current form later, once or on a recurring schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="schedule-name" className="text-sm font-medium text-slate-700">Name</Label>
+            <Input
+              id="schedule-name"
+              className="mt-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Weekly promo refresh"
+            />
+          </div>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as "once" | "recurring")} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="once" id="schedule-once" />
+              <Label htmlFor="schedule-once" className="text-sm text-slate-700">Once</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="recurring" id="schedule-recurring" />
+              <Label htmlFor="schedule-recurring" className="text-sm text-slate-700">Recurring</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === "once" ? (
+            <div>
+              <Label htmlFor="schedule-run-at" className="text-xs text-slate-500">Run at (local time)</Label>
+              <Input
+                id="schedule-run-at"
+                type="datetime-local"
+                className="mt-1"
+                value={runAt}
+                onChange={(e) => setRunAt(e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Select value={preset} onValueChange={setPreset}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CRON_PRESETS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {preset === "custom" && (
+                <div>
+                  <Input
+                    value={customCron}
+                    onChange={(e) => setCustomCron(e.target.value)}
+                    placeholder="minute hour day-of-month month day-of-week"
+                    className="font-mono"
+                  />
+                  <p className="mt-1 text-xs text-slate-500">Five cron fields, evaluated in UTC, e.g. "30 14 * * 5" for Fridays at 14:30.</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={() => scheduleMutation.mutate()} disabled={!canSubmit || scheduleMutation.isPending}>
+              {scheduleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Schedule
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,7 +17,7 @@ export function StatusDialog({ isOpen, onClose, status, errorMessage, startTime
 
   // Update elapsed time every second
   useEffect(() => {
-    if (!isOpen || status === "completed" || status === "200" || status === "failed") {
+    if (!isOpen || status === "completed" || status === "failed") {
       return;
     }
 
@@ -73,7 +73,6 @@ export function StatusDialog({ isOpen, onClose, status, errorMessage, startTime
           canClose: false,
         };
       case "completed":
-      case "200":
         return {
           icon: <CheckCircle className="h-8 w-8 text-green-500" />,
           title: "Video Successfully Generated!",
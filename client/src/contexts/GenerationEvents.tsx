@@ -0,0 +1,92 @@
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback, ReactNode } from "react";
+import type { GenerationStatusResponse } from "@shared/types";
+
+type GenerationEventListener = (status: GenerationStatusResponse) => void;
+
+interface GenerationEventsContextType {
+  // True while the server stream is open; callers poll quickly when it is false and
+  // slowly (RECONCILE_POLL_INTERVAL_MS) when it is true
+  isConnected: boolean;
+  subscribe: (listener: GenerationEventListener) => () => void;
+}
+
+const GenerationEventsContext = createContext<GenerationEventsContextType | undefined>(undefined);
+
+const EVENTS_URL = "/api/generations/events";
+const RECONNECT_DELAY_MS = 10000;
+
+// The stream only carries changes made by the server instance it is connected to, so
+// changes written by other instances are picked up by this slower poll
+export const RECONCILE_POLL_INTERVAL_MS = 30000;
+
+interface GenerationEventsProviderProps {
+  children: ReactNode;
+}
+
+export function GenerationEventsProvider({ children }: GenerationEventsProviderProps) {
+  const [isConnected, setIsConnected] = useState(false);
+  const listenersRef = useRef<Set<GenerationEventListener>>(new Set());
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    let source: EventSource | null = null;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    let disposed = false;
+
+    const connect = () => {
+      source = new EventSource(EVENTS_URL, { withCredentials: true });
+
+      source.onopen = () => setIsConnected(true);
+
+      source.addEventListener("generation", (event) => {
+        try {
+          const status = JSON.parse((event as MessageEvent).data) as GenerationStatusResponse;
+          listenersRef.current.forEach(listener => listener(status));
+        } catch (error) {
+          console.warn("Failed to parse generation event:", error);
+        }
+      });
+
+      source.onerror = () => {
+        setIsConnected(false);
+        // EventSource retries dropped connections itself, but gives up on HTTP errors
+        if (source?.readyState === EventSource.CLOSED && !disposed) {
+          source.close();
+          reconnectTimeout = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+      }
+      source?.close();
+    };
+  }, []);
+
+  const subscribe = useCallback((listener: GenerationEventListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <GenerationEventsContext.Provider value={{ isConnected, subscribe }}>
+      {children}
+    </GenerationEventsContext.Provider>
+  );
+}
+
+export function useGenerationEvents(): GenerationEventsContextType {
+  const context = useContext(GenerationEventsContext);
+  if (!context) {
+    throw new Error("useGenerationEvents must be used within a GenerationEventsProvider");
+  }
+  return context;
+}
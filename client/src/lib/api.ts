@@ -1,5 +1,16 @@
 import { apiRequest } from "./queryClient";
-import type { UploadResponse, GenerationCreateRequest, GenerationStatusResponse, RetryGenerationRequest, RetryGenerationResponse } from "@shared/types";
+import type { UploadResponse, GenerationCreateRequest, GenerationStatusResponse, RetryGenerationRequest, RetryGenerationResponse, CancelGenerationResponse, GenerationHistoryResponse, GenerationStatus, GenerationErrorType, BrandPersonaRequest, BrandPersonaUpdateRequest, GenerationHistoryItem, GenerationLineageResponse, GenerationBatchRequest, GenerationBatchSummary, GenerationBatchDetail, PromptTemplateRequest, PromptTemplateUpdateRequest, ScheduledGenerationRequest, ScheduledGenerationUpdateRequest } from "@shared/types";
+import type { BrandPersona, GenerationAsset, PromptTemplate, ScheduledGeneration, WebhookAttempt } from "@shared/schema";
+
+export interface GenerationHistoryParams {
+  cursor?: string;
+  limit?: number;
+  status?: GenerationStatus[];
+  errorType?: GenerationErrorType[];
+  from?: string;
+  to?: string;
+  q?: string;
+}
 
 export const api = {
   // Upload file
@@ -73,18 +84,146 @@ export const api = {
     return response.json();
   },
 
+  // Get a page of generation history, newest first
+  getGenerationHistory: async (params: GenerationHistoryParams): Promise<GenerationHistoryResponse> => {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+      search.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+    const response = await apiRequest('GET', `/api/generations?${search.toString()}`);
+    return response.json();
+  },
+
+  // Get webhook attempts for a generation
+  getGenerationAttempts: async (id: string): Promise<WebhookAttempt[]> => {
+    const response = await apiRequest('GET', `/api/generations/${id}/attempts`);
+    return response.json();
+  },
+
+  // Get the remix tree containing a generation
+  getGenerationLineage: async (id: string): Promise<GenerationLineageResponse> => {
+    const response = await apiRequest('GET', `/api/generations/${id}/lineage`);
+    return response.json();
+  },
+
+  // Create a batch of generations from a CSV or JSON manifest
+  createGenerationBatch: async (data: GenerationBatchRequest): Promise<GenerationBatchDetail> => {
+    const response = await apiRequest('POST', '/api/generations/batch', data);
+    return response.json();
+  },
+
+  // Get recent batches with progress counts
+  getGenerationBatches: async (): Promise<GenerationBatchSummary[]> => {
+    const response = await apiRequest('GET', '/api/generations/batch');
+    return response.json();
+  },
+
+  // Get a batch with per-row results
+  getGenerationBatch: async (id: string): Promise<GenerationBatchDetail> => {
+    const response = await apiRequest('GET', `/api/generations/batch/${id}`);
+    return response.json();
+  },
+
+  // Get every output asset of a generation
+  getGenerationAssets: async (id: string): Promise<GenerationAsset[]> => {
+    const response = await apiRequest('GET', `/api/generations/${id}/assets`);
+    return response.json();
+  },
+
+  // Mark an output variant as the pick
+  pickGenerationAsset: async (id: string, assetId: string): Promise<GenerationAsset> => {
+    const response = await apiRequest('POST', `/api/generations/${id}/assets/${assetId}/pick`);
+    return response.json();
+  },
+
   // Get single generation
-  getGeneration: async (id: string) => {
+  getGeneration: async (id: string): Promise<GenerationHistoryItem> => {
     const response = await apiRequest('GET', `/api/generations/${id}`);
     return response.json();
   },
 
+  // List the user's brand personas
+  getBrandPersonas: async (): Promise<BrandPersona[]> => {
+    const response = await apiRequest('GET', '/api/brand-personas');
+    return response.json();
+  },
+
+  // Create brand persona
+  createBrandPersona: async (data: BrandPersonaRequest): Promise<BrandPersona> => {
+    const response = await apiRequest('POST', '/api/brand-personas', data);
+    return response.json();
+  },
+
+  // Update brand persona
+  updateBrandPersona: async (id: string, data: BrandPersonaUpdateRequest): Promise<BrandPersona> => {
+    const response = await apiRequest('PATCH', `/api/brand-personas/${id}`, data);
+    return response.json();
+  },
+
+  // Delete brand persona
+  deleteBrandPersona: async (id: string): Promise<void> => {
+    await apiRequest('DELETE', `/api/brand-personas/${id}`);
+  },
+
+  // Get own and shared prompt templates
+  getPromptTemplates: async (): Promise<PromptTemplate[]> => {
+    const response = await apiRequest('GET', '/api/prompt-templates');
+    return response.json();
+  },
+
+  // Create prompt template
+  createPromptTemplate: async (data: PromptTemplateRequest): Promise<PromptTemplate> => {
+    const response = await apiRequest('POST', '/api/prompt-templates', data);
+    return response.json();
+  },
+
+  // Update prompt template
+  updatePromptTemplate: async (id: string, data: PromptTemplateUpdateRequest): Promise<PromptTemplate> => {
+    const response = await apiRequest('PATCH', `/api/prompt-templates/${id}`, data);
+    return response.json();
+  },
+
+  // Delete prompt template
+  deletePromptTemplate: async (id: string): Promise<void> => {
+    await apiRequest('DELETE', `/api/prompt-templates/${id}`);
+  },
+
+  // Get scheduled and recurring generations
+  getScheduledGenerations: async (): Promise<ScheduledGeneration[]> => {
+    const response = await apiRequest('GET', '/api/scheduled-generations');
+    return response.json();
+  },
+
+  // Schedule a generation once or on a cron expression
+  createScheduledGeneration: async (data: ScheduledGenerationRequest): Promise<ScheduledGeneration> => {
+    const response = await apiRequest('POST', '/api/scheduled-generations', data);
+    return response.json();
+  },
+
+  // Pause or resume a schedule
+  updateScheduledGeneration: async (id: string, data: ScheduledGenerationUpdateRequest): Promise<ScheduledGeneration> => {
+    const response = await apiRequest('PATCH', `/api/scheduled-generations/${id}`, data);
+    return response.json();
+  },
+
+  // Delete a schedule
+  deleteScheduledGeneration: async (id: string): Promise<void> => {
+    await apiRequest('DELETE', `/api/scheduled-generations/${id}`);
+  },
+
   // Get generation status by taskId
   getGenerationStatus: async (taskId: string): Promise<GenerationStatusResponse> => {
     const response = await apiRequest('GET', `/api/generations/status/${taskId}`);
     return response.json();
   },
 
+  // Cancel a pending or processing generation
+  cancelGeneration: async (taskId: string): Promise<CancelGenerationResponse> => {
+    const response = await apiRequest('POST', `/api/generations/${taskId}/cancel`);
+    return response.json();
+  },
+
   // Retry failed generation
   retryGeneration: async (data: RetryGenerationRequest): Promise<RetryGenerationResponse> => {
     console.log('🔄 === CLIENT: RETRYING GENERATION ===');
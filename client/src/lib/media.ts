@@ -0,0 +1,24 @@
+// Builds a browser URL for a stored media path
+export function getMediaUrl(path: string): string {
+  // If path is already a full URL (starts with http/https), use it directly
+  if (path.startsWith('http://') || path.startsWith('https://')) {
+    return path;
+  }
+
+  // Handle /public-objects/ paths - serve directly via public endpoint
+  if (path.startsWith('/public-objects/')) {
+    return path;
+  }
+
+  // Handle /objects/ paths - serve via /api/media/ endpoint
+  if (path.startsWith('/objects/')) {
+    return `/api/media/${encodeURIComponent(path.replace('/objects/', ''))}`;
+  }
+
+  // Fallback for other relative paths
+  return `/api/media/${encodeURIComponent(path)}`;
+}
+
+export function openMedia(url: string): void {
+  window.open(url, '_blank');
+}
@@ -0,0 +1,45 @@
+import Uppy, { type UppyEventMap, type UppyFile } from "@uppy/core";
+import Tus, { type TusBody } from "@uppy/tus";
+import { TUS_UPLOAD_ROUTE, TUS_OBJECT_PATH_HEADER, UPLOAD_IMAGE_TYPES, type UploadResponse } from "@shared/types";
+
+// Each chunk is its own PATCH, so a dropped connection only has to resend the chunk in flight
+const TUS_CHUNK_SIZE = 5 * 1024 * 1024;
+
+export type ResumableUppy = Uppy<Record<string, never>, TusBody>;
+export type ResumableUploadFile = UppyFile<Record<string, never>, TusBody>;
+export type ResumableUploadResponse = NonNullable<ResumableUploadFile["response"]>;
+// Handler types for uppy.on(), e.g. ResumableUppyEvents["upload-success"]
+export type ResumableUppyEvents = UppyEventMap<Record<string, never>, TusBody>;
+
+interface ResumableUppyOptions {
+  maxNumberOfFiles?: number;
+  maxFileSize?: number;
+  allowedFileTypes?: string[];
+  autoProceed?: boolean;
+}
+
+// Uppy wired to the server's tus endpoint; tus-js-client remembers unfinished uploads in localStorage,
+// so picking the same file again after a reload resumes it instead of starting over
+export function createResumableUppy({
+  maxNumberOfFiles,
+  maxFileSize,
+  allowedFileTypes = [...UPLOAD_IMAGE_TYPES],
+  autoProceed = false
+}: ResumableUppyOptions = {}): ResumableUppy {
+  return new Uppy<Record<string, never>, TusBody>({
+    restrictions: { maxNumberOfFiles, maxFileSize, allowedFileTypes },
+    autoProceed
+  }).use(Tus, {
+    endpoint: TUS_UPLOAD_ROUTE,
+    chunkSize: TUS_CHUNK_SIZE,
+    retryDelays: [0, 1000, 3000, 5000, 10000, 30000],
+    withCredentials: true,
+    removeFingerprintOnSuccess: true
+  });
+}
+
+// The published object for a finished upload, taken from the last tus response
+export function getUploadedObject(response: ResumableUploadFile["response"]): UploadResponse | null {
+  const objectPath = response?.body?.xhr.getResponseHeader(TUS_OBJECT_PATH_HEADER);
+  return objectPath ? { objectPath, mediaUrl: objectPath } : null;
+}
@@ -0,0 +1,320 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, FileSpreadsheet, Layers, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { AuthButton } from "@/components/AuthButton";
+import { GenerationStatusBadge } from "@/components/GenerationStatusBadge";
+import { GenerationDetailDialog } from "@/components/GenerationDetailDialog";
+import { useGenerationEvents } from "@/contexts/GenerationEvents";
+import type { GenerationBatchRequest, GenerationBatchSummary, GenerationHistoryItem } from "@shared/types";
+
+type ManifestFormat = GenerationBatchRequest["format"];
+
+const CSV_EXAMPLE = `promptText,image_urls,persona,aspectRatio,durationSeconds
+"Unboxing the new sneakers, close-up",/objects/uploads/abc|/objects/uploads/def,Ayesha,9:16,8`;
+
+// Rows in these states will not change again
+const SETTLED_STATUSES = ["completed", "failed", "cancelled", "rejected"];
+
+const countSettled = (batch: GenerationBatchSummary) =>
+  SETTLED_STATUSES.reduce((sum, status) => sum + (batch.counts[status] || 0), 0);
+
+const getRowPrompt = (input: unknown): string => {
+  const prompt = (input as Record<string, unknown> | null)?.promptText;
+  return typeof prompt === "string" ? prompt : "";
+};
+
+export default function BatchesPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [format, setFormat] = useState<ManifestFormat>("csv");
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+  const [selectedGeneration, setSelectedGeneration] = useState<GenerationHistoryItem | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: batches = [], isLoading } = useQuery({
+    queryKey: ['/api/generations/batch'],
+    queryFn: () => api.getGenerationBatches()
+  });
+
+  const { data: selectedBatch, isLoading: batchLoading } = useQuery({
+    queryKey: ['/api/generations/batch', selectedBatchId],
+    queryFn: () => api.getGenerationBatch(selectedBatchId!),
+    enabled: !!selectedBatchId
+  });
+
+  // Row statuses move with their generations, so refetch progress on every event
+  const { subscribe } = useGenerationEvents();
+  useEffect(() => {
+    return subscribe(() => {
+      queryClient.invalidateQueries({ queryKey: ['/api/generations/batch'] });
+    });
+  }, [subscribe, queryClient]);
+
+  const createMutation = useMutation({
+    mutationFn: (data: GenerationBatchRequest) => api.createGenerationBatch(data),
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/generations/batch'] });
+      const rejected = batch.counts.rejected || 0;
+      toast({
+        title: "Batch queued",
+        description: rejected > 0
+          ? `${batch.totalItems - rejected} of ${batch.totalItems} rows queued; ${rejected} rejected.`
+          : `${batch.totalItems} rows queued.`,
+        variant: rejected > 0 ? "destructive" : "default"
+      });
+      setSelectedBatchId(batch.id);
+      setName("");
+      setContent("");
+      setFileName(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create batch", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension !== "csv" && extension !== "json") {
+      toast({ title: "Invalid file", description: "Only .csv and .json manifests are supported", variant: "destructive" });
+      return;
+    }
+    setFormat(extension);
+    setFileName(file.name);
+    setContent(await file.text());
+  };
+
+  const selectGeneration = async (generationId: string) => {
+    setSelectedGeneration(await api.getGeneration(generationId));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-primary to-primary/80 rounded-lg flex items-center justify-center">
+                <Layers className="text-white" size={20} />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-slate-900">Batch Generation</h1>
+                <p className="text-slate-600 mt-1">Queue many videos at once from a CSV or JSON manifest</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/">
+                  <ArrowLeft className="mr-2" size={16} />
+                  Create
+                </Link>
+              </Button>
+              <AuthButton />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Upload */}
+        <Card className="shadow-sm lg:col-span-1 h-fit">
+          <CardHeader>
+            <CardTitle>New batch</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="batch-name" className="text-sm font-medium text-slate-700">Name (optional)</Label>
+              <Input
+                id="batch-name"
+                className="mt-2"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Spring campaign"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Select value={format} onValueChange={(value) => setFormat(value as ManifestFormat)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="outline" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="mr-2" size={16} />
+                {fileName ?? "Choose file"}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={handleFileSelect}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="batch-content" className="text-sm font-medium text-slate-700">Manifest</Label>
+              <Textarea
+                id="batch-content"
+                className="mt-2 font-mono text-xs"
+                rows={10}
+                value={content}
+                onChange={(e) => {
+                  setContent(e.target.value);
+                  setFileName(null);
+                }}
+                placeholder={format === "csv" ? CSV_EXAMPLE : '[{ "promptText": "...", "persona": "Ayesha", "durationSeconds": 8 }]'}
+              />
+              <p className="mt-2 text-xs text-slate-500">
+                Columns match the create form: promptText, image_urls (separate paths with "|" in CSV), persona (a saved persona name),
+                aspectRatio, durationSeconds, resolution, negativePrompt, seed and generateAudio. Rows beyond your hourly limit are scheduled for later.
+              </p>
+            </div>
+
+            <Button
+              className="w-full"
+              onClick={() => createMutation.mutate({ name: name.trim() || undefined, format, content })}
+              disabled={!content.trim() || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Queue batch
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-8">
+          {/* Batches */}
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle>Recent batches</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8 text-slate-500">
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading batches...
+                </div>
+              ) : batches.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <FileSpreadsheet className="text-slate-400 mb-3" size={32} />
+                  <p className="text-slate-600">Batches you queue will appear here</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg bg-white">
+                  {batches.map((batch) => {
+                    const settled = countSettled(batch);
+                    return (
+                      <button
+                        key={batch.id}
+                        type="button"
+                        onClick={() => setSelectedBatchId(batch.id)}
+                        className={cn(
+                          "w-full p-4 text-left transition-colors space-y-2",
+                          batch.id === selectedBatchId ? "bg-slate-100" : "hover:bg-slate-50"
+                        )}
+                      >
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="font-medium text-slate-900 truncate">
+                            {batch.name || `${batch.source.toUpperCase()} batch`}
+                          </span>
+                          <span className="text-xs text-slate-500 flex-shrink-0">
+                            {batch.createdAt ? new Date(batch.createdAt).toLocaleString() : ""}
+                          </span>
+                        </div>
+                        <Progress value={batch.totalItems ? (settled / batch.totalItems) * 100 : 0} className="h-2" />
+                        <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+                          <span>{settled}/{batch.totalItems} done</span>
+                          {Object.entries(batch.counts).map(([status, count]) => (
+                            <span key={status} className={status === "rejected" || status === "failed" ? "text-red-600" : undefined}>
+                              {count} {status}
+                            </span>
+                          ))}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Rows of the selected batch */}
+          {selectedBatchId && (
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle>{selectedBatch?.name || "Batch rows"}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {batchLoading || !selectedBatch ? (
+                  <div className="flex items-center justify-center py-8 text-slate-500">
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading rows...
+                  </div>
+                ) : (
+                  <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg bg-white">
+                    {selectedBatch.items.map((item) => {
+                      const generation = item.generation;
+                      const scheduledFor = item.scheduledFor ? new Date(item.scheduledFor) : null;
+                      return (
+                        <button
+                          key={item.rowIndex}
+                          type="button"
+                          disabled={!generation}
+                          onClick={() => generation && selectGeneration(generation.id)}
+                          className="w-full flex items-start gap-4 p-3 text-left text-sm hover:bg-slate-50 disabled:hover:bg-transparent transition-colors"
+                        >
+                          <span className="w-8 text-xs text-slate-500 flex-shrink-0 pt-0.5">#{item.rowIndex}</span>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-slate-900 truncate">{getRowPrompt(item.input) || <span className="text-slate-400">No prompt</span>}</p>
+                            {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+                            {generation?.errorMessage && <p className="text-xs text-red-600 mt-1">{generation.errorMessage}</p>}
+                            {generation?.status === "pending" && scheduledFor && scheduledFor.getTime() > Date.now() && (
+                              <p className="text-xs text-slate-500 mt-1">Scheduled for {scheduledFor.toLocaleTimeString()}</p>
+                            )}
+                          </div>
+                          {generation ? (
+                            <GenerationStatusBadge status={generation.status} className="flex-shrink-0" />
+                          ) : (
+                            <span className="text-xs font-medium text-red-600 flex-shrink-0">Rejected</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <GenerationDetailDialog
+        generation={selectedGeneration}
+        onOpenChange={(open) => !open && setSelectedGeneration(null)}
+        onSelectGeneration={selectGeneration}
+      />
+    </div>
+  );
+}
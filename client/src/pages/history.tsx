@@ -0,0 +1,292 @@
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, History as HistoryIcon, Loader2, Search, X } from "lucide-react";
+import { api } from "@/lib/api";
+import { getMediaUrl } from "@/lib/media";
+import { cn } from "@/lib/utils";
+import { AuthButton } from "@/components/AuthButton";
+import { GenerationStatusBadge, getErrorTypeDisplayName } from "@/components/GenerationStatusBadge";
+import { GenerationDetailDialog } from "@/components/GenerationDetailDialog";
+import { useGenerationEvents } from "@/contexts/GenerationEvents";
+import type { GenerationHistoryItem, GenerationStatus } from "@shared/types";
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_FILTERS: { value: GenerationStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "processing", label: "Processing" },
+  { value: "completed", label: "Completed" },
+  { value: "failed", label: "Failed" },
+  { value: "cancelled", label: "Cancelled" }
+];
+
+// Date inputs are local calendar days; the range includes the whole "to" day
+const startOfDay = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const endOfDay = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
+
+export default function HistoryPage() {
+  const queryClient = useQueryClient();
+  const [statuses, setStatuses] = useState<GenerationStatus[]>([]);
+  const [fromDay, setFromDay] = useState("");
+  const [toDay, setToDay] = useState("");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<GenerationHistoryItem | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const filters = {
+    status: statuses,
+    from: startOfDay(fromDay),
+    to: endOfDay(toDay),
+    q: search || undefined
+  };
+
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/generations', 'history', filters],
+    queryFn: ({ pageParam }) => api.getGenerationHistory({ ...filters, limit: PAGE_SIZE, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined
+  });
+
+  // Status changes can move rows between chips, so refetch the loaded pages
+  const { subscribe } = useGenerationEvents();
+  useEffect(() => {
+    return subscribe(() => {
+      queryClient.invalidateQueries({ queryKey: ['/api/generations', 'history'] });
+    });
+  }, [subscribe, queryClient]);
+
+  // Load the next page once the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const items = data?.pages.flatMap(page => page.items) ?? [];
+  const firstPage = data?.pages[0];
+  const statusCounts = firstPage?.statusCounts ?? {};
+  const countFor = (status: GenerationStatus) => statusCounts[status] || 0;
+  // Show the freshest copy of the selected row as status events refetch the list
+  const selectedGeneration = selected ? items.find(item => item.id === selected.id) ?? selected : null;
+
+  // Lineage nodes may be outside the loaded pages or filters, so fetch them directly
+  const selectGeneration = async (generationId: string) => {
+    const loaded = items.find(item => item.id === generationId);
+    setSelected(loaded ?? await api.getGeneration(generationId));
+  };
+  const hasFilters = statuses.length > 0 || !!fromDay || !!toDay || !!search;
+
+  const toggleStatus = (status: GenerationStatus) => {
+    setStatuses(prev => prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]);
+  };
+
+  const clearFilters = () => {
+    setStatuses([]);
+    setFromDay("");
+    setToDay("");
+    setSearchInput("");
+    setSearch("");
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-primary to-primary/80 rounded-lg flex items-center justify-center">
+                <HistoryIcon className="text-white" size={20} />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-slate-900">Generation History</h1>
+                <p className="text-slate-600 mt-1">Every video you have requested, in any state</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/">
+                  <ArrowLeft className="mr-2" size={16} />
+                  Create
+                </Link>
+              </Button>
+              <AuthButton />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card className="shadow-sm">
+          <CardHeader className="space-y-4">
+            <CardTitle className="flex items-center justify-between">
+              <span>Generations</span>
+              {firstPage && (
+                <span className="text-sm font-normal text-slate-500">{firstPage.total} total</span>
+              )}
+            </CardTitle>
+
+            {/* Filters */}
+            <div className="flex flex-wrap gap-2">
+              {STATUS_FILTERS.map(({ value, label }) => {
+                const active = statuses.includes(value);
+                return (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => toggleStatus(value)}
+                    className={cn(
+                      "inline-flex items-center gap-2 px-3 py-1 rounded-full border text-xs font-medium transition-colors",
+                      active
+                        ? "bg-slate-900 text-white border-slate-900"
+                        : "bg-white text-slate-700 border-slate-200 hover:border-slate-400"
+                    )}
+                  >
+                    <span>{label}</span>
+                    <span className={cn("rounded-full px-1.5", active ? "bg-white/20" : "bg-slate-100")}>
+                      {countFor(value)}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div className="md:col-span-2 space-y-1">
+                <Label htmlFor="history-search" className="text-xs text-slate-500">Prompt</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+                  <Input
+                    id="history-search"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Search prompts..."
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="history-from" className="text-xs text-slate-500">From</Label>
+                <Input id="history-from" type="date" value={fromDay} max={toDay || undefined} onChange={(e) => setFromDay(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="history-to" className="text-xs text-slate-500">To</Label>
+                <Input id="history-to" type="date" value={toDay} min={fromDay || undefined} onChange={(e) => setToDay(e.target.value)} />
+              </div>
+            </div>
+
+            {hasFilters && (
+              <div>
+                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                  <X className="mr-1" size={14} />
+                  Clear filters
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+
+          <CardContent>
+            {isLoading && (
+              <div className="flex items-center justify-center py-16 text-slate-500">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                Loading history...
+              </div>
+            )}
+
+            {isError && (
+              <div className="py-16 text-center text-sm text-red-600">Failed to load generation history.</div>
+            )}
+
+            {!isLoading && !isError && items.length === 0 && (
+              <div className="flex flex-col items-center justify-center py-16 text-center">
+                <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mb-4">
+                  <HistoryIcon className="text-slate-400" size={32} />
+                </div>
+                <h3 className="text-lg font-medium text-slate-900 mb-2">No generations found</h3>
+                <p className="text-slate-600">
+                  {hasFilters ? "Try adjusting or clearing your filters" : "Generations you create will appear here"}
+                </p>
+              </div>
+            )}
+
+            {items.length > 0 && (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg bg-white">
+                {items.map((generation) => {
+                  const thumbnail = generation.imageGenerationPath || generation.imagesPaths?.[0] || generation.imageOriginalPath;
+                  return (
+                    <button
+                      key={generation.id}
+                      type="button"
+                      onClick={() => setSelected(generation)}
+                      className="w-full flex items-center gap-4 p-4 text-left hover:bg-slate-50 transition-colors"
+                    >
+                      {thumbnail ? (
+                        <img
+                          src={getMediaUrl(thumbnail)}
+                          alt=""
+                          className="w-14 h-14 object-cover rounded border border-slate-200 flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-14 h-14 rounded border border-slate-200 bg-slate-100 flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-slate-900 truncate">{generation.promptText}</p>
+                        <div className="flex items-center gap-3 mt-1 text-xs text-slate-500">
+                          <span>{generation.createdAt ? new Date(generation.createdAt).toLocaleString() : ""}</span>
+                          {generation.status === "failed" && generation.errorType && (
+                            <span className="text-red-600">{getErrorTypeDisplayName(generation.errorType)}</span>
+                          )}
+                        </div>
+                      </div>
+                      <GenerationStatusBadge status={generation.status} className="flex-shrink-0" />
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            <div ref={sentinelRef} />
+            {isFetchingNextPage && (
+              <div className="flex items-center justify-center py-6 text-sm text-slate-500">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading more...
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <GenerationDetailDialog
+        generation={selectedGeneration}
+        onOpenChange={(open) => !open && setSelected(null)}
+        onSelectGeneration={selectGeneration}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -7,21 +8,54 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { api } from "@/lib/api";
-import { Video, Lightbulb, Play, ExternalLink, Upload, X, Plus } from "lucide-react";
+import { getMediaUrl, openMedia } from "@/lib/media";
+import { createResumableUppy, getUploadedObject, type ResumableUppyEvents } from "@/lib/resumableUpload";
+import { Video, Lightbulb, Play, ExternalLink, Upload, X, Plus, History, Shuffle, Layers, CalendarClock } from "lucide-react";
 import { AuthButton } from "@/components/AuthButton";
 import { GenerationStatusManager } from "@/components/GenerationStatusManager";
+import { useGenerationEvents, RECONCILE_POLL_INTERVAL_MS } from "@/contexts/GenerationEvents";
 import { FloatingStatusPanel } from "@/components/FloatingStatusPanel";
+import { BrandPersonaPicker } from "@/components/BrandPersonaPicker";
+import { PromptTemplatePicker, type PromptTemplateSelection } from "@/components/PromptTemplatePicker";
+import { ScheduleGenerationDialog } from "@/components/ScheduleGenerationDialog";
 import { NotificationSettings } from "@/components/NotificationSettings";
 import { useNotificationSound } from "@/lib/notification-sound";
 import type { VideoGeneration } from "@shared/schema";
+import { AspectRatioSchema, DurationSecondsSchema, ResolutionSchema, DEFAULT_GENERATION_PARAMETERS, type GenerationCreateRequest } from "@shared/types";
 
 const formSchema = z.object({
   promptText: z.string().min(1, "Product description is required"),
-  brand_persona: z.string().optional()
-});
+  promptTemplateId: z.string().optional(),
+  promptTemplateVariables: z.record(z.string()),
+  brandPersonaId: z.string().optional(),
+  brand_persona: z.string().optional(),
+  aspectRatio: AspectRatioSchema,
+  durationSeconds: DurationSecondsSchema,
+  resolution: ResolutionSchema,
+  negativePrompt: z.string().max(1000, "Negative prompt must be less than 1000 characters").optional(),
+  // Kept as text so the field can be empty; validated as an integer on submit
+  seed: z.string().regex(/^\d*$/, "Seed must be a whole number").optional(),
+  generateAudio: z.boolean()
+}).refine(
+  (data) => data.resolution !== "1080p" || data.aspectRatio === "16:9",
+  { message: "1080p is only available for 16:9 videos", path: ["resolution"] }
+);
+
+const defaultVideoSettings = {
+  aspectRatio: DEFAULT_GENERATION_PARAMETERS.aspectRatio,
+  durationSeconds: DEFAULT_GENERATION_PARAMETERS.durationSeconds,
+  resolution: DEFAULT_GENERATION_PARAMETERS.resolution,
+  negativePrompt: "",
+  seed: "",
+  generateAudio: DEFAULT_GENERATION_PARAMETERS.generateAudio
+};
 
 type FormData = z.infer<typeof formSchema>;
 
@@ -31,10 +65,21 @@ interface UploadedImage {
   id: string; // unique identifier for each image
 }
 
+interface UploadProgress {
+  name: string;
+  bytesUploaded: number;
+  bytesTotal: number;
+}
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
 export default function Home() {
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
-  const [uploadingImages, setUploadingImages] = useState<Set<string>>(new Set());
+  // In-flight uploads by Uppy file ID
+  const [uploadingImages, setUploadingImages] = useState<Map<string, UploadProgress>>(new Map());
+  const [uppy] = useState(() => createResumableUppy({ autoProceed: true, maxFileSize: MAX_UPLOAD_BYTES }));
   const [dragActive, setDragActive] = useState(false);
+  const [scheduleRequest, setScheduleRequest] = useState<GenerationCreateRequest | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -44,15 +89,62 @@ export default function Home() {
     resolver: zodResolver(formSchema),
     defaultValues: {
       promptText: "",
-      brand_persona: "Any images that you create should make use of our brand persona named Ayesha. Ayesha is an attractive and thin 27 year old Pakistani woman wearing large designer style sunglasses that cover her eyes. She does not resemble any public figure or celebrity. The brand persona photos may be used as a guide in creating a visual representation of Ayesha that you will use for your reference image and the subsequent video"
+      promptTemplateVariables: {},
+      brand_persona: "",
+      ...defaultVideoSettings
     }
   });
 
-  // Query for completed videos with polling every 5 seconds
+  // Remixing prefills the form from an earlier generation (?remix=<id>)
+  const [, setLocation] = useLocation();
+  const remixId = new URLSearchParams(useSearch()).get("remix") || undefined;
+  const { data: remixSource } = useQuery({
+    queryKey: ['/api/generations', remixId],
+    queryFn: () => api.getGeneration(remixId!),
+    enabled: !!remixId
+  });
+  useEffect(() => {
+    if (!remixSource) return;
+    form.reset({
+      promptText: remixSource.promptText,
+      promptTemplateId: remixSource.promptTemplateId ?? undefined,
+      promptTemplateVariables: remixSource.promptTemplateVariables ?? {},
+      brandPersonaId: remixSource.brandPersonaId ?? undefined,
+      // Deleted personas survive only as the snapshot, so fall back to its text
+      brand_persona: remixSource.brandPersonaId ? "" : remixSource.brandPersona?.description ?? "",
+      aspectRatio: remixSource.aspectRatio ?? defaultVideoSettings.aspectRatio,
+      durationSeconds: (remixSource.durationSeconds ?? defaultVideoSettings.durationSeconds) as FormData["durationSeconds"],
+      resolution: remixSource.resolution ?? defaultVideoSettings.resolution,
+      negativePrompt: remixSource.negativePrompt ?? "",
+      seed: remixSource.seed != null ? String(remixSource.seed) : "",
+      generateAudio: remixSource.generateAudio ?? defaultVideoSettings.generateAudio
+    });
+    setUploadedImages((remixSource.imagesPaths ?? []).map(path => ({
+      id: Math.random().toString(36).substr(2, 9),
+      path,
+      url: getMediaUrl(path)
+    })));
+  }, [remixSource]);
+
+  const cancelRemix = () => {
+    form.reset({ promptText: "", promptTemplateVariables: {}, brand_persona: "", ...defaultVideoSettings });
+    setUploadedImages([]);
+    setLocation("/");
+  };
+
+  // Completed videos refresh on status events; poll every 5 seconds only while the stream is down
+  const { isConnected, subscribe } = useGenerationEvents();
+  useEffect(() => {
+    return subscribe((status) => {
+      if (status.status === "completed") {
+        queryClient.invalidateQueries({ queryKey: ['/api/generations'] });
+      }
+    });
+  }, [subscribe, queryClient]);
   const { data: completedVideos = [], isLoading } = useQuery({
     queryKey: ['/api/generations'],
     queryFn: () => api.getGenerations(),
-    refetchInterval: 5000,
+    refetchInterval: isConnected ? RECONCILE_POLL_INTERVAL_MS : 5000,
     refetchIntervalInBackground: true
   });
 
@@ -68,8 +160,11 @@ export default function Home() {
       // Add to status manager
       addGeneration(data.taskId);
       
-      form.reset();
+      // Keep the selected persona, template and video settings for the next generation
+      const { promptTemplateId, promptText } = form.getValues();
+      form.reset({ ...form.getValues(), promptText: promptTemplateId ? promptText : "", brand_persona: "" });
       setUploadedImages([]);
+      if (remixId) setLocation("/");
       queryClient.invalidateQueries({ queryKey: ['/api/generations'] });
     },
     onError: (error: Error) => {
@@ -81,14 +176,25 @@ export default function Home() {
     }
   });
 
-  const onSubmit = (data: FormData, mutation: ReturnType<typeof createGenerationMutation>) => {
-    // Initialize audio context on first user interaction
-    initialize();
-
+  // Shared by immediate and scheduled submissions
+  const buildGenerationRequest = (data: FormData): GenerationCreateRequest => {
     // Always use image_urls array for all cases (single or multiple images)
     const submitData: any = {
       promptText: data.promptText,
-      brand_persona: data.brand_persona
+      ...(data.promptTemplateId && {
+        promptTemplateId: data.promptTemplateId,
+        promptTemplateVariables: data.promptTemplateVariables
+      }),
+      parentGenerationId: remixSource?.id,
+      ...(data.brandPersonaId
+        ? { brandPersonaId: data.brandPersonaId }
+        : { brand_persona: data.brand_persona || undefined }),
+      aspectRatio: data.aspectRatio,
+      durationSeconds: data.durationSeconds,
+      resolution: data.resolution,
+      negativePrompt: data.negativePrompt?.trim() || undefined,
+      seed: data.seed ? parseInt(data.seed, 10) : undefined,
+      generateAudio: data.generateAudio
     };
 
     if (uploadedImages.length > 0) {
@@ -102,7 +208,13 @@ export default function Home() {
       }
     }
 
-    mutation.mutate(submitData);
+    return submitData;
+  };
+
+  const onSubmit = (data: FormData, mutation: ReturnType<typeof createGenerationMutation>) => {
+    // Initialize audio context on first user interaction
+    initialize();
+    mutation.mutate(buildGenerationRequest(data));
   };
 
   const validateFile = (file: File): string | null => {
@@ -111,30 +223,82 @@ export default function Home() {
       return "Only PNG, JPG, WEBP, and GIF files are allowed";
     }
 
-    if (file.size > 10 * 1024 * 1024) {
+    if (file.size > MAX_UPLOAD_BYTES) {
       return "File size must be under 10MB";
     }
 
     return null;
   };
 
-  const uploadSingleFile = async (file: File): Promise<UploadedImage> => {
-    const uploadResponse = await api.uploadFile(file);
-    return {
-      id: Math.random().toString(36).substr(2, 9),
-      path: uploadResponse.objectPath,
-      url: uploadResponse.mediaUrl
-    };
+  const setUploadProgress = (fileId: string, progress: UploadProgress | null) => {
+    setUploadingImages(prev => {
+      const next = new Map(prev);
+      if (progress) {
+        next.set(fileId, progress);
+      } else {
+        next.delete(fileId);
+      }
+      return next;
+    });
   };
 
-  const handleFileUpload = async (files: FileList | File[]) => {
+  // Uploads go through tus in chunks, so a dropped connection resumes instead of starting over
+  useEffect(() => {
+    const onProgress: ResumableUppyEvents["upload-progress"] = (file, progress) => {
+      if (!file) return;
+      setUploadProgress(file.id, { name: file.name ?? "image", bytesUploaded: progress.bytesUploaded, bytesTotal: progress.bytesTotal ?? file.size ?? 0 });
+    };
+    const onSuccess: ResumableUppyEvents["upload-success"] = (file, response) => {
+      if (!file) return;
+      const uploaded = getUploadedObject(response);
+      if (uploaded) {
+        setUploadedImages(prev => [...prev, { id: file.id, path: uploaded.objectPath, url: uploaded.mediaUrl }]);
+      }
+      setUploadProgress(file.id, null);
+      uppy.removeFile(file.id);
+    };
+    const onError: ResumableUppyEvents["upload-error"] = (file, error) => {
+      if (!file) return;
+      toast({
+        title: "Upload failed",
+        description: `${file.name}: ${error.message || "Unknown error occurred"}`,
+        variant: "destructive"
+      });
+      setUploadProgress(file.id, null);
+      uppy.removeFile(file.id);
+    };
+    const onComplete: ResumableUppyEvents["complete"] = (result) => {
+      const successCount = result.successful?.length ?? 0;
+      const failCount = result.failed?.length ?? 0;
+      if (successCount > 0) {
+        toast({
+          title: "Upload successful",
+          description: `${successCount} image${successCount > 1 ? 's' : ''} uploaded successfully!${failCount > 0 ? ` ${failCount} failed.` : ''}`
+        });
+      }
+    };
+
+    uppy.on("upload-progress", onProgress);
+    uppy.on("upload-success", onSuccess);
+    uppy.on("upload-error", onError);
+    uppy.on("complete", onComplete);
+    return () => {
+      uppy.off("upload-progress", onProgress);
+      uppy.off("upload-success", onSuccess);
+      uppy.off("upload-error", onError);
+      uppy.off("complete", onComplete);
+    };
+  }, [uppy]);
+
+  const handleFileUpload = (files: FileList | File[]) => {
     const fileArray = Array.from(files);
 
     // Check if adding these files would exceed the limit
-    if (uploadedImages.length + fileArray.length > 10) {
+    const remaining = 10 - uploadedImages.length - uploadingImages.size;
+    if (fileArray.length > remaining) {
       toast({
         title: "Too many files",
-        description: `Maximum 10 images allowed. You can add ${10 - uploadedImages.length} more.`,
+        description: `Maximum 10 images allowed. You can add ${Math.max(remaining, 0)} more.`,
         variant: "destructive"
       });
       return;
@@ -153,44 +317,18 @@ export default function Home() {
       }
     }
 
-    // Upload files individually
-    const uploadPromises = fileArray.map(async (file) => {
-      const uploadId = Math.random().toString(36).substr(2, 9);
-
-      setUploadingImages(prev => new Set(prev).add(uploadId));
-
+    // Uppy starts uploading as soon as files are added (autoProceed)
+    for (const file of fileArray) {
       try {
-        const uploadedImage = await uploadSingleFile(file);
-        uploadedImage.id = uploadId; // Use the same ID for tracking
-
-        setUploadedImages(prev => [...prev, uploadedImage]);
-
-        return { success: true, file: file.name };
+        const fileId = uppy.addFile({ name: file.name, type: file.type, data: file, source: "home" });
+        setUploadProgress(fileId, { name: file.name, bytesUploaded: 0, bytesTotal: file.size });
       } catch (error) {
         toast({
           title: "Upload failed",
           description: `${file.name}: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
           variant: "destructive"
         });
-        return { success: false, file: file.name };
-      } finally {
-        setUploadingImages(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(uploadId);
-          return newSet;
-        });
       }
-    });
-
-    const results = await Promise.all(uploadPromises);
-    const successCount = results.filter(r => r.success).length;
-    const failCount = results.filter(r => !r.success).length;
-
-    if (successCount > 0) {
-      toast({
-        title: "Upload successful",
-        description: `${successCount} image${successCount > 1 ? 's' : ''} uploaded successfully!${failCount > 0 ? ` ${failCount} failed.` : ''}`
-      });
     }
   };
 
@@ -242,35 +380,9 @@ export default function Home() {
     }
   }, []);
 
-  const openMedia = (url: string) => {
-    window.open(url, '_blank');
-  };
-
-
-  // Helper function to construct proper media URLs
-  const getMediaUrl = (path: string): string => {
-    // If path is already a full URL (starts with http/https), use it directly
-    if (path.startsWith('http://') || path.startsWith('https://')) {
-      return path;
-    }
-    
-    // Handle /public-objects/ paths - serve directly via public endpoint
-    if (path.startsWith('/public-objects/')) {
-      return path;
-    }
-    
-    // Handle /objects/ paths - serve via /api/media/ endpoint
-    if (path.startsWith('/objects/')) {
-      return `/api/media/${encodeURIComponent(path.replace('/objects/', ''))}`;
-    }
-    
-    // Fallback for other relative paths
-    return `/api/media/${encodeURIComponent(path)}`;
-  };
-
   return (
     <GenerationStatusManager>
-      {({ generations, addGeneration, dismissGeneration, toggleMinimize, retryGeneration }) => {
+      {({ generations, addGeneration, dismissGeneration, toggleMinimize, retryGeneration, cancelGeneration }) => {
         const mutation = createGenerationMutation(addGeneration);
         
         return (
@@ -289,6 +401,24 @@ export default function Home() {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/history">
+                  <History className="mr-2" size={16} />
+                  History
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/schedules">
+                  <CalendarClock className="mr-2" size={16} />
+                  Schedules
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/batches">
+                  <Layers className="mr-2" size={16} />
+                  Batches
+                </Link>
+              </Button>
               <NotificationSettings />
               <AuthButton />
             </div>
@@ -321,7 +451,7 @@ export default function Home() {
                         <li><strong>Product:</strong> what are you advertising? (e.g., "Celsius energy drink")</li>
                         <li><strong>Message:</strong> what should the video communicate? (e.g., "energizing fruit explosion")</li>
                         <li><strong>Style:</strong> format & tone (e.g., "Gen Z voice, high energy")</li>
-                        <li><strong>Dimensions:</strong> Vertical (9:16) for mobile or horizontal (16:9) for desktop</li>
+                        <li><strong>Video settings:</strong> pick aspect ratio, length and audio below instead of describing them</li>
                       </ol>
                     </div>
                   </AlertDescription>
@@ -330,10 +460,20 @@ export default function Home() {
                 {/* Example Card */}
                 <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
                   <p className="text-sm text-slate-600">
-                    <span className="font-medium text-slate-700">Example:</span> Create a Celsius energy drink advertisement with a fruit explosion theme, featuring a Gen Z voice with high energy saying 'Celsius - breathe energy into your life!' in vertical dimensions (9:16)
+                    <span className="font-medium text-slate-700">Example:</span> Create a Celsius energy drink advertisement with a fruit explosion theme, featuring a Gen Z voice with high energy saying 'Celsius - breathe energy into your life!'
                   </p>
                 </div>
 
+                {remixSource && (
+                  <Alert className="bg-blue-50 border-blue-200">
+                    <Shuffle className="h-4 w-4 text-blue-600" />
+                    <AlertDescription className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-blue-800 truncate">Remixing "{remixSource.promptText}"</span>
+                      <Button type="button" variant="ghost" size="sm" onClick={cancelRemix}>Cancel</Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {/* Form */}
                 <form onSubmit={form.handleSubmit((data) => onSubmit(data, mutation))} className="space-y-6">
                   {/* Product Description */}
@@ -341,11 +481,26 @@ export default function Home() {
                     <Label htmlFor="promptText" className="text-sm font-medium text-slate-700">
                       Product Description
                     </Label>
+                    <div className="mt-2">
+                      <PromptTemplatePicker
+                        templateId={form.watch("promptTemplateId")}
+                        variables={form.watch("promptTemplateVariables")}
+                        onChange={(selection: PromptTemplateSelection) => {
+                          form.setValue("promptTemplateId", selection.templateId);
+                          form.setValue("promptTemplateVariables", selection.variables);
+                          // Leaving a template keeps its expanded text as an editable starting point
+                          if (selection.promptText !== undefined) {
+                            form.setValue("promptText", selection.promptText, { shouldValidate: form.formState.isSubmitted });
+                          }
+                        }}
+                      />
+                    </div>
                     <Textarea
                       id="promptText"
                       placeholder="Describe your product and the video you want to create..."
                       className="mt-2 resize-none"
                       rows={4}
+                      readOnly={!!form.watch("promptTemplateId")}
                       {...form.register("promptText")}
                     />
                     {form.formState.errors.promptText && (
@@ -360,13 +515,22 @@ export default function Home() {
                     <Label htmlFor="brand_persona" className="text-sm font-medium text-slate-700">
                       Brand Persona
                     </Label>
-                    <Textarea
-                      id="brand_persona"
-                      placeholder="Brand persona description..."
-                      className="mt-2 resize-none"
-                      rows={3}
-                      {...form.register("brand_persona")}
-                    />
+                    <div className="mt-2">
+                      <BrandPersonaPicker
+                        value={form.watch("brandPersonaId")}
+                        onChange={(personaId) => form.setValue("brandPersonaId", personaId)}
+                      />
+                    </div>
+                    {/* Free-text persona for one-off generations */}
+                    {!form.watch("brandPersonaId") && (
+                      <Textarea
+                        id="brand_persona_text"
+                        placeholder="Or describe a one-off brand persona..."
+                        className="mt-2 resize-none"
+                        rows={3}
+                        {...form.register("brand_persona")}
+                      />
+                    )}
                     {form.formState.errors.brand_persona && (
                       <p className="text-sm text-red-600 mt-1">
                         {form.formState.errors.brand_persona.message}
@@ -374,6 +538,98 @@ export default function Home() {
                     )}
                   </div>
 
+                  {/* Video Settings */}
+                  <div className="space-y-4">
+                    <Label className="text-sm font-medium text-slate-700">Video Settings</Label>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="aspectRatio" className="text-xs text-slate-500">Aspect ratio</Label>
+                        <Select
+                          value={form.watch("aspectRatio")}
+                          onValueChange={(value) => {
+                            form.setValue("aspectRatio", value as FormData["aspectRatio"]);
+                            // 1080p is 16:9 only
+                            if (value !== "16:9") form.setValue("resolution", "720p");
+                          }}
+                        >
+                          <SelectTrigger id="aspectRatio"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="9:16">9:16 Vertical</SelectItem>
+                            <SelectItem value="16:9">16:9 Horizontal</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="durationSeconds" className="text-xs text-slate-500">Duration</Label>
+                        <Select
+                          value={String(form.watch("durationSeconds"))}
+                          onValueChange={(value) => form.setValue("durationSeconds", Number(value) as FormData["durationSeconds"])}
+                        >
+                          <SelectTrigger id="durationSeconds"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="4">4 seconds</SelectItem>
+                            <SelectItem value="6">6 seconds</SelectItem>
+                            <SelectItem value="8">8 seconds</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="resolution" className="text-xs text-slate-500">Resolution</Label>
+                        <Select
+                          value={form.watch("resolution")}
+                          onValueChange={(value) => form.setValue("resolution", value as FormData["resolution"])}
+                        >
+                          <SelectTrigger id="resolution"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="720p">720p</SelectItem>
+                            <SelectItem value="1080p" disabled={form.watch("aspectRatio") !== "16:9"}>1080p (16:9 only)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="negativePrompt" className="text-xs text-slate-500">Negative prompt (optional)</Label>
+                      <Textarea
+                        id="negativePrompt"
+                        placeholder="Things to keep out of the video, e.g. text overlays, blurry footage..."
+                        className="mt-1 resize-none"
+                        rows={2}
+                        {...form.register("negativePrompt")}
+                      />
+                      {form.formState.errors.negativePrompt && (
+                        <p className="text-sm text-red-600 mt-1">
+                          {form.formState.errors.negativePrompt.message}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3 items-end">
+                      <div className="space-y-1">
+                        <Label htmlFor="seed" className="text-xs text-slate-500">Seed (optional)</Label>
+                        <Input
+                          id="seed"
+                          inputMode="numeric"
+                          placeholder="Random"
+                          {...form.register("seed")}
+                        />
+                        {form.formState.errors.seed && (
+                          <p className="text-sm text-red-600 mt-1">
+                            {form.formState.errors.seed.message}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center justify-between rounded-md border border-slate-200 px-3 h-10">
+                        <Label htmlFor="generateAudio" className="text-sm text-slate-700">Audio</Label>
+                        <Switch
+                          id="generateAudio"
+                          checked={form.watch("generateAudio")}
+                          onCheckedChange={(checked) => form.setValue("generateAudio", checked)}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
                   {/* Upload Zone */}
                   <div>
                     <Label className="text-sm font-medium text-slate-700">
@@ -496,8 +752,19 @@ export default function Home() {
                     )}
 
                     {uploadingImages.size > 0 && (
-                      <div className="mt-2 text-sm text-blue-600">
-                        Uploading {uploadingImages.size} image{uploadingImages.size > 1 ? 's' : ''}...
+                      <div className="mt-2 space-y-2">
+                        {Array.from(uploadingImages, ([fileId, progress]) => {
+                          const percent = progress.bytesTotal > 0 ? Math.round((progress.bytesUploaded / progress.bytesTotal) * 100) : 0;
+                          return (
+                            <div key={fileId} className="text-sm text-blue-600">
+                              <div className="flex items-center justify-between gap-2">
+                                <span className="truncate">Uploading {progress.name}</span>
+                                <span className="shrink-0">{percent}%</span>
+                              </div>
+                              <Progress value={percent} className="h-1.5 mt-1" />
+                            </div>
+                          );
+                        })}
                       </div>
                     )}
                   </div>
@@ -520,8 +787,22 @@ export default function Home() {
                       </div>
                     )}
                   </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={form.handleSubmit((data) => setScheduleRequest(buildGenerationRequest(data)))}
+                  >
+                    <CalendarClock className="mr-2" size={16} />
+                    Schedule for later
+                  </Button>
                 </form>
 
+                <ScheduleGenerationDialog
+                  request={scheduleRequest}
+                  onOpenChange={(open) => !open && setScheduleRequest(null)}
+                />
+
               </CardContent>
             </Card>
           </div>
@@ -667,6 +948,13 @@ export default function Home() {
                               <div className="w-1.5 h-1.5 bg-emerald-500 rounded-full mr-1"></div>
                               Completed
                             </span>
+                            <button
+                              className="inline-flex items-center space-x-1 text-slate-500 hover:text-slate-700"
+                              onClick={() => setLocation(`/?remix=${video.id}`)}
+                            >
+                              <Shuffle size={12} />
+                              <span>Remix</span>
+                            </button>
                           </div>
                           
                           {/* Original Images Reference (if exists) */}
@@ -735,6 +1023,7 @@ export default function Home() {
         onDismiss={dismissGeneration}
         onToggleMinimize={toggleMinimize}
         onRetry={retryGeneration}
+        onCancel={cancelGeneration}
       />
     </div>
         );
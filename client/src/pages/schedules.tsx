@@ -0,0 +1,155 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, CalendarClock, Loader2, Pause, Play, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { AuthButton } from "@/components/AuthButton";
+import type { ScheduledGeneration } from "@shared/schema";
+
+const formatTimestamp = (value: string | Date | null | undefined): string =>
+  value ? new Date(value).toLocaleString() : "—";
+
+const statusVariants: Record<ScheduledGeneration["status"], "default" | "secondary" | "outline"> = {
+  active: "default",
+  paused: "secondary",
+  completed: "outline"
+};
+
+export default function SchedulesPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Runs fire server-side, so refresh periodically to pick up next/last run times
+  const { data: schedules = [], isLoading } = useQuery({
+    queryKey: ['/api/scheduled-generations'],
+    queryFn: () => api.getScheduledGenerations(),
+    refetchInterval: 30000
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: "active" | "paused" }) => api.updateScheduledGeneration(id, { status }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-generations'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update schedule", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteScheduledGeneration(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-generations'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete schedule", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-primary to-primary/80 rounded-lg flex items-center justify-center">
+                <CalendarClock className="text-white" size={20} />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-slate-900">Scheduled Generations</h1>
+                <p className="text-slate-600 mt-1">One-off and recurring generations that run automatically</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/">
+                  <ArrowLeft className="mr-2" size={16} />
+                  Create
+                </Link>
+              </Button>
+              <AuthButton />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card className="shadow-sm">
+          <CardHeader>
+            <CardTitle>Schedules</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16 text-slate-500">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                Loading schedules...
+              </div>
+            ) : schedules.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-center">
+                <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mb-4">
+                  <CalendarClock className="text-slate-400" size={32} />
+                </div>
+                <h3 className="text-lg font-medium text-slate-900 mb-2">No schedules yet</h3>
+                <p className="text-slate-600">Use "Schedule for later" on the create form to add one</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg bg-white">
+                {schedules.map((schedule) => (
+                  <div key={schedule.id} className="flex items-start gap-4 p-4">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-slate-900">{schedule.name}</span>
+                        <Badge variant={statusVariants[schedule.status]} className="capitalize">{schedule.status}</Badge>
+                      </div>
+                      <p className="text-sm text-slate-600 truncate">{schedule.request.promptText}</p>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+                        <span>
+                          {schedule.cron
+                            ? <>Cron <code className="font-mono">{schedule.cron}</code> (UTC)</>
+                            : <>Once at {formatTimestamp(schedule.runAt)}</>}
+                        </span>
+                        {schedule.status === "active" && <span>Next run {formatTimestamp(schedule.nextRunAt)}</span>}
+                        <span>Last run {formatTimestamp(schedule.lastRunAt)}</span>
+                        <span>{schedule.runCount} {schedule.runCount === 1 ? "run" : "runs"}</span>
+                      </div>
+                      {schedule.lastError && (
+                        <p className="text-xs text-red-600">Last run failed: {schedule.lastError}</p>
+                      )}
+                    </div>
+                    {schedule.status !== "completed" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={schedule.status === "active" ? "Pause" : "Resume"}
+                        disabled={statusMutation.isPending}
+                        onClick={() => statusMutation.mutate({
+                          id: schedule.id,
+                          status: schedule.status === "active" ? "paused" : "active"
+                        })}
+                      >
+                        {schedule.status === "active" ? <Pause size={16} /> : <Play size={16} />}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(schedule.id)}
+                    >
+                      <Trash2 size={16} className="text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+-- Legacy rows are assigned to the user named by the `app.legacy_owner_id` setting, e.g.
+--   PGOPTIONS="-c app.legacy_owner_id=<replit user id>" npx drizzle-kit migrate
+-- When the setting is absent they are parked on a placeholder "legacy-owner" user.
+ALTER TABLE "video_generations" ADD COLUMN "user_id" text;--> statement-breakpoint
+INSERT INTO "users" ("id", "name") VALUES (COALESCE(NULLIF(current_setting('app.legacy_owner_id', true), ''), 'legacy-owner'), 'Legacy owner') ON CONFLICT ("id") DO NOTHING;--> statement-breakpoint
+UPDATE "video_generations" SET "user_id" = COALESCE(NULLIF(current_setting('app.legacy_owner_id', true), ''), 'legacy-owner') WHERE "user_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "video_generations" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "video_generations" ADD CONSTRAINT "video_generations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_video_generations_user_created" ON "video_generations" USING btree ("user_id","created_at");
@@ -0,0 +1,21 @@
+CREATE TABLE "generation_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"task_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"correlation_id" text,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"locked_by" text,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_task_id_video_generations_task_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."video_generations"("task_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_generation_jobs_claim" ON "generation_jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "IDX_generation_jobs_task" ON "generation_jobs" USING btree ("task_id");
\ No newline at end of file
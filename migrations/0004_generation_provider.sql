@@ -0,0 +1 @@
+ALTER TABLE "video_generations" ADD COLUMN "provider" text DEFAULT 'n8n' NOT NULL;
\ No newline at end of file
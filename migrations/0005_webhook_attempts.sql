@@ -0,0 +1,22 @@
+CREATE TABLE "webhook_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"task_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"correlation_id" text,
+	"kind" text DEFAULT 'submit' NOT NULL,
+	"attempt" integer NOT NULL,
+	"url" text NOT NULL,
+	"request_hash" text NOT NULL,
+	"response_status" integer,
+	"response_body" text,
+	"latency_ms" integer NOT NULL,
+	"error_type" text,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_attempts" ADD CONSTRAINT "webhook_attempts_task_id_video_generations_task_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."video_generations"("task_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_attempts" ADD CONSTRAINT "webhook_attempts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_webhook_attempts_correlation" ON "webhook_attempts" USING btree ("correlation_id");--> statement-breakpoint
+CREATE INDEX "IDX_webhook_attempts_task_created" ON "webhook_attempts" USING btree ("task_id","created_at");--> statement-breakpoint
+CREATE INDEX "IDX_webhook_attempts_user_created" ON "webhook_attempts" USING btree ("user_id","created_at");
\ No newline at end of file
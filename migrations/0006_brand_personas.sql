@@ -0,0 +1,15 @@
+CREATE TABLE "brand_personas" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"image_paths" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "brand_persona_id" uuid;--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "brand_persona" jsonb;--> statement-breakpoint
+ALTER TABLE "brand_personas" ADD CONSTRAINT "brand_personas_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_brand_personas_user_name" ON "brand_personas" USING btree ("user_id","name");--> statement-breakpoint
+ALTER TABLE "video_generations" ADD CONSTRAINT "video_generations_brand_persona_id_brand_personas_id_fk" FOREIGN KEY ("brand_persona_id") REFERENCES "public"."brand_personas"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "video_generations" ADD COLUMN "submission" jsonb;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "video_generations" ADD COLUMN "aspect_ratio" text;--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "duration_seconds" integer;--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "resolution" text;--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "negative_prompt" text;--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "seed" integer;--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "generate_audio" boolean;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "video_generations" ADD COLUMN "parent_generation_id" uuid;--> statement-breakpoint
+ALTER TABLE "video_generations" ADD CONSTRAINT "video_generations_parent_generation_id_video_generations_id_fk" FOREIGN KEY ("parent_generation_id") REFERENCES "public"."video_generations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_video_generations_parent" ON "video_generations" USING btree ("parent_generation_id");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "generation_batch_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"batch_id" uuid NOT NULL,
+	"row_index" integer NOT NULL,
+	"task_id" text,
+	"input" jsonb NOT NULL,
+	"scheduled_for" timestamp,
+	"error" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "generation_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text,
+	"source" text NOT NULL,
+	"total_items" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "generation_batch_items" ADD CONSTRAINT "generation_batch_items_batch_id_generation_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."generation_batches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_batch_items" ADD CONSTRAINT "generation_batch_items_task_id_video_generations_task_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."video_generations"("task_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_batches" ADD CONSTRAINT "generation_batches_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_generation_batch_items_batch_row" ON "generation_batch_items" USING btree ("batch_id","row_index");--> statement-breakpoint
+CREATE INDEX "IDX_generation_batches_user_created" ON "generation_batches" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "prompt_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"body" text NOT NULL,
+	"shared" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "prompt_template_id" uuid;--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "prompt_template_variables" jsonb;--> statement-breakpoint
+ALTER TABLE "prompt_templates" ADD CONSTRAINT "prompt_templates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_prompt_templates_user_name" ON "prompt_templates" USING btree ("user_id","name");--> statement-breakpoint
+CREATE INDEX "IDX_prompt_templates_shared" ON "prompt_templates" USING btree ("shared");--> statement-breakpoint
+ALTER TABLE "video_generations" ADD CONSTRAINT "video_generations_prompt_template_id_prompt_templates_id_fk" FOREIGN KEY ("prompt_template_id") REFERENCES "public"."prompt_templates"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "scheduled_generations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"request" jsonb NOT NULL,
+	"run_at" timestamp,
+	"cron" text,
+	"status" text DEFAULT 'active' NOT NULL,
+	"next_run_at" timestamp,
+	"last_run_at" timestamp,
+	"last_task_id" text,
+	"last_error" text,
+	"run_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "video_generations" ADD COLUMN "scheduled_generation_id" uuid;--> statement-breakpoint
+ALTER TABLE "scheduled_generations" ADD CONSTRAINT "scheduled_generations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_scheduled_generations_due" ON "scheduled_generations" USING btree ("status","next_run_at");--> statement-breakpoint
+CREATE INDEX "IDX_scheduled_generations_user" ON "scheduled_generations" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "video_generations" ADD CONSTRAINT "video_generations_scheduled_generation_id_scheduled_generations_id_fk" FOREIGN KEY ("scheduled_generation_id") REFERENCES "public"."scheduled_generations"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "generation_assets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"generation_id" uuid NOT NULL,
+	"kind" text NOT NULL,
+	"path" text NOT NULL,
+	"mime" text,
+	"size_bytes" bigint,
+	"duration_seconds" double precision,
+	"width" integer,
+	"height" integer,
+	"variant_index" integer DEFAULT 0 NOT NULL,
+	"is_pick" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "generation_assets" ADD CONSTRAINT "generation_assets_generation_id_video_generations_id_fk" FOREIGN KEY ("generation_id") REFERENCES "public"."video_generations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_generation_assets_variant" ON "generation_assets" USING btree ("generation_id","kind","variant_index");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "video_generations" ADD COLUMN "stage_history" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- Older n8n flows stored success as "200"; the state machine only knows "completed"
+UPDATE "video_generations" SET "status" = 'completed' WHERE "status" = '200';
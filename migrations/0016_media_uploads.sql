@@ -0,0 +1,18 @@
+CREATE TABLE "media_uploads" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"filename" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size_bytes" bigint NOT NULL,
+	"sha256" text NOT NULL,
+	"staging_path" text NOT NULL,
+	"object_path" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "media_uploads" ADD CONSTRAINT "media_uploads_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_media_uploads_user_created" ON "media_uploads" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "resumable_uploads" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"filename" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size_bytes" bigint NOT NULL,
+	"offset_bytes" bigint DEFAULT 0 NOT NULL,
+	"chunk_paths" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"object_path" text,
+	"status" text DEFAULT 'uploading' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "resumable_uploads" ADD CONSTRAINT "resumable_uploads_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_resumable_uploads_user" ON "resumable_uploads" USING btree ("user_id");
\ No newline at end of file
@@ -10,6 +10,8 @@ import { rateLimitMiddleware } from "./lib/rateLimiting";
 import { validationMiddleware } from "./lib/validation";
 import { idempotencyMiddleware } from "./lib/idempotency";
 import { rawBodyMiddleware, webhookSecurityMiddleware } from "./lib/webhookSecurity";
+import { generationQueue } from "./lib/generationQueue";
+import { getStorageDriverName } from "./storageDrivers";
 
 // Environment configuration validation function
 async function validateEnvironmentConfiguration(): Promise<void> {
@@ -22,10 +24,14 @@ async function validateEnvironmentConfiguration(): Promise<void> {
   });
 
   const requiredEnvVars = [
-    'DATABASE_URL',
-    'N8N_WEBHOOK_URL'
+    'DATABASE_URL'
   ];
 
+  // The n8n webhook is only needed when n8n is the default generation provider
+  if ((process.env.GENERATION_PROVIDER || 'n8n') === 'n8n') {
+    requiredEnvVars.push('N8N_WEBHOOK_URL');
+  }
+
   const warnings = [];
   const errors = [];
 
@@ -95,6 +101,18 @@ async function validateEnvironmentConfiguration(): Promise<void> {
     }
   }
 
+  // The object storage backend must be one the server knows how to build
+  try {
+    const storageDriver = getStorageDriverName();
+    logger.info('Object storage driver selected', {
+      correlationId: startupId,
+      storageDriver,
+      type: 'storage_driver_validation'
+    });
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+
   // Check optional but recommended environment variables
   const optionalEnvVars = [
     'PORT',
@@ -189,4 +207,11 @@ app.use(idempotencyMiddleware);          // Idempotency protection
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Let in-flight generation jobs finish instead of leaving them to the visibility timeout
+  process.once('SIGTERM', async () => {
+    server.close();
+    await generationQueue.stop();
+    process.exit(0);
+  });
 })();
@@ -4,7 +4,7 @@ import { metricsCollector } from './metrics';
 export interface AlertRule {
   id: string;
   name: string;
-  condition: 'error_rate' | 'response_time' | 'webhook_failures' | 'system_health';
+  condition: 'error_rate' | 'response_time' | 'webhook_failures' | 'system_health' | 'stuck_generations';
   threshold: number;
   timeWindow: number; // in minutes
   enabled: boolean;
@@ -34,6 +34,7 @@ export interface AlertingConfig {
   responseTimeThreshold: number;
   webhookFailureThreshold: number;
   memoryUsageThreshold: number;
+  stuckGenerationThreshold: number;
 }
 
 class AlertingSystem {
@@ -44,6 +45,7 @@ class AlertingSystem {
   private errorCounts: Map<string, number[]>; // endpoint -> timestamps
   private responseTimes: Map<string, number[]>; // endpoint -> response times
   private webhookFailures: number[];
+  private stuckGenerations: number[];
   private lastSystemCheck: number;
 
   constructor() {
@@ -53,6 +55,7 @@ class AlertingSystem {
     this.errorCounts = new Map();
     this.responseTimes = new Map();
     this.webhookFailures = [];
+    this.stuckGenerations = [];
     this.lastSystemCheck = Date.now();
 
     this.config = {
@@ -61,7 +64,8 @@ class AlertingSystem {
       errorRateThreshold: 10, // 10% error rate
       responseTimeThreshold: 5000, // 5 seconds
       webhookFailureThreshold: 3, // 3 consecutive failures
-      memoryUsageThreshold: 85 // 85% memory usage
+      memoryUsageThreshold: 85, // 85% memory usage
+      stuckGenerationThreshold: 3 // 3 generations timed out waiting for callbacks
     };
 
     this.initializeDefaultRules();
@@ -109,6 +113,16 @@ class AlertingSystem {
         enabled: true,
         severity: 'high',
         description: 'System resource usage is high'
+      },
+      {
+        id: 'stuck_generations',
+        name: 'Stuck Generations',
+        condition: 'stuck_generations',
+        threshold: this.config.stuckGenerationThreshold,
+        timeWindow: 30,
+        enabled: true,
+        severity: 'high',
+        description: 'Generations timed out waiting for n8n callbacks'
       }
     ];
 
@@ -161,6 +175,13 @@ class AlertingSystem {
     }
   }
 
+  // Record generations reaped after exceeding their status deadline
+  recordStuckGenerations(count: number, timestamp: number = Date.now()): void {
+    for (let i = 0; i < count; i++) {
+      this.stuckGenerations.push(timestamp);
+    }
+  }
+
   private evaluateAlerts(): void {
     for (const [ruleId, rule] of Array.from(this.rules.entries())) {
       if (!rule.enabled) continue;
@@ -198,6 +219,9 @@ class AlertingSystem {
       
       case 'system_health':
         return this.calculateMemoryUsagePercent();
+
+      case 'stuck_generations':
+        return this.stuckGenerations.filter(timestamp => timestamp > cutoffTime).length;
       
       default:
         return null;
@@ -352,6 +376,9 @@ class AlertingSystem {
     // Clean up webhook failures
     this.webhookFailures = this.webhookFailures.filter(timestamp => timestamp > cutoffTime);
 
+    // Clean up stuck generation records
+    this.stuckGenerations = this.stuckGenerations.filter(timestamp => timestamp > cutoffTime);
+
     logger.debug('Cleaned up old alerting data', {
       cutoffTime: new Date(cutoffTime).toISOString(),
       type: 'alerting_cleanup'
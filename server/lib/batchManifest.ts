@@ -0,0 +1,139 @@
+import { AppError } from './errorHandler';
+import type { BrandPersona } from '@shared/schema';
+
+export const MAX_BATCH_ROWS = parseInt(process.env.GENERATION_BATCH_MAX_ROWS || '100', 10);
+
+export type ManifestRow = Record<string, unknown>;
+
+// CSV cells are strings; these columns are coerced to the types GenerationCreateRequestSchema expects
+const NUMBER_COLUMNS = ['durationSeconds', 'seed'];
+const BOOLEAN_COLUMNS = ['generateAudio'];
+// Multiple image paths share one CSV cell, separated by "|"
+const IMAGE_SEPARATOR = '|';
+
+// RFC 4180 parsing: quoted fields may contain commas, newlines and doubled quotes
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new AppError('CSV manifest has an unterminated quoted field', 400, 'VALIDATION_ERROR');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no row
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function csvToRows(content: string): ManifestRow[] {
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    throw new AppError('CSV manifest has no header row', 400, 'VALIDATION_ERROR');
+  }
+
+  const columns = header.map(column => column.trim());
+  return records.map(cells => {
+    const row: ManifestRow = {};
+    columns.forEach((column, index) => {
+      const value = cells[index]?.trim() ?? '';
+      // Empty cells mean "use the default", the same as an omitted JSON field
+      if (!column || value === '') return;
+
+      if (column === 'image_urls') {
+        row[column] = value.split(IMAGE_SEPARATOR).map(path => path.trim()).filter(Boolean);
+      } else if (NUMBER_COLUMNS.includes(column)) {
+        row[column] = Number(value);
+      } else if (BOOLEAN_COLUMNS.includes(column)) {
+        const normalized = value.toLowerCase();
+        row[column] = ['true', '1', 'yes'].includes(normalized) ? true
+          : ['false', '0', 'no'].includes(normalized) ? false
+          : value;
+      } else {
+        row[column] = value;
+      }
+    });
+    return row;
+  });
+}
+
+function jsonToRows(content: string): ManifestRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new AppError(`JSON manifest is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`, 400, 'VALIDATION_ERROR');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new AppError('JSON manifest must be an array of rows', 400, 'VALIDATION_ERROR');
+  }
+  // Non-object rows are kept so they are reported against their row number
+  return parsed.map(row => (row && typeof row === 'object' && !Array.isArray(row) ? row as ManifestRow : { value: row }));
+}
+
+// Splits a manifest into raw rows. Structural problems fail the whole batch; row problems are reported per row.
+export function parseBatchManifest(format: 'csv' | 'json', content: string): ManifestRow[] {
+  const rows = format === 'csv' ? csvToRows(content) : jsonToRows(content);
+
+  if (rows.length === 0) {
+    throw new AppError('Manifest contains no rows', 400, 'VALIDATION_ERROR');
+  }
+  if (rows.length > MAX_BATCH_ROWS) {
+    throw new AppError(`Manifest has ${rows.length} rows; the maximum is ${MAX_BATCH_ROWS}`, 400, 'VALIDATION_ERROR');
+  }
+  return rows;
+}
+
+// Maps a row's optional `persona` name onto brandPersonaId; throws for names the user has not saved
+export function resolveManifestPersona(row: ManifestRow, personas: BrandPersona[]): ManifestRow {
+  const { persona, ...request } = row;
+  if (persona === undefined || persona === null || persona === '') {
+    return request;
+  }
+  if (typeof persona !== 'string') {
+    throw new Error('persona must be the name of a saved brand persona');
+  }
+
+  const match = personas.find(candidate => candidate.name.toLowerCase() === persona.trim().toLowerCase());
+  if (!match) {
+    throw new Error(`Brand persona not found: ${persona}`);
+  }
+  return { ...request, brandPersonaId: match.id };
+}
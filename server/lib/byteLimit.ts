@@ -0,0 +1,26 @@
+import { Transform, type TransformCallback } from "stream";
+
+export class ByteLimitError extends Error {
+  constructor(public limit: number) {
+    super(`Body exceeds the ${limit} byte limit`);
+    this.name = 'ByteLimitError';
+  }
+}
+
+// Passes a streamed request body through unchanged while counting it, failing once it outgrows the limit
+export class ByteLimitStream extends Transform {
+  bytes = 0;
+
+  constructor(private limit: number) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    if (this.bytes > this.limit) {
+      callback(new ByteLimitError(this.limit));
+      return;
+    }
+    callback(null, chunk);
+  }
+}
@@ -0,0 +1,164 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC.
+// Supports *, lists, ranges and steps, plus the @hourly/@daily/@weekly/@monthly shorthands.
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+interface CronField {
+  values: Set<number>;
+  // False for "*", which matters for the day-of-month/day-of-week OR rule
+  restricted: boolean;
+}
+
+export interface CronSchedule {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// Bounds the search; any satisfiable expression matches well within five years
+const MAX_SEARCH_STEPS = 100000;
+
+function parseNumber(value: string, name: string, min: number, max: number): number {
+  if (!/^\d+$/.test(value)) {
+    throw new CronParseError(`Invalid ${name} value "${value}"`);
+  }
+  const parsed = parseInt(value, 10);
+  if (parsed < min || parsed > max) {
+    throw new CronParseError(`${name} must be between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+function parseField(field: string, name: string, min: number, max: number): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseNumber(stepPart, `${name} step`, 1, max);
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseNumber(from, name, min, max);
+      end = parseNumber(to, name, min, max);
+      if (start > end) {
+        throw new CronParseError(`Invalid ${name} range "${rangePart}"`);
+      }
+    } else {
+      start = parseNumber(rangePart, name, min, max);
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, restricted: field !== '*' };
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTHANDS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronParseError('Cron expressions need five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index].name, FIELD_RANGES[index].min, FIELD_RANGES[index].max)
+  );
+
+  // Sunday may be written as 0 or 7
+  if (daysOfWeek.values.has(7)) {
+    daysOfWeek.values.delete(7);
+    daysOfWeek.values.add(0);
+  }
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+// As in standard cron, a day matches either restricted day field when both are restricted
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.values.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.values.has(date.getUTCDay());
+  if (schedule.daysOfMonth.restricted && schedule.daysOfWeek.restricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+// Shortest gap between two runs, in minutes. Assumes any matching day may be followed by another,
+// so it can understate the gap for sparse day patterns but never overstates it.
+export function minCronIntervalMinutes(schedule: CronSchedule): number {
+  const times: number[] = [];
+  for (const hour of Array.from(schedule.hours.values).sort((a, b) => a - b)) {
+    for (const minute of Array.from(schedule.minutes.values).sort((a, b) => a - b)) {
+      times.push(hour * 60 + minute);
+    }
+  }
+
+  let shortest = times[0] + 24 * 60 - times[times.length - 1];
+  for (let i = 1; i < times.length; i++) {
+    shortest = Math.min(shortest, times[i] - times[i - 1]);
+  }
+  return shortest;
+}
+
+// First matching minute strictly after `after`
+export function nextCronRun(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.values.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.values.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.values.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new CronParseError('Cron expression never matches a date');
+}
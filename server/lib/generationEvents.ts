@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events';
+import type { VideoGeneration } from '@shared/schema';
+import type { GenerationStatusResponse } from '@shared/types';
+
+export type GenerationEventListener = (status: GenerationStatusResponse) => void;
+
+// Maps a generation row to the payload shared by the status endpoint and the event stream
+export function toGenerationStatusResponse(generation: VideoGeneration): GenerationStatusResponse {
+  return {
+    id: generation.id,
+    taskId: generation.taskId,
+    status: generation.status,
+    errorMessage: generation.errorMessage,
+    errorDetails: generation.errorDetails,
+    errorType: generation.errorType,
+    retryCount: generation.retryCount,
+    maxRetries: generation.maxRetries,
+    nextRetryAt: generation.nextRetryAt?.toISOString() || null,
+    webhookResponseStatus: generation.webhookResponseStatus,
+    webhookResponseBody: generation.webhookResponseBody,
+    lastAttemptAt: generation.lastAttemptAt?.toISOString() || null,
+    stages: generation.stageHistory ?? [],
+    createdAt: generation.createdAt?.toISOString() || new Date().toISOString()
+  };
+}
+
+// In-process fan-out of generation status changes to per-user subscribers.
+// Each server instance only sees changes it wrote; clients reconcile with a slow poll while connected
+// and a fast one when the stream drops.
+class GenerationEvents {
+  private emitter: EventEmitter;
+  private published: number;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+    // One listener per open browser tab
+    this.emitter.setMaxListeners(0);
+    this.published = 0;
+  }
+
+  publish(generation: VideoGeneration): void {
+    this.published++;
+    this.emitter.emit(`user:${generation.userId}`, toGenerationStatusResponse(generation));
+  }
+
+  // Returns an unsubscribe function
+  subscribe(userId: string, listener: GenerationEventListener): () => void {
+    const channel = `user:${userId}`;
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  getStats(): { subscribers: number; published: number } {
+    const subscribers = this.emitter
+      .eventNames()
+      .reduce((total, name) => total + this.emitter.listenerCount(name), 0);
+    return { subscribers, published: this.published };
+  }
+}
+
+// Create singleton instance
+export const generationEvents = new GenerationEvents();
@@ -0,0 +1,287 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { logger } from './logger';
+import { metricsCollector } from './metrics';
+import { alertingSystem } from './alerting';
+import { storage } from '../storage';
+import type { GenerationJob } from '@shared/schema';
+
+export interface GenerationQueueConfig {
+  pollIntervalMs: number;
+  concurrency: number;
+  visibilityTimeoutMs: number;
+  heartbeatIntervalMs: number;
+  retryBaseDelayMs: number;
+}
+
+export interface GenerationJobHandlers {
+  // Dispatches the job. Throwing schedules another attempt until maxAttempts is reached.
+  process: (job: GenerationJob) => Promise<void>;
+  // Called once a job has used up its attempts, including attempts lost to crashed workers
+  onExhausted: (job: GenerationJob, error: string) => Promise<void>;
+}
+
+export interface GenerationQueueStats {
+  workerId: string;
+  running: boolean;
+  inFlight: number;
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  failed: number;
+  lastPollAt: Date | null;
+  config: GenerationQueueConfig;
+}
+
+class GenerationQueue {
+  private config: GenerationQueueConfig;
+  private workerId: string;
+  private handlers?: GenerationJobHandlers;
+  private pollTimer?: NodeJS.Timeout;
+  private polling: boolean;
+  private inFlight: Map<string, Promise<void>>;
+  private stats: {
+    claimed: number;
+    succeeded: number;
+    retried: number;
+    failed: number;
+    lastPollAt: Date | null;
+  };
+
+  constructor() {
+    this.config = {
+      pollIntervalMs: parseInt(process.env.GENERATION_QUEUE_POLL_INTERVAL_MS || '2000', 10),
+      concurrency: parseInt(process.env.GENERATION_QUEUE_CONCURRENCY || '4', 10),
+      visibilityTimeoutMs: parseInt(process.env.GENERATION_QUEUE_VISIBILITY_TIMEOUT_MS || '600000', 10), // 10 minutes
+      heartbeatIntervalMs: 60000, // 1 minute
+      retryBaseDelayMs: 5000
+    };
+
+    this.workerId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+    this.polling = false;
+    this.inFlight = new Map();
+    this.stats = {
+      claimed: 0,
+      succeeded: 0,
+      retried: 0,
+      failed: 0,
+      lastPollAt: null
+    };
+  }
+
+  start(handlers: GenerationJobHandlers): void {
+    if (this.pollTimer) return;
+
+    this.handlers = handlers;
+    this.pollTimer = setInterval(() => {
+      this.poll();
+    }, this.config.pollIntervalMs);
+
+    logger.info('Generation queue worker started', {
+      workerId: this.workerId,
+      config: this.config,
+      type: 'generation_queue_started'
+    });
+  }
+
+  // Stops claiming new jobs and waits for in-flight jobs to settle
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+
+    await Promise.allSettled(Array.from(this.inFlight.values()));
+
+    logger.info('Generation queue worker stopped', {
+      workerId: this.workerId,
+      type: 'generation_queue_stopped'
+    });
+  }
+
+  // Wakes the worker immediately instead of waiting for the next poll tick
+  notify(): void {
+    if (this.pollTimer) {
+      setImmediate(() => this.poll());
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || !this.handlers) return;
+
+    const capacity = this.config.concurrency - this.inFlight.size;
+    if (capacity <= 0) return;
+
+    this.polling = true;
+    this.stats.lastPollAt = new Date();
+
+    try {
+      const jobs = await storage.claimGenerationJobs(this.workerId, capacity, this.config.visibilityTimeoutMs);
+      this.stats.claimed += jobs.length;
+
+      for (const job of jobs) {
+        // Lease bookkeeping failures leave the job to be reclaimed after the visibility timeout
+        const run = this.runJob(job)
+          .catch((error) => {
+            logger.error('Generation job bookkeeping failed', {
+              correlationId: job.correlationId || job.taskId,
+              jobId: job.id,
+              workerId: this.workerId,
+              error: error instanceof Error ? error.message : String(error),
+              type: 'generation_job_bookkeeping_error'
+            });
+          })
+          .finally(() => {
+            this.inFlight.delete(job.id);
+          });
+        this.inFlight.set(job.id, run);
+      }
+    } catch (error) {
+      logger.error('Failed to claim generation jobs', {
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : String(error),
+        type: 'generation_queue_claim_error'
+      });
+      alertingSystem.recordError('generation_queue');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async runJob(job: GenerationJob): Promise<void> {
+    const handlers = this.handlers!;
+    const correlationId = job.correlationId || job.taskId;
+    const startTime = Date.now();
+
+    // A job claimed past its budget was reclaimed from a worker that crashed mid-run
+    if (job.attempts > job.maxAttempts) {
+      await this.exhaust(job, `Job abandoned after ${job.maxAttempts} attempts`);
+      return;
+    }
+
+    logger.info('Generation job started', {
+      correlationId,
+      taskId: job.taskId,
+      jobId: job.id,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      workerId: this.workerId,
+      type: 'generation_job_start'
+    });
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const held = await storage.heartbeatGenerationJob(job.id, this.workerId);
+        if (!held) {
+          logger.warn('Generation job lease lost', {
+            correlationId,
+            jobId: job.id,
+            workerId: this.workerId,
+            type: 'generation_job_lease_lost'
+          });
+        }
+      } catch (error) {
+        logger.warn('Generation job heartbeat failed', {
+          correlationId,
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error),
+          type: 'generation_job_heartbeat_error'
+        });
+      }
+    }, this.config.heartbeatIntervalMs);
+
+    try {
+      await handlers.process(job);
+      await storage.completeGenerationJob(job.id, this.workerId);
+      this.stats.succeeded++;
+
+      const duration = Date.now() - startTime;
+      metricsCollector.recordMetric('generation_job_duration', duration, 'ms', {
+        outcome: 'succeeded',
+        attempt: job.attempts.toString()
+      }, correlationId);
+
+      logger.info('Generation job succeeded', {
+        correlationId,
+        taskId: job.taskId,
+        jobId: job.id,
+        attempt: job.attempts,
+        duration,
+        type: 'generation_job_success'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts >= job.maxAttempts) {
+        await this.exhaust(job, errorMessage);
+        return;
+      }
+
+      const delay = this.config.retryBaseDelayMs * Math.pow(2, job.attempts - 1);
+      const runAt = new Date(Date.now() + delay);
+      await storage.rescheduleGenerationJob(job.id, this.workerId, runAt, errorMessage);
+      this.stats.retried++;
+
+      logger.warn('Generation job failed, rescheduled', {
+        correlationId,
+        taskId: job.taskId,
+        jobId: job.id,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        error: errorMessage,
+        runAt: runAt.toISOString(),
+        type: 'generation_job_rescheduled'
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async exhaust(job: GenerationJob, errorMessage: string): Promise<void> {
+    const correlationId = job.correlationId || job.taskId;
+    this.stats.failed++;
+
+    logger.error('Generation job failed permanently', {
+      correlationId,
+      taskId: job.taskId,
+      jobId: job.id,
+      attempts: job.attempts,
+      error: errorMessage,
+      type: 'generation_job_failed'
+    });
+
+    metricsCollector.recordMetric('generation_job_failed', 1, 'count', {
+      attempts: job.attempts.toString()
+    }, correlationId);
+    alertingSystem.recordError('generation_queue');
+
+    try {
+      await storage.failGenerationJob(job.id, this.workerId, errorMessage);
+      await this.handlers!.onExhausted(job, errorMessage);
+    } catch (error) {
+      logger.error('Failed to record exhausted generation job', {
+        correlationId,
+        jobId: job.id,
+        error: error instanceof Error ? error.message : String(error),
+        type: 'generation_job_exhaust_error'
+      });
+    }
+  }
+
+  getStats(): GenerationQueueStats {
+    return {
+      workerId: this.workerId,
+      running: !!this.pollTimer,
+      inFlight: this.inFlight.size,
+      claimed: this.stats.claimed,
+      succeeded: this.stats.succeeded,
+      retried: this.stats.retried,
+      failed: this.stats.failed,
+      lastPollAt: this.stats.lastPollAt,
+      config: { ...this.config }
+    };
+  }
+}
+
+// Create singleton instance
+export const generationQueue = new GenerationQueue();
@@ -0,0 +1,163 @@
+import { logger } from './logger';
+import { metricsCollector } from './metrics';
+import { alertingSystem } from './alerting';
+import { nextCronRun } from './cron';
+import { storage } from '../storage';
+import type { ScheduledGeneration } from '@shared/schema';
+
+export interface GenerationSchedulerConfig {
+  intervalMs: number;
+  batchSize: number;
+  // Recurring schedules may not fire more often than this
+  minIntervalMinutes: number;
+}
+
+export interface GenerationSchedulerStats {
+  running: boolean;
+  sweeps: number;
+  fired: number;
+  failed: number;
+  errors: number;
+  lastSweepAt: Date | null;
+  config: GenerationSchedulerConfig;
+}
+
+// Next time a schedule should fire after `from`; null once it has nothing left to run
+export function getNextScheduledRun(schedule: Pick<ScheduledGeneration, 'cron'>, from: Date): Date | null {
+  if (!schedule.cron) return null;
+  try {
+    return nextCronRun(schedule.cron, from);
+  } catch {
+    return null;
+  }
+}
+
+class GenerationScheduler {
+  private config: GenerationSchedulerConfig;
+  private timer?: NodeJS.Timeout;
+  private sweeping: boolean;
+  private runSchedule?: (schedule: ScheduledGeneration) => Promise<{ taskId: string }>;
+  private stats: {
+    sweeps: number;
+    fired: number;
+    failed: number;
+    errors: number;
+    lastSweepAt: Date | null;
+  };
+
+  constructor() {
+    this.config = {
+      intervalMs: parseInt(process.env.GENERATION_SCHEDULER_INTERVAL_MS || '30000', 10),
+      batchSize: parseInt(process.env.GENERATION_SCHEDULER_BATCH_SIZE || '25', 10),
+      minIntervalMinutes: parseInt(process.env.GENERATION_SCHEDULER_MIN_INTERVAL_MINUTES || '60', 10)
+    };
+
+    this.sweeping = false;
+    this.stats = {
+      sweeps: 0,
+      fired: 0,
+      failed: 0,
+      errors: 0,
+      lastSweepAt: null
+    };
+  }
+
+  // runSchedule creates the generation through the same path as POST /api/generations,
+  // charged to the owner's generation quota
+  start(runSchedule: (schedule: ScheduledGeneration) => Promise<{ taskId: string }>): void {
+    if (this.timer) return;
+
+    this.runSchedule = runSchedule;
+    this.timer = setInterval(() => {
+      this.sweep();
+    }, this.config.intervalMs);
+
+    logger.info('Generation scheduler started', {
+      config: this.config,
+      type: 'generation_scheduler_started'
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async sweep(): Promise<number> {
+    if (this.sweeping || !this.runSchedule) return 0;
+
+    this.sweeping = true;
+    this.stats.sweeps++;
+    this.stats.lastSweepAt = new Date();
+
+    try {
+      const now = new Date();
+      const claimed = await storage.claimDueScheduledGenerations(
+        this.config.batchSize,
+        (schedule) => getNextScheduledRun(schedule, now)
+      );
+
+      // A failed run is recorded on the schedule; recurring schedules still fire next time
+      for (const schedule of claimed) {
+        try {
+          const { taskId } = await this.runSchedule(schedule);
+          await storage.recordScheduledGenerationRun(schedule.id, { taskId });
+          this.stats.fired++;
+
+          logger.info('Scheduled generation fired', {
+            scheduleId: schedule.id,
+            taskId,
+            nextRunAt: schedule.nextRunAt?.toISOString() ?? null,
+            type: 'generation_scheduler_fired'
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          this.stats.failed++;
+          await storage.recordScheduledGenerationRun(schedule.id, { error: message });
+
+          logger.warn('Scheduled generation failed to start', {
+            scheduleId: schedule.id,
+            error: message,
+            type: 'generation_scheduler_run_failed'
+          });
+        }
+      }
+
+      if (claimed.length > 0) {
+        metricsCollector.recordMetric('scheduled_generation_fired', claimed.length, 'count');
+      }
+      return claimed.length;
+    } catch (error) {
+      this.stats.errors++;
+      logger.error('Generation scheduler sweep failed', {
+        error: error instanceof Error ? error.message : String(error),
+        type: 'generation_scheduler_error'
+      });
+      alertingSystem.recordError('generation_scheduler');
+      return 0;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  getMinIntervalMinutes(): number {
+    return this.config.minIntervalMinutes;
+  }
+
+  getStats(): GenerationSchedulerStats {
+    return {
+      running: !!this.timer,
+      sweeps: this.stats.sweeps,
+      fired: this.stats.fired,
+      failed: this.stats.failed,
+      errors: this.stats.errors,
+      lastSweepAt: this.stats.lastSweepAt,
+      config: { ...this.config }
+    };
+  }
+}
+
+// Create singleton instance
+export const generationScheduler = new GenerationScheduler();
@@ -56,7 +56,8 @@ class IdempotencyManager {
       maxKeys: 10000, // Maximum number of keys to store
       keyHeader: 'idempotency-key',
       skipMethods: ['GET', 'HEAD', 'OPTIONS'],
-      skipPaths: ['/api/health', '/api/monitoring'],
+      // Storage PUT and tus PATCH bodies are streamed, so requests to them can't be told apart by body
+      skipPaths: ['/api/health', '/api/monitoring', '/api/storage/local', '/api/uploads/tus'],
       hashRequestBody: true,
       includeUserId: true
     };
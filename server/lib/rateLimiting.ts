@@ -78,7 +78,8 @@ class RateLimitManager {
         windowMs: 60000, // 1 minute
         maxRequests: 30,
         keyGenerator: (req: Request) => `api_${this.getClientId(req)}`,
-        skipPaths: ['/api/health', '/api/monitoring'],
+        // tus chunk requests (HEAD/PATCH on an existing upload) only count towards the global limit
+        skipPaths: ['/api/health', '/api/monitoring', '/api/uploads/tus/'],
         skipMethods: ['GET'],
         message: 'Too many API requests from this client',
         headers: true,
@@ -90,18 +91,32 @@ class RateLimitManager {
         windowMs: 300000, // 5 minutes
         maxRequests: 50,
         keyGenerator: (req: Request) => `webhook_${req.ip || 'unknown'}`,
-        skipCondition: (req: Request) => !req.path.includes('/callback'),
+        // Progress reports have their own per-task budget below
+        skipCondition: (req: Request) => !req.path.includes('/callback') || req.path.endsWith('/callback/progress'),
         message: 'Too many webhook callbacks from this source',
         headers: false,
         enabled: true
       },
+      {
+        id: 'webhook_progress',
+        name: 'Webhook Progress Rate Limit',
+        windowMs: 300000, // 5 minutes
+        maxRequests: 120,
+        // Keyed by task so many generations reporting from the one n8n host do not share a budget
+        keyGenerator: (req: Request) => `progress_${typeof req.body?.taskId === 'string' ? req.body.taskId : req.ip || 'unknown'}`,
+        skipCondition: (req: Request) => !req.path.endsWith('/callback/progress'),
+        message: 'Too many progress callbacks for this task',
+        headers: false,
+        enabled: true
+      },
       {
         id: 'upload',
         name: 'File Upload Rate Limit',
         windowMs: 300000, // 5 minutes
         maxRequests: 30,
         keyGenerator: (req: Request) => `upload_${this.getClientId(req)}`,
-        skipCondition: (req: Request) => !req.path.includes('/upload'),
+        // Only creating an upload counts, not each tus chunk of it
+        skipCondition: (req: Request) => !req.path.includes('/upload') || req.path.startsWith('/api/uploads/tus/'),
         message: 'Too many file uploads from this client',
         headers: true,
         enabled: true
@@ -112,7 +127,10 @@ class RateLimitManager {
         windowMs: 3600000, // 1 hour
         maxRequests: 20,
         keyGenerator: (req: Request) => `generation_${this.getClientId(req)}`,
-        skipCondition: (req: Request) => !req.path.includes('/generations') || req.method !== 'POST',
+        // Batches charge each row through reserveSlots instead; provider callbacks, cancelling and picking a variant start no generation
+        skipCondition: (req: Request) => !req.path.includes('/generations') || req.method !== 'POST' ||
+          req.path.endsWith('/generations/batch') || req.path.includes('/generations/callback') ||
+          req.path.endsWith('/cancel') || req.path.endsWith('/pick'),
         message: 'Too many video generation requests from this client',
         headers: true,
         enabled: true
@@ -285,6 +303,71 @@ class RateLimitManager {
     return { allowed: true, record };
   }
 
+  // Reserve `count` requests under a rule, returning when each may run.
+  // Slots beyond the remaining budget are pushed out until earlier requests leave the window.
+  reserveSlots(ruleId: string, req: Request, count: number, correlationId?: string): Date[] {
+    const now = Date.now();
+    const rule = this.rules.get(ruleId);
+    if (!rule || !rule.enabled) {
+      return Array.from({ length: count }, () => new Date(now));
+    }
+
+    const store = this.stores.get(rule.id)!;
+    const clientId = rule.keyGenerator(req);
+    let record = store.get(clientId);
+    if (!record) {
+      record = {
+        requests: [],
+        blocked: false,
+        resetTime: new Date(now + rule.windowMs),
+        totalRequests: 0,
+        blockedRequests: 0,
+        firstRequest: new Date(),
+        lastRequest: new Date()
+      };
+      store.set(clientId, record);
+    }
+
+    const requests = record.requests
+      .filter(timestamp => timestamp > now - rule.windowMs)
+      .sort((a, b) => a - b);
+    const slots: Date[] = [];
+    for (let i = 0; i < count; i++) {
+      const slot = requests.length < rule.maxRequests
+        ? now
+        : Math.max(now, requests[requests.length - rule.maxRequests] + rule.windowMs, requests[requests.length - 1]);
+      requests.push(slot);
+      slots.push(new Date(slot));
+    }
+
+    record.requests = requests;
+    record.totalRequests += count;
+    // Future reservations must outlive the idle-record cleanup
+    record.lastRequest = new Date(Math.max(now, requests[requests.length - 1] ?? now));
+    record.resetTime = new Date(record.lastRequest.getTime() + rule.windowMs);
+
+    logger.info('Rate limit slots reserved', {
+      correlationId,
+      ruleId: rule.id,
+      clientId,
+      count,
+      deferred: slots.filter(slot => slot.getTime() > now).length,
+      lastSlot: slots[slots.length - 1]?.toISOString(),
+      type: 'rate_limit_reserved'
+    });
+
+    return slots;
+  }
+
+  // Charges one request to a user outside of an HTTP request (e.g. scheduled runs); false once the budget is spent
+  consumeForUser(ruleId: string, userId: string, correlationId: string): boolean {
+    const rule = this.rules.get(ruleId);
+    if (!rule || !rule.enabled) return true;
+
+    const clientId = rule.keyGenerator({ user: { claims: { sub: userId } } } as unknown as Request);
+    return this.checkRuleLimit(rule, clientId, correlationId).allowed;
+  }
+
   // Main rate limiting check
   checkRateLimit(req: Request, correlationId: string): {
     allowed: boolean;
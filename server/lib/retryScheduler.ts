@@ -0,0 +1,129 @@
+import { logger } from './logger';
+import { metricsCollector } from './metrics';
+import { alertingSystem } from './alerting';
+import { generationQueue } from './generationQueue';
+import { storage } from '../storage';
+import type { VideoGeneration } from '@shared/schema';
+
+export interface RetrySchedulerConfig {
+  intervalMs: number;
+  batchSize: number;
+}
+
+export interface RetrySchedulerStats {
+  running: boolean;
+  sweeps: number;
+  requeued: number;
+  errors: number;
+  lastSweepAt: Date | null;
+  config: RetrySchedulerConfig;
+}
+
+class RetryScheduler {
+  private config: RetrySchedulerConfig;
+  private timer?: NodeJS.Timeout;
+  private sweeping: boolean;
+  private buildPayload?: (generation: VideoGeneration) => unknown;
+  private stats: {
+    sweeps: number;
+    requeued: number;
+    errors: number;
+    lastSweepAt: Date | null;
+  };
+
+  constructor() {
+    this.config = {
+      intervalMs: parseInt(process.env.RETRY_SCHEDULER_INTERVAL_MS || '15000', 10),
+      batchSize: parseInt(process.env.RETRY_SCHEDULER_BATCH_SIZE || '25', 10)
+    };
+
+    this.sweeping = false;
+    this.stats = {
+      sweeps: 0,
+      requeued: 0,
+      errors: 0,
+      lastSweepAt: null
+    };
+  }
+
+  // The payload builder rebuilds the N8N webhook payload for a generation being redispatched
+  start(buildPayload: (generation: VideoGeneration) => unknown): void {
+    if (this.timer) return;
+
+    this.buildPayload = buildPayload;
+    this.timer = setInterval(() => {
+      this.sweep();
+    }, this.config.intervalMs);
+
+    logger.info('Retry scheduler started', {
+      config: this.config,
+      type: 'retry_scheduler_started'
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async sweep(): Promise<number> {
+    if (this.sweeping || !this.buildPayload) return 0;
+
+    this.sweeping = true;
+    this.stats.sweeps++;
+    this.stats.lastSweepAt = new Date();
+
+    try {
+      const { requeued, abandoned } = await storage.requeueDueRetries(this.config.batchSize, this.buildPayload);
+      for (const generation of abandoned) {
+        logger.warn('Automatic retry abandoned, payload could not be rebuilt', {
+          taskId: generation.taskId,
+          error: generation.errorMessage,
+          type: 'retry_scheduler_abandoned'
+        });
+      }
+      if (requeued.length === 0) return 0;
+
+      this.stats.requeued += requeued.length;
+      generationQueue.notify();
+
+      for (const generation of requeued) {
+        logger.info('Automatic retry requeued', {
+          taskId: generation.taskId,
+          retryCount: generation.retryCount,
+          maxRetries: generation.maxRetries,
+          type: 'retry_scheduler_requeued'
+        });
+      }
+
+      metricsCollector.recordMetric('automatic_retry_requeued', requeued.length, 'count');
+      return requeued.length;
+    } catch (error) {
+      this.stats.errors++;
+      logger.error('Retry scheduler sweep failed', {
+        error: error instanceof Error ? error.message : String(error),
+        type: 'retry_scheduler_error'
+      });
+      alertingSystem.recordError('retry_scheduler');
+      return 0;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  getStats(): RetrySchedulerStats {
+    return {
+      running: !!this.timer,
+      sweeps: this.stats.sweeps,
+      requeued: this.stats.requeued,
+      errors: this.stats.errors,
+      lastSweepAt: this.stats.lastSweepAt,
+      config: { ...this.config }
+    };
+  }
+}
+
+// Create singleton instance
+export const retryScheduler = new RetryScheduler();
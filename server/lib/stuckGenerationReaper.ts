@@ -0,0 +1,145 @@
+import { logger } from './logger';
+import { metricsCollector } from './metrics';
+import { alertingSystem } from './alerting';
+import { storage } from '../storage';
+
+type ReapableStatus = 'pending' | 'processing';
+
+export interface StuckGenerationReaperConfig {
+  intervalMs: number;
+  batchSize: number;
+  // Maximum time a generation may sit in each status before it is failed
+  timeouts: Record<ReapableStatus, number>;
+  autoRetry: boolean;
+}
+
+export interface StuckGenerationReaperStats {
+  running: boolean;
+  sweeps: number;
+  reaped: Record<ReapableStatus, number>;
+  errors: number;
+  lastSweepAt: Date | null;
+  config: StuckGenerationReaperConfig;
+}
+
+class StuckGenerationReaper {
+  private config: StuckGenerationReaperConfig;
+  private timer?: NodeJS.Timeout;
+  private sweeping: boolean;
+  private stats: {
+    sweeps: number;
+    reaped: Record<ReapableStatus, number>;
+    errors: number;
+    lastSweepAt: Date | null;
+  };
+
+  constructor() {
+    this.config = {
+      intervalMs: parseInt(process.env.STUCK_GENERATION_REAPER_INTERVAL_MS || '60000', 10),
+      batchSize: parseInt(process.env.STUCK_GENERATION_REAPER_BATCH_SIZE || '50', 10),
+      timeouts: {
+        pending: parseInt(process.env.STUCK_GENERATION_PENDING_TIMEOUT_MS || '900000', 10), // 15 minutes
+        processing: parseInt(process.env.STUCK_GENERATION_PROCESSING_TIMEOUT_MS || '1800000', 10) // 30 minutes
+      },
+      autoRetry: process.env.STUCK_GENERATION_AUTO_RETRY === 'true'
+    };
+
+    this.sweeping = false;
+    this.stats = {
+      sweeps: 0,
+      reaped: { pending: 0, processing: 0 },
+      errors: 0,
+      lastSweepAt: null
+    };
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep();
+    }, this.config.intervalMs);
+
+    logger.info('Stuck generation reaper started', {
+      config: this.config,
+      type: 'stuck_generation_reaper_started'
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async sweep(): Promise<number> {
+    if (this.sweeping) return 0;
+
+    this.sweeping = true;
+    this.stats.sweeps++;
+    this.stats.lastSweepAt = new Date();
+
+    let total = 0;
+    try {
+      for (const status of ['pending', 'processing'] as const) {
+        total += await this.reapStatus(status);
+      }
+
+      if (total > 0) {
+        alertingSystem.recordStuckGenerations(total);
+      }
+      return total;
+    } catch (error) {
+      this.stats.errors++;
+      logger.error('Stuck generation sweep failed', {
+        error: error instanceof Error ? error.message : String(error),
+        type: 'stuck_generation_reaper_error'
+      });
+      alertingSystem.recordError('stuck_generation_reaper');
+      return total;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async reapStatus(status: ReapableStatus): Promise<number> {
+    const timeoutMs = this.config.timeouts[status];
+    const cutoff = new Date(Date.now() - timeoutMs);
+
+    const reaped = await storage.failStuckGenerations(status, cutoff, this.config.batchSize, {
+      timeoutMs,
+      autoRetry: this.config.autoRetry
+    });
+    if (reaped.length === 0) return 0;
+
+    this.stats.reaped[status] += reaped.length;
+
+    for (const generation of reaped) {
+      logger.warn('Stuck generation marked as failed', {
+        taskId: generation.taskId,
+        status,
+        timeoutMs,
+        retryScheduled: !!generation.nextRetryAt,
+        type: 'stuck_generation_reaped'
+      });
+    }
+
+    metricsCollector.recordMetric('stuck_generations_reaped', reaped.length, 'count', { status });
+    return reaped.length;
+  }
+
+  getStats(): StuckGenerationReaperStats {
+    return {
+      running: !!this.timer,
+      sweeps: this.stats.sweeps,
+      reaped: { ...this.stats.reaped },
+      errors: this.stats.errors,
+      lastSweepAt: this.stats.lastSweepAt,
+      config: { ...this.config, timeouts: { ...this.config.timeouts } }
+    };
+  }
+}
+
+// Create singleton instance
+export const stuckGenerationReaper = new StuckGenerationReaper();
@@ -0,0 +1,36 @@
+// Protocol helpers for tus 1.0.0 resumable uploads (core protocol plus the creation, expiration
+// and termination extensions). Storage of the uploaded bytes is left to the routes.
+import type { Request, Response, NextFunction } from "express";
+
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = ['creation', 'expiration', 'termination'];
+export const TUS_CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+// Every tus response names the protocol version; requests must name it too, except OPTIONS discovery
+export function tusVersionMiddleware(req: Request, res: Response, next: NextFunction): void {
+  res.set({ 'Tus-Resumable': TUS_VERSION, 'Cache-Control': 'no-store' });
+  if (req.method !== 'OPTIONS' && req.get('Tus-Resumable') !== TUS_VERSION) {
+    res.status(412).set('Tus-Version', TUS_VERSION).json({ error: `Tus-Resumable ${TUS_VERSION} is required` });
+    return;
+  }
+  next();
+}
+
+// Upload-Length and Upload-Offset are non-negative integers; anything else yields null
+export function parseTusInteger(value: string | undefined): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+}
+
+// Upload-Metadata is a comma-separated list of "key base64value" pairs; values may be omitted
+export function parseTusMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const pair of (header ?? '').split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (key) {
+      metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+    }
+  }
+  return metadata;
+}
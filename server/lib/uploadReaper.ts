@@ -0,0 +1,149 @@
+import { logger } from './logger';
+import { metricsCollector } from './metrics';
+import { alertingSystem } from './alerting';
+import { storage } from '../storage';
+import { ObjectStorageService } from '../objectStorage';
+
+export interface UploadReaperConfig {
+  intervalMs: number;
+  batchSize: number;
+}
+
+export interface UploadReaperStats {
+  running: boolean;
+  sweeps: number;
+  reaped: { direct: number; resumable: number };
+  errors: number;
+  lastSweepAt: Date | null;
+  config: UploadReaperConfig;
+}
+
+// Removes uploads that were started but never finished, along with the objects they left in the bucket
+class UploadReaper {
+  private config: UploadReaperConfig;
+  private timer?: NodeJS.Timeout;
+  private sweeping: boolean;
+  private objectStorage: ObjectStorageService;
+  private stats: {
+    sweeps: number;
+    reaped: { direct: number; resumable: number };
+    errors: number;
+    lastSweepAt: Date | null;
+  };
+
+  constructor() {
+    this.config = {
+      intervalMs: parseInt(process.env.UPLOAD_REAPER_INTERVAL_MS || '300000', 10),
+      batchSize: parseInt(process.env.UPLOAD_REAPER_BATCH_SIZE || '50', 10)
+    };
+
+    this.sweeping = false;
+    this.objectStorage = new ObjectStorageService();
+    this.stats = {
+      sweeps: 0,
+      reaped: { direct: 0, resumable: 0 },
+      errors: 0,
+      lastSweepAt: null
+    };
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep();
+    }, this.config.intervalMs);
+
+    logger.info('Upload reaper started', {
+      config: this.config,
+      type: 'upload_reaper_started'
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async sweep(): Promise<number> {
+    if (this.sweeping) return 0;
+
+    this.sweeping = true;
+    this.stats.sweeps++;
+    this.stats.lastSweepAt = new Date();
+
+    try {
+      return await this.reapDirectUploads() + await this.reapResumableUploads();
+    } catch (error) {
+      this.stats.errors++;
+      logger.error('Upload reaper sweep failed', {
+        error: error instanceof Error ? error.message : String(error),
+        type: 'upload_reaper_error'
+      });
+      alertingSystem.recordError('upload_reaper');
+      return 0;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  // Presigned uploads never completed: the staging object goes first, so a failed delete is retried next sweep
+  private async reapDirectUploads(): Promise<number> {
+    const expired = await storage.getExpiredMediaUploads(new Date(), this.config.batchSize);
+    for (const upload of expired) {
+      await this.objectStorage.discardStagedUpload(upload.stagingPath);
+      await storage.finishMediaUpload(upload.id, upload.userId, { error: "Upload expired" });
+
+      logger.info('Expired direct upload removed', {
+        uploadId: upload.id,
+        expiresAt: upload.expiresAt.toISOString(),
+        type: 'upload_reaper_direct_reaped'
+      });
+    }
+
+    if (expired.length > 0) {
+      this.stats.reaped.direct += expired.length;
+      metricsCollector.recordMetric('expired_uploads_reaped', expired.length, 'count', { kind: 'direct' });
+    }
+    return expired.length;
+  }
+
+  // tus uploads past Upload-Expires: unfinished ones are abandoned, and finished ones may still hold
+  // chunks whose removal failed. The published object of a finished upload is left in place.
+  private async reapResumableUploads(): Promise<number> {
+    const expired = await storage.getExpiredResumableUploads(new Date(), this.config.batchSize);
+    for (const upload of expired) {
+      await this.objectStorage.discardResumableChunks(upload.chunkPaths);
+      await storage.deleteResumableUpload(upload.id, upload.userId);
+
+      logger.info('Expired resumable upload removed', {
+        uploadId: upload.id,
+        status: upload.status,
+        chunks: upload.chunkPaths.length,
+        type: 'upload_reaper_resumable_reaped'
+      });
+    }
+
+    if (expired.length > 0) {
+      this.stats.reaped.resumable += expired.length;
+      metricsCollector.recordMetric('expired_uploads_reaped', expired.length, 'count', { kind: 'resumable' });
+    }
+    return expired.length;
+  }
+
+  getStats(): UploadReaperStats {
+    return {
+      running: !!this.timer,
+      sweeps: this.stats.sweeps,
+      reaped: { ...this.stats.reaped },
+      errors: this.stats.errors,
+      lastSweepAt: this.stats.lastSweepAt,
+      config: { ...this.config }
+    };
+  }
+}
+
+// Create singleton instance
+export const uploadReaper = new UploadReaper();
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { logger } from './logger';
 import { metricsCollector } from './metrics';
 import { ValidationError } from './errorHandler';
+import { GenerationAssetSchema, GenerationProgressCallbackSchema } from '@shared/types';
 
 export interface ValidationConfig {
   enableRequestValidation: boolean;
@@ -84,6 +85,7 @@ class ValidationManager {
           (path) => !path || path.startsWith('/') || path.startsWith('http'),
           'Video path must be a valid path or URL'
         ),
+        assets: z.array(GenerationAssetSchema).max(50, 'Maximum 50 assets allowed').optional(),
         errorMessage: z.string().optional().transform(
           (msg) => msg ? this.sanitizeString(msg) : msg
         )
@@ -92,6 +94,20 @@ class ValidationManager {
       description: 'Webhook callback validation with enhanced security'
     };
 
+    // Pipeline progress callbacks
+    const webhookProgressRule: ValidationRule = {
+      endpoint: '/api/generations/callback/progress',
+      method: 'POST',
+      requestSchema: GenerationProgressCallbackSchema.extend({
+        taskId: z.string().uuid('Task ID must be a valid UUID'),
+        message: z.string().max(500).optional().transform(
+          (msg) => msg ? this.sanitizeString(msg) : msg
+        )
+      }).strict(),
+      enabled: true,
+      description: 'Webhook progress callback validation'
+    };
+
     // Generation creation validation - DISABLED due to double validation issue
     // The route handler already validates with GenerationCreateRequestSchema
     const generationCreateRule: ValidationRule = {
@@ -172,6 +188,7 @@ class ValidationManager {
 
     // Add rules
     this.addRule(webhookCallbackRule);
+    this.addRule(webhookProgressRule);
     this.addRule(generationCreateRule);
     this.addRule(uploadRule);
     this.addRule(healthRule);
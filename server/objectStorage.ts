@@ -1,6 +1,6 @@
-import { Storage, File } from "@google-cloud/storage";
-import { Response } from "express";
-import { randomUUID } from "crypto";
+import { Request, Response } from "express";
+import { createHash, randomUUID } from "crypto";
+import { Readable } from "stream";
 import {
   ObjectAclPolicy,
   ObjectPermission,
@@ -8,37 +8,19 @@ import {
   getObjectAclPolicy,
   setObjectAclPolicy,
 } from "./objectAcl";
+import {
+  getStorageDriver,
+  ObjectNotFoundError,
+  type ObjectLocation,
+  type StorageByteRange,
+  type StorageListEntry,
+  type StorageObjectMetadata,
+} from "./storageDrivers";
 
-const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
-
-// The object storage client is used to interact with the object storage service.
-export const objectStorageClient = new Storage({
-  credentials: {
-    audience: "replit",
-    subject_token_type: "access_token",
-    token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
-    type: "external_account",
-    credential_source: {
-      url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
-      format: {
-        type: "json",
-        subject_token_field_name: "access_token",
-      },
-    },
-    universe_domain: "googleapis.com",
-  },
-  projectId: "",
-});
-
-export class ObjectNotFoundError extends Error {
-  constructor() {
-    super("Object not found");
-    this.name = "ObjectNotFoundError";
-    Object.setPrototypeOf(this, ObjectNotFoundError.prototype);
-  }
-}
+export { ObjectNotFoundError };
 
 // The object storage service is used to interact with the object storage service.
+// Objects live in whichever backend OBJECT_STORAGE_DRIVER selects (see storageDrivers).
 export class ObjectStorageService {
   constructor() {}
 
@@ -75,18 +57,15 @@ export class ObjectStorageService {
   }
 
   // Search for a public object from the search paths.
-  async searchPublicObject(filePath: string): Promise<File | null> {
+  async searchPublicObject(filePath: string): Promise<ObjectLocation | null> {
     for (const searchPath of this.getPublicObjectSearchPaths()) {
       const fullPath = `${searchPath}/${filePath}`;
 
       // Full path format: /<bucket_name>/<object_name>
-      const { bucketName, objectName } = parseObjectPath(fullPath);
-      const bucket = objectStorageClient.bucket(bucketName);
-      const file = bucket.file(objectName);
+      const file = parseObjectPath(fullPath);
 
       // Check if file exists
-      const [exists] = await file.exists();
-      if (exists) {
+      if (await getStorageDriver().exists(file)) {
         return file;
       }
     }
@@ -94,25 +73,76 @@ export class ObjectStorageService {
     return null;
   }
 
-  // Downloads an object to the response.
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  // Lists the objects directly under each public search path.
+  async listPublicObjects(): Promise<StorageListEntry[]> {
+    const files: StorageListEntry[] = [];
+    for (const searchPath of this.getPublicObjectSearchPaths()) {
+      const { bucketName, objectName } = parseObjectPath(searchPath);
+      files.push(...await getStorageDriver().list(bucketName, `${objectName}/`, { delimiter: "/" }));
+    }
+    return files;
+  }
+
+  // Downloads an object to the response, honouring conditional and single-range requests.
+  async downloadObject(file: ObjectLocation, req: Request, res: Response, cacheTtlSec: number = 3600) {
+    const driver = getStorageDriver();
     try {
       // Get file metadata
-      const [metadata] = await file.getMetadata();
+      const metadata = await driver.getMetadata(file);
+      if (!metadata) {
+        throw new ObjectNotFoundError();
+      }
       // Get the ACL policy for the object.
       const aclPolicy = await getObjectAclPolicy(file);
       const isPublic = aclPolicy?.visibility === "public";
       // Set appropriate headers
       res.set({
         "Content-Type": metadata.contentType || "application/octet-stream",
-        "Content-Length": metadata.size,
+        "Accept-Ranges": "bytes",
         "Cache-Control": `${
           isPublic ? "public" : "private"
         }, max-age=${cacheTtlSec}`,
       });
+      if (metadata.etag) {
+        res.set("ETag", `"${metadata.etag}"`);
+      }
+      if (metadata.updated) {
+        res.set("Last-Modified", metadata.updated.toUTCString());
+      }
+
+      // Express compares If-None-Match / If-Modified-Since against the validators set above
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+
+      let range: StorageByteRange | undefined;
+      if (req.headers.range && metadata.size > 0 && isIfRangeSatisfied(req, metadata)) {
+        const ranges = req.range(metadata.size, { combine: true });
+        // Multipart/byteranges responses are not supported, so several disjoint ranges are refused
+        if (ranges === -1 || (Array.isArray(ranges) && ranges.length > 1)) {
+          return res.status(416).set("Content-Range", `bytes */${metadata.size}`).end();
+        }
+        // A malformed or non-byte Range header is ignored and the whole object is sent
+        if (Array.isArray(ranges) && ranges.type === "bytes") {
+          range = ranges[0];
+        }
+      }
+
+      if (range) {
+        res.status(206).set({
+          "Content-Range": `bytes ${range.start}-${range.end}/${metadata.size}`,
+          "Content-Length": String(range.end - range.start + 1),
+        });
+      } else {
+        res.set("Content-Length", String(metadata.size));
+      }
+
+      if (req.method === "HEAD") {
+        return res.end();
+      }
 
       // Stream the file to the response
-      const stream = file.createReadStream();
+      const stream = driver.stream(file, range);
 
       stream.on("error", (err) => {
         console.error("Stream error:", err);
@@ -123,6 +153,9 @@ export class ObjectStorageService {
 
       stream.pipe(res);
     } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        throw error;
+      }
       console.error("Error downloading file:", error);
       if (!res.headersSent) {
         res.status(500).json({ error: "Error downloading file" });
@@ -143,12 +176,8 @@ export class ObjectStorageService {
     const objectId = randomUUID();
     const fullPath = `${privateObjectDir}/uploads/${objectId}`;
 
-    const { bucketName, objectName } = parseObjectPath(fullPath);
-
     // Sign URL for PUT method with TTL
-    return signObjectURL({
-      bucketName,
-      objectName,
+    return getStorageDriver().sign(parseObjectPath(fullPath), {
       method: "PUT",
       ttlSec: 900,
     });
@@ -166,19 +195,117 @@ export class ObjectStorageService {
     const objectId = filename || randomUUID();
     const fullPath = `${publicPath}/uploads/${objectId}`;
 
-    const { bucketName, objectName } = parseObjectPath(fullPath);
-
     // Sign URL for PUT method with TTL
-    return signObjectURL({
-      bucketName,
-      objectName,
+    return getStorageDriver().sign(parseObjectPath(fullPath), {
       method: "PUT",
       ttlSec: 900,
     });
   }
 
+  // Where uploads are published: the uploads directory of the first public path.
+  private getPublicUploadLocation(filename: string): ObjectLocation {
+    const publicPath = this.getPublicObjectSearchPaths()[0];
+    return parseObjectPath(`${publicPath}/uploads/${filename}`);
+  }
+
+  // Writes an upload straight to the first public path and returns its /public-objects path.
+  async uploadPublicObject(
+    filename: string,
+    body: Buffer | Readable,
+    contentType?: string
+  ): Promise<string> {
+    await getStorageDriver().put(this.getPublicUploadLocation(filename), body, { contentType });
+    return `/public-objects/uploads/${filename}`;
+  }
+
+  // Gets a presigned PUT URL for a new staging object under the private directory, where it stays until published.
+  async getStagedUploadURL(
+    contentType: string,
+    ttlSec: number = 900
+  ): Promise<{ stagingPath: string; uploadURL: string }> {
+    const stagingPath = `${this.getPrivateObjectDir()}/uploads/staging/${randomUUID()}`;
+    const uploadURL = await getStorageDriver().sign(parseObjectPath(stagingPath), {
+      method: "PUT",
+      ttlSec,
+      contentType,
+    });
+    return { stagingPath, uploadURL };
+  }
+
+  // Reads back what was actually stored for a staged upload; null if nothing has been uploaded yet.
+  async inspectStagedUpload(
+    stagingPath: string
+  ): Promise<{ size: number; contentType: string | null; sha256: string } | null> {
+    const driver = getStorageDriver();
+    const location = parseObjectPath(stagingPath);
+    const metadata = await driver.getMetadata(location);
+    if (!metadata) {
+      return null;
+    }
+
+    // Hashing streams the object, so memory use stays flat however large it is
+    const hash = createHash("sha256");
+    for await (const chunk of driver.stream(location)) {
+      hash.update(chunk);
+    }
+    return { size: metadata.size, contentType: metadata.contentType, sha256: hash.digest("hex") };
+  }
+
+  // Copies a verified staged upload to the first public path and removes the staging object.
+  async publishStagedUpload(stagingPath: string, filename: string, owner: string): Promise<string> {
+    const driver = getStorageDriver();
+    const destination = this.getPublicUploadLocation(filename);
+    await driver.copy(parseObjectPath(stagingPath), destination);
+    await setObjectAclPolicy(destination, { owner, visibility: "public" });
+    await driver.delete(parseObjectPath(stagingPath));
+    return `/public-objects/uploads/${filename}`;
+  }
+
+  async discardStagedUpload(stagingPath: string): Promise<void> {
+    await getStorageDriver().delete(parseObjectPath(stagingPath));
+  }
+
+  // Gets a private path for one chunk of a resumable upload; names sort in upload order.
+  getResumableChunkPath(uploadId: string, offset: number): string {
+    return `${this.getPrivateObjectDir()}/uploads/tus/${uploadId}/${String(offset).padStart(15, "0")}-${randomUUID()}`;
+  }
+
+  async writeResumableChunk(chunkPath: string, body: Readable): Promise<void> {
+    await getStorageDriver().put(parseObjectPath(chunkPath), body, {
+      contentType: "application/offset+octet-stream",
+    });
+  }
+
+  // Joins the chunks of a finished resumable upload into one public object. The chunks are kept so a
+  // failed assembly can be retried; callers discard them once the upload is recorded as completed.
+  async assembleResumableUpload(
+    chunkPaths: string[],
+    filename: string,
+    contentType: string,
+    owner: string
+  ): Promise<string> {
+    const driver = getStorageDriver();
+    const destination = this.getPublicUploadLocation(filename);
+    const chunks = chunkPaths.map((chunkPath) => parseObjectPath(chunkPath));
+
+    // Chunks are streamed one after another, so memory use does not grow with the file size
+    async function* readChunks() {
+      for (const chunk of chunks) {
+        yield* driver.stream(chunk);
+      }
+    }
+    await driver.put(destination, Readable.from(readChunks()), { contentType });
+    await setObjectAclPolicy(destination, { owner, visibility: "public" });
+    return `/public-objects/uploads/${filename}`;
+  }
+
+  async discardResumableChunks(chunkPaths: string[]): Promise<void> {
+    const driver = getStorageDriver();
+    await Promise.all(chunkPaths.map((chunkPath) => driver.delete(parseObjectPath(chunkPath))));
+  }
+
   // Gets the object entity file from the object path.
-  async getObjectEntityFile(objectPath: string): Promise<File> {
+  async getObjectEntityFile(objectPath: string): Promise<ObjectLocation> {
     if (!objectPath.startsWith("/objects/")) {
       throw new ObjectNotFoundError();
     }
@@ -194,11 +321,8 @@ export class ObjectStorageService {
       entityDir = `${entityDir}/`;
     }
     const objectEntityPath = `${entityDir}${entityId}`;
-    const { bucketName, objectName } = parseObjectPath(objectEntityPath);
-    const bucket = objectStorageClient.bucket(bucketName);
-    const objectFile = bucket.file(objectName);
-    const [exists] = await objectFile.exists();
-    if (!exists) {
+    const objectFile = parseObjectPath(objectEntityPath);
+    if (!(await getStorageDriver().exists(objectFile))) {
       throw new ObjectNotFoundError();
     }
     return objectFile;
@@ -251,7 +375,7 @@ export class ObjectStorageService {
     requestedPermission,
   }: {
     userId?: string;
-    objectFile: File;
+    objectFile: ObjectLocation;
     requestedPermission?: ObjectPermission;
   }): Promise<boolean> {
     return canAccessObject({
@@ -262,10 +386,22 @@ export class ObjectStorageService {
   }
 }
 
-export function parseObjectPath(path: string): {
-  bucketName: string;
-  objectName: string;
-} {
+// If-Range only allows a partial response while the object still matches the given ETag or date
+function isIfRangeSatisfied(req: Request, metadata: StorageObjectMetadata): boolean {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    // Weak validators never satisfy If-Range
+    return metadata.etag !== null && ifRange === `"${metadata.etag}"`;
+  }
+  const date = Date.parse(ifRange);
+  return metadata.updated !== null && !Number.isNaN(date) &&
+    Math.floor(metadata.updated.getTime() / 1000) === Math.floor(date / 1000);
+}
+
+export function parseObjectPath(path: string): ObjectLocation {
   if (!path.startsWith("/")) {
     path = `/${path}`;
   }
@@ -282,41 +418,3 @@ export function parseObjectPath(path: string): {
     objectName,
   };
 }
-
-async function signObjectURL({
-  bucketName,
-  objectName,
-  method,
-  ttlSec,
-}: {
-  bucketName: string;
-  objectName: string;
-  method: "GET" | "PUT" | "DELETE" | "HEAD";
-  ttlSec: number;
-}): Promise<string> {
-  const request = {
-    bucket_name: bucketName,
-    object_name: objectName,
-    method,
-    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
-  };
-  const response = await fetch(
-    `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(request),
-    }
-  );
-  if (!response.ok) {
-    throw new Error(
-      `Failed to sign object URL, errorcode: ${response.status}, ` +
-        `make sure you're running on Replit`
-    );
-  }
-
-  const { signed_url: signedURL } = await response.json();
-  return signedURL;
-}
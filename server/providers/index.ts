@@ -0,0 +1,27 @@
+import { GenerationProviderSchema } from "@shared/types";
+import type { GenerationProviderName } from "@shared/types";
+import { N8nGenerationProvider } from "./n8n";
+import { MockGenerationProvider } from "./mock";
+import type { GenerationProvider } from "./types";
+
+export type { GenerationProvider, ProviderSubmitResult, ProviderCancelResult } from "./types";
+export { determineErrorType } from "./n8n";
+export { renderMockReferenceImage, getMockVideoFile } from "./mock";
+
+export const n8nGenerationProvider = new N8nGenerationProvider();
+export const mockGenerationProvider = new MockGenerationProvider();
+
+const providers: Record<GenerationProviderName, GenerationProvider> = {
+  n8n: n8nGenerationProvider,
+  mock: mockGenerationProvider
+};
+
+// Deployment-wide default, overridable per request
+export function getDefaultProviderName(): GenerationProviderName {
+  const parsed = GenerationProviderSchema.safeParse(process.env.GENERATION_PROVIDER || "n8n");
+  return parsed.success ? parsed.data : "n8n";
+}
+
+export function getGenerationProvider(name: GenerationProviderName = getDefaultProviderName()): GenerationProvider {
+  return providers[name];
+}
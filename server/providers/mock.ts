@@ -0,0 +1,184 @@
+import { createHash } from "crypto";
+import path from "path";
+import { logger } from "../lib/logger";
+import { GenerationCallbackSchema, GenerationProgressCallbackSchema } from "@shared/types";
+import type { GenerationCallback, GenerationProgressCallback, N8nWebhookPayload } from "@shared/types";
+import type { VideoGeneration } from "@shared/schema";
+import type { GenerationProvider, ProviderCancelResult, ProviderSubmitResult } from "./types";
+
+// Prompt markers that steer the mock outcome, for exercising failure and timeout paths
+const FAIL_MARKER = "[mock:fail]";
+const HANG_MARKER = "[mock:hang]";
+
+type MockCallbackHandler = (callback: GenerationCallback, correlationId: string) => Promise<void>;
+type MockProgressHandler = (progress: GenerationProgressCallback, correlationId: string) => Promise<void>;
+
+// Derives a stable colour from the task so every render of a task looks the same
+function taskColor(taskId: string): string {
+  const digest = createHash("sha256").update(taskId).digest();
+  const hue = digest.readUInt16BE(0) % 360;
+  return `hsl(${hue}, 65%, 45%)`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Placeholder reference image served for mock generations
+export function renderMockReferenceImage(taskId: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="720" height="1280" viewBox="0 0 720 1280">
+  <rect width="720" height="1280" fill="${taskColor(taskId)}"/>
+  <text x="360" y="620" font-family="sans-serif" font-size="56" fill="#fff" text-anchor="middle">Mock generation</text>
+  <text x="360" y="690" font-family="monospace" font-size="28" fill="#fff" text-anchor="middle">${escapeXml(taskId)}</text>
+</svg>`;
+}
+
+// Bundled placeholder clip, resolved from the working directory so it is found in dev and from dist
+const DEFAULT_MOCK_VIDEO_FILE = "server/providers/assets/mock-video.mp4";
+
+// Local video file served as the output of every mock generation, overridable with MOCK_PROVIDER_VIDEO_FILE
+export function getMockVideoFile(): string {
+  return path.resolve(process.env.MOCK_PROVIDER_VIDEO_FILE || DEFAULT_MOCK_VIDEO_FILE);
+}
+
+// Completes generations locally after a fixed delay, with an outcome that depends only on the prompt and task
+export class MockGenerationProvider implements GenerationProvider {
+  readonly name = "mock" as const;
+  private delayMs: number;
+  private timers: Map<string, NodeJS.Timeout[]>;
+  private callbackHandler?: MockCallbackHandler;
+  private progressHandler?: MockProgressHandler;
+
+  constructor() {
+    this.delayMs = parseInt(process.env.MOCK_PROVIDER_DELAY_MS || '5000', 10);
+    this.timers = new Map();
+  }
+
+  // Results are delivered through the same handler as n8n callbacks
+  setCallbackHandler(handler: MockCallbackHandler): void {
+    this.callbackHandler = handler;
+  }
+
+  // Intermediate stages are delivered through the same handler as n8n progress callbacks
+  setProgressHandler(handler: MockProgressHandler): void {
+    this.progressHandler = handler;
+  }
+
+  async submit(generation: VideoGeneration, payload: N8nWebhookPayload, correlationId: string): Promise<ProviderSubmitResult> {
+    logger.info('Mock provider accepted generation', {
+      correlationId,
+      taskId: generation.taskId,
+      delayMs: this.delayMs,
+      type: 'mock_provider_submit'
+    });
+
+    const outcome = this.resolveOutcome(generation.taskId, payload.promptText);
+    if (outcome) {
+      this.clearTimer(generation.taskId);
+      // Report two intermediate stages before the result, as the real pipeline does
+      const stages: GenerationProgressCallback[] = [
+        {
+          taskId: generation.taskId,
+          stage: "image_generated",
+          percent: 33,
+          previewAsset: { kind: "image", path: `/api/mock-provider/${generation.taskId}/reference.svg`, mime: "image/svg+xml" }
+        },
+        { taskId: generation.taskId, stage: "video_rendering", percent: 66 }
+      ];
+      const timers = stages.map((stage, index) =>
+        setTimeout(() => this.deliverProgress(stage, correlationId), Math.round(this.delayMs * (index + 1) / (stages.length + 1)))
+      );
+      timers.push(setTimeout(() => {
+        this.timers.delete(generation.taskId);
+        this.deliver(outcome, correlationId);
+      }, this.delayMs));
+      this.timers.set(generation.taskId, timers);
+    }
+
+    return { success: true, attempts: 1, totalDuration: 0 };
+  }
+
+  async cancel(generation: VideoGeneration): Promise<ProviderCancelResult> {
+    this.clearTimer(generation.taskId);
+    return { supported: true, success: true };
+  }
+
+  // Reports the outcome once the simulated render time has passed since dispatch
+  async status(generation: VideoGeneration): Promise<GenerationCallback | null> {
+    const dispatchedAt = generation.lastAttemptAt || generation.createdAt;
+    if (!dispatchedAt || Date.now() - dispatchedAt.getTime() < this.delayMs) {
+      return null;
+    }
+    return this.resolveOutcome(generation.taskId, generation.promptText);
+  }
+
+  parseCallback(body: unknown): GenerationCallback {
+    return GenerationCallbackSchema.parse(body);
+  }
+
+  parseProgressCallback(body: unknown): GenerationProgressCallback {
+    return GenerationProgressCallbackSchema.parse(body);
+  }
+
+  private resolveOutcome(taskId: string, promptText: string): GenerationCallback | null {
+    if (promptText.includes(HANG_MARKER)) {
+      return null;
+    }
+    if (promptText.includes(FAIL_MARKER)) {
+      return { taskId, status: "failed", errorMessage: "Mock provider failure requested by prompt" };
+    }
+    // Two video variants exercise the variant picker; both serve the same file
+    const videoPath = `/api/mock-provider/${taskId}/video`;
+    const imageGenerationPath = `/api/mock-provider/${taskId}/reference.svg`;
+    return {
+      taskId,
+      status: "completed",
+      imageGenerationPath,
+      videoPath,
+      assets: [
+        { kind: "video", path: videoPath, mime: "video/mp4", variantIndex: 0 },
+        { kind: "video", path: `${videoPath}?variant=1`, mime: "video/mp4", variantIndex: 1 },
+        { kind: "image", path: imageGenerationPath, mime: "image/svg+xml", variantIndex: 0 }
+      ]
+    };
+  }
+
+  private async deliver(callback: GenerationCallback, correlationId: string): Promise<void> {
+    if (!this.callbackHandler) return;
+
+    try {
+      await this.callbackHandler(callback, correlationId);
+    } catch (error) {
+      logger.error('Mock provider callback failed', {
+        correlationId,
+        taskId: callback.taskId,
+        error: error instanceof Error ? error.message : String(error),
+        type: 'mock_provider_callback_error'
+      });
+    }
+  }
+
+  private async deliverProgress(progress: GenerationProgressCallback, correlationId: string): Promise<void> {
+    if (!this.progressHandler) return;
+
+    try {
+      await this.progressHandler(progress, correlationId);
+    } catch (error) {
+      logger.error('Mock provider progress callback failed', {
+        correlationId,
+        taskId: progress.taskId,
+        stage: progress.stage,
+        error: error instanceof Error ? error.message : String(error),
+        type: 'mock_provider_progress_error'
+      });
+    }
+  }
+
+  private clearTimer(taskId: string): void {
+    const timers = this.timers.get(taskId);
+    if (timers) {
+      timers.forEach(timer => clearTimeout(timer));
+      this.timers.delete(taskId);
+    }
+  }
+}
@@ -0,0 +1,556 @@
+import { z } from "zod";
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { logger } from "../lib/logger";
+import { retryManager } from "../lib/retryManager";
+import { WebhookConfigurationError, handleConfigurationError, classifyWebhookError, isWebhookErrorRetryable } from "../lib/errorHandler";
+import { GenerationCallbackSchema, GenerationProgressCallbackSchema } from "@shared/types";
+import type { GenerationCallback, GenerationProgressCallback, N8nWebhookPayload } from "@shared/types";
+import type { VideoGeneration } from "@shared/schema";
+import type { GenerationProvider, ProviderCancelResult, ProviderSubmitResult } from "./types";
+
+// Webhook timeout configuration (in milliseconds)
+const WEBHOOK_TIMEOUT = 60000; // 60 seconds - increased for n8n processing
+const CANCEL_WEBHOOK_TIMEOUT = 10000;
+const ATTEMPT_BODY_LIMIT = 2000; // characters of response body kept per delivery log row
+
+// Identifies the generation and attempt an outbound call belongs to, for the delivery log
+interface WebhookAttemptContext {
+  taskId: string;
+  userId: string;
+  kind: "submit" | "cancel";
+  attempt: number;
+}
+
+// Writes a webhook_attempts row; a logging failure must never fail the dispatch itself
+async function recordWebhookAttempt(
+  context: WebhookAttemptContext,
+  url: string,
+  requestBody: string,
+  correlationId: string | undefined,
+  result: { responseStatus?: number; responseBody?: string; latencyMs: number; error?: unknown }
+): Promise<void> {
+  const failed = result.error !== undefined || (result.responseStatus !== undefined && result.responseStatus >= 400);
+  try {
+    await storage.recordWebhookAttempt({
+      taskId: context.taskId,
+      userId: context.userId,
+      correlationId: correlationId || null,
+      kind: context.kind,
+      attempt: context.attempt,
+      url,
+      requestHash: createHash('sha256').update(requestBody).digest('hex'),
+      responseStatus: result.responseStatus ?? null,
+      responseBody: result.responseBody?.slice(0, ATTEMPT_BODY_LIMIT) ?? null,
+      latencyMs: result.latencyMs,
+      errorType: failed ? determineErrorType(result.error ?? { status: result.responseStatus }) : null,
+      errorMessage: result.error !== undefined
+        ? (result.error instanceof Error ? result.error.message : String(result.error))
+        : null
+    });
+  } catch (error) {
+    logger.warn('Failed to record webhook attempt', {
+      correlationId,
+      taskId: context.taskId,
+      attempt: context.attempt,
+      error: error instanceof Error ? error.message : String(error),
+      type: 'webhook_attempt_record_error'
+    });
+  }
+}
+
+// Helper function to validate webhook configuration and connectivity
+async function validateWebhookConfiguration(webhookUrl: string, correlationId: string): Promise<void> {
+  // Validate URL format
+  try {
+    const url = new URL(webhookUrl);
+    logger.info('Webhook URL validation passed', {
+      correlationId,
+      protocol: url.protocol,
+      hostname: url.hostname,
+      port: url.port,
+      type: 'webhook_config_validation'
+    });
+  } catch (error) {
+    handleConfigurationError('N8N_WEBHOOK_URL', 'Invalid URL format', correlationId);
+  }
+
+  // Test basic connectivity (POST request with test payload for N8N compatibility)
+  try {
+    logger.info('Testing webhook endpoint connectivity', {
+      correlationId,
+      webhookUrl,
+      type: 'webhook_connectivity_test'
+    });
+
+    // Use minimal test payload for N8N webhook
+    const testPayload = JSON.stringify({ test: 'connectivity_check' });
+    const connectivityTest = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Fabbitt-VideoGen/1.0-ConnectivityTest'
+      },
+      body: testPayload,
+      signal: AbortSignal.timeout(5000) // 5 second timeout for connectivity test
+    });
+
+    logger.info('Webhook connectivity test completed', {
+      correlationId,
+      webhookUrl,
+      status: connectivityTest.status,
+      reachable: connectivityTest.ok,
+      type: 'webhook_connectivity_result'
+    });
+  } catch (error: any) {
+    logger.warn('Webhook connectivity test failed', {
+      correlationId,
+      webhookUrl,
+      error: error.message,
+      errorName: error.name,
+      reachable: false,
+      type: 'webhook_connectivity_result'
+    });
+    // Don't throw here - this is just a warning, the actual call might still work
+  }
+}
+
+// Enhanced error classification with more granular detection
+export function determineErrorType(error: any): "webhook_failure" | "network_error" | "timeout" | "validation_error" | "configuration_error" | "unknown" {
+  // Configuration errors
+  if (error instanceof WebhookConfigurationError) {
+    return 'configuration_error';
+  }
+
+  // Timeout errors (AbortError from fetch timeout)
+  if (error.name === 'AbortError' || error.message?.includes('timeout') || error.message?.includes('aborted')) {
+    return 'timeout';
+  }
+
+  // Network connectivity errors
+  if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED' || error.code === 'ECONNRESET' ||
+      error.code === 'ETIMEDOUT' || error.message?.includes('ENOTFOUND') ||
+      error.message?.includes('Failed to fetch') || error.message?.includes('network')) {
+    return 'network_error';
+  }
+
+  // Validation errors
+  if (error instanceof z.ZodError) {
+    return 'validation_error';
+  }
+
+  // HTTP status-based classification using our enhanced classifier
+  if (error.status || error.statusCode) {
+    const statusCode = error.status || error.statusCode;
+    const classified = classifyWebhookError(statusCode);
+
+    switch (classified) {
+      case 'timeout': return 'timeout';
+      case 'network_unreachable': return 'network_error';
+      case 'rate_limited': return 'network_error';
+      case 'server_error': return 'network_error';
+      case 'authentication_failed':
+      case 'endpoint_not_found':
+      case 'client_error':
+        return 'webhook_failure';
+      default: return 'webhook_failure';
+    }
+  }
+
+  return 'unknown';
+}
+
+// Helper function to sanitize payload for logging (remove sensitive data)
+function sanitizePayloadForLogging(payload: any): any {
+  if (!payload || typeof payload !== 'object') return payload;
+
+  const sanitized = { ...payload };
+
+  // List of keys that might contain sensitive data
+  const sensitiveKeys = ['token', 'password', 'key', 'secret', 'auth', 'authorization'];
+
+  for (const key of Object.keys(sanitized)) {
+    if (sensitiveKeys.some(sensitiveKey => key.toLowerCase().includes(sensitiveKey))) {
+      sanitized[key] = '[REDACTED]';
+    }
+  }
+
+  return sanitized;
+}
+
+// Helper function to send webhook with timeout
+async function sendWebhookWithTimeout(url: string, payload: any, timeout: number = WEBHOOK_TIMEOUT, correlationId?: string, attemptContext?: WebhookAttemptContext) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const startTime = Date.now();
+
+  const requestHeaders = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'Fabbitt-VideoGen/1.0-ConnectivityTest'
+  };
+  const requestBody = JSON.stringify(payload);
+  const sanitizedPayload = sanitizePayloadForLogging(payload);
+
+  // Enhanced structured logging for N8N POST request
+  logger.info('N8N webhook request initiated', {
+    correlationId,
+    webhookUrl: url,
+    method: 'POST',
+    headers: requestHeaders,
+    payloadSize: requestBody.length,
+    payload: sanitizedPayload,
+    timeout,
+    type: 'n8n_webhook_request_start'
+  });
+
+  // Verbose console logging for production debugging (temporary)
+  console.log('=== N8N WEBHOOK POST REQUEST ===');
+  console.log('Correlation ID:', correlationId);
+  console.log('URL:', url);
+
+  // Production debugging console logs for webhook URL verification
+  console.log('=== WEBHOOK URL VERIFICATION ===');
+  console.log('ACTUAL URL BEING CALLED (webhook):', url);
+  console.log('🧪 Test URL (from env):', process.env.N8N_WEBHOOK_URL);
+  console.log('🔗 URLs match:', url === process.env.N8N_WEBHOOK_URL);
+  console.log('=== PAYLOAD COMPARISON ===');
+  console.log('📦 Test payload structure: { test: "connectivity_check" }');
+  console.log('📦 Current payload keys:', Object.keys(payload));
+  console.log('📏 Current payload size:', JSON.stringify(payload).length, 'bytes');
+  console.log('📏 Test payload size: ~32 bytes');
+  console.log('============================');
+  console.log('Method: POST');
+  console.log('Headers:', JSON.stringify(requestHeaders, null, 2));
+  console.log('Request Body Size:', requestBody.length, 'bytes');
+  console.log('Request Body (FULL PAYLOAD):', JSON.stringify(payload, null, 2));
+  console.log('Request Body (sanitized):', JSON.stringify(sanitizedPayload, null, 2));
+  console.log('Timeout:', timeout, 'ms');
+  console.log('Timestamp:', new Date().toISOString());
+  console.log('=====================================');
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: requestHeaders,
+      body: requestBody,
+      signal: controller.signal
+    });
+
+    const duration = Date.now() - startTime;
+
+    // Clone response to read body without consuming it
+    const responseClone = response.clone();
+    let responseText = '';
+    try {
+      responseText = await responseClone.text();
+    } catch (bodyError) {
+      responseText = '[Could not read response body]';
+      logger.warn('Failed to read webhook response body', {
+        correlationId,
+        error: bodyError instanceof Error ? bodyError.message : String(bodyError),
+        type: 'webhook_response_body_read_error'
+      });
+    }
+
+    const responseHeaders = Object.fromEntries(response.headers.entries());
+
+    // Enhanced structured logging for N8N POST response
+    logger.info('N8N webhook response received', {
+      correlationId,
+      webhookUrl: url,
+      status: response.status,
+      statusText: response.statusText,
+      ok: response.ok,
+      headers: responseHeaders,
+      bodySize: responseText.length,
+      duration,
+      type: 'n8n_webhook_response_success'
+    });
+
+    // Verbose console logging for production debugging
+    console.log('=== N8N WEBHOOK POST RESPONSE ===');
+    console.log('Correlation ID:', correlationId);
+    console.log('Status:', response.status);
+    console.log('Status Text:', response.statusText);
+    console.log('Response OK:', response.ok);
+    console.log('Duration:', duration, 'ms');
+    console.log('Response Headers:', JSON.stringify(responseHeaders, null, 2));
+    console.log('Response Body Size:', responseText.length, 'bytes');
+    console.log('Response Body:', responseText);
+    console.log('Timestamp:', new Date().toISOString());
+    console.log('====================================');
+
+    clearTimeout(timeoutId);
+    if (attemptContext) {
+      await recordWebhookAttempt(attemptContext, url, requestBody, correlationId, {
+        responseStatus: response.status,
+        responseBody: responseText,
+        latencyMs: duration
+      });
+    }
+    return response;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    const duration = Date.now() - startTime;
+
+    const errorType = determineErrorType(error);
+    const retryable = isWebhookErrorRetryable((error as any)?.status || 0);
+
+    // Enhanced structured logging for N8N POST error
+    logger.error('N8N webhook request failed', {
+      correlationId,
+      webhookUrl: url,
+      error: error instanceof Error ? error.message : String(error),
+      errorName: error instanceof Error ? error.name : 'Unknown',
+      errorType,
+      retryable,
+      duration,
+      timeout,
+      type: 'n8n_webhook_request_error'
+    });
+
+    // Verbose console logging for production debugging
+    console.log('=== N8N WEBHOOK POST ERROR ===');
+    console.log('Correlation ID:', correlationId);
+    console.log('URL:', url);
+    console.log('Duration before error:', duration, 'ms');
+    console.log('Error Type:', errorType);
+    console.log('Retryable:', retryable);
+    console.log('Error Details:');
+    if (error instanceof Error) {
+      console.log('  Name:', error.name);
+      console.log('  Message:', error.message);
+      console.log('  Stack:', error.stack);
+      console.log('  Code:', (error as any).code);
+      console.log('  Status:', (error as any).status);
+    } else {
+      console.log('  Error (non-Error object):', String(error));
+    }
+    console.log('Timestamp:', new Date().toISOString());
+    console.log('===============================');
+
+    if (attemptContext) {
+      await recordWebhookAttempt(attemptContext, url, requestBody, correlationId, {
+        latencyMs: duration,
+        error
+      });
+    }
+    throw error;
+  }
+}
+
+// Enhanced webhook handler with retry manager and error capture
+async function handleWebhookCall(taskId: string, userId: string, webhookPayload: any, correlationId: string): Promise<{
+  success: boolean;
+  errorDetails?: any;
+  attempts: number;
+  totalDuration: number;
+}> {
+  const n8nWebhookUrl = process.env.N8N_WEBHOOK_URL;
+  if (!n8nWebhookUrl) {
+    handleConfigurationError('N8N_WEBHOOK_URL', 'Environment variable not set', correlationId);
+  }
+
+  // Validate webhook configuration and test connectivity
+  await validateWebhookConfiguration(n8nWebhookUrl, correlationId);
+
+  logger.info('Starting webhook call process', {
+    correlationId,
+    taskId,
+    webhookUrl: n8nWebhookUrl,
+    payloadSize: JSON.stringify(webhookPayload).length,
+    type: 'webhook_call_start'
+  });
+
+  // Use retry manager for webhook calls
+  let attempt = 0;
+  const webhookOperation = async () => {
+    attempt++;
+    logger.debug('Executing webhook call', {
+      correlationId,
+      taskId,
+      url: n8nWebhookUrl,
+      payloadSize: JSON.stringify(webhookPayload).length,
+      type: 'webhook_call_attempt'
+    });
+
+    // Record attempt time
+    await storage.updateVideoGeneration(taskId, userId, { 
+      lastAttemptAt: new Date() 
+    });
+
+    const webhookResponse = await sendWebhookWithTimeout(n8nWebhookUrl, webhookPayload, WEBHOOK_TIMEOUT, correlationId, {
+      taskId,
+      userId,
+      kind: "submit",
+      attempt
+    });
+    
+    // Always capture response body for analysis
+    let responseBody: string = "";
+    try {
+      responseBody = await webhookResponse.text();
+    } catch (bodyError) {
+      logger.warn('Failed to read webhook response body', {
+        correlationId,
+        taskId,
+        error: bodyError,
+        type: 'webhook_response_body_error'
+      });
+      responseBody = "Failed to read response body";
+    }
+
+    if (!webhookResponse.ok) {
+      const errorType = determineErrorType({ status: webhookResponse.status });
+      
+      const errorDetails = {
+        status: webhookResponse.status,
+        statusText: webhookResponse.statusText,
+        body: responseBody,
+        headers: Object.fromEntries(webhookResponse.headers.entries()),
+        timestamp: new Date().toISOString()
+      };
+
+      // Update database with error details, unless the generation was cancelled meanwhile
+      await storage.transitionVideoGeneration(taskId, userId, ["pending"], {
+        status: "failed",
+        errorMessage: `Webhook failed with status ${webhookResponse.status}: ${webhookResponse.statusText}`,
+        errorDetails,
+        errorType,
+        webhookResponseStatus: webhookResponse.status.toString(),
+        webhookResponseBody: responseBody
+      });
+
+      // Create error for retry manager
+      const error = new Error(`Webhook failed with status ${webhookResponse.status}: ${webhookResponse.statusText}`);
+      (error as any).status = webhookResponse.status;
+      (error as any).statusCode = webhookResponse.status;
+      throw error;
+    }
+
+    // Success case - return response for logging
+    return {
+      status: webhookResponse.status,
+      body: responseBody,
+      headers: Object.fromEntries(webhookResponse.headers.entries())
+    };
+  };
+
+  try {
+    const result = await retryManager.retryWebhook(
+      webhookOperation,
+      n8nWebhookUrl,
+      correlationId
+    );
+
+    if (result.success) {
+      logger.info('Webhook call succeeded', {
+        correlationId,
+        taskId,
+        attempts: result.finalAttempt,
+        totalDuration: result.totalDuration,
+        type: 'webhook_call_success'
+      });
+
+      return {
+        success: true,
+        attempts: result.finalAttempt,
+        totalDuration: result.totalDuration
+      };
+    } else {
+      const errorDetails = {
+        error: result.error?.message,
+        attempts: result.attempts,
+        totalDuration: result.totalDuration,
+        finalAttempt: result.finalAttempt,
+        circuitBreakerTripped: result.circuitBreakerTripped
+      };
+
+      logger.error('Webhook call failed after all retries', {
+        correlationId,
+        taskId,
+        ...errorDetails,
+        type: 'webhook_call_failed'
+      });
+
+      return {
+        success: false,
+        errorDetails,
+        attempts: result.finalAttempt,
+        totalDuration: result.totalDuration
+      };
+    }
+
+  } catch (error: any) {
+    const errorDetails = {
+      message: error.message,
+      type: error.name,
+      code: error.code,
+      stack: error.stack,
+      timestamp: new Date().toISOString()
+    };
+
+    logger.error('Webhook call processing error', {
+      correlationId,
+      taskId,
+      error: error.message,
+      type: 'webhook_call_error'
+    });
+
+    return {
+      success: false,
+      errorDetails,
+      attempts: 1,
+      totalDuration: 0
+    };
+  }
+}
+
+// Dispatches generations to the n8n workflow webhook; results arrive on /api/generations/callback
+export class N8nGenerationProvider implements GenerationProvider {
+  readonly name = "n8n" as const;
+
+  async submit(generation: VideoGeneration, payload: N8nWebhookPayload, correlationId: string): Promise<ProviderSubmitResult> {
+    return handleWebhookCall(generation.taskId, generation.userId, payload, correlationId);
+  }
+
+  // n8n workflows can only be stopped when a cancel webhook is configured
+  async cancel(generation: VideoGeneration, correlationId: string): Promise<ProviderCancelResult> {
+    const cancelUrl = process.env.N8N_CANCEL_WEBHOOK_URL;
+    if (!cancelUrl) {
+      return { supported: false, success: false };
+    }
+
+    try {
+      const response = await sendWebhookWithTimeout(cancelUrl, { taskId: generation.taskId, action: "cancel" }, CANCEL_WEBHOOK_TIMEOUT, correlationId, {
+        taskId: generation.taskId,
+        userId: generation.userId,
+        kind: "cancel",
+        attempt: 1
+      });
+      return {
+        supported: true,
+        success: response.ok,
+        errorDetails: response.ok ? undefined : { status: response.status, statusText: response.statusText }
+      };
+    } catch (error) {
+      return {
+        supported: true,
+        success: false,
+        errorDetails: { error: error instanceof Error ? error.message : String(error), errorType: determineErrorType(error) }
+      };
+    }
+  }
+
+  async status(): Promise<GenerationCallback | null> {
+    return null;
+  }
+
+  parseCallback(body: unknown): GenerationCallback {
+    return GenerationCallbackSchema.parse(body);
+  }
+
+  parseProgressCallback(body: unknown): GenerationProgressCallback {
+    return GenerationProgressCallbackSchema.parse(body);
+  }
+}
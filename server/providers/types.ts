@@ -0,0 +1,27 @@
+import type { VideoGeneration } from "@shared/schema";
+import type { GenerationCallback, GenerationProgressCallback, GenerationProviderName, N8nWebhookPayload } from "@shared/types";
+
+export interface ProviderSubmitResult {
+  success: boolean;
+  errorDetails?: any;
+  attempts: number;
+  totalDuration: number;
+}
+
+export interface ProviderCancelResult {
+  // False when the backend has no way to stop a submitted task
+  supported: boolean;
+  success: boolean;
+  errorDetails?: any;
+}
+
+// A video generation backend. Providers receive the same payload that is stored on the dispatch job.
+export interface GenerationProvider {
+  readonly name: GenerationProviderName;
+  submit(generation: VideoGeneration, payload: N8nWebhookPayload, correlationId: string): Promise<ProviderSubmitResult>;
+  cancel(generation: VideoGeneration, correlationId: string): Promise<ProviderCancelResult>;
+  // Returns the backend's view of the task, or null when it only reports through callbacks
+  status(generation: VideoGeneration, correlationId: string): Promise<GenerationCallback | null>;
+  parseCallback(body: unknown): GenerationCallback;
+  parseProgressCallback(body: unknown): GenerationProgressCallback;
+}
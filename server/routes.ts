@@ -1,28 +1,63 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
+import path from "path";
 import { randomUUID } from "crypto";
-import { ObjectStorageService, ObjectNotFoundError, objectStorageClient, parseObjectPath } from "./objectStorage";
-import { storage } from "./storage";
+import { pipeline } from "stream";
+import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { getStorageDriver, LocalDiskStorageDriver } from "./storageDrivers";
+import { storage, InvalidCursorError, type NewGenerationBatchItem } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import {
   GenerationCreateRequestSchema,
-  GenerationCallbackSchema,
   N8nWebhookPayloadSchema,
   UploadResponseSchema,
+  DirectUploadPresignRequestSchema,
+  DirectUploadPresignResponseSchema,
+  UPLOAD_IMAGE_TYPES,
+  DIRECT_UPLOAD_MAX_BYTES,
+  TUS_UPLOAD_ROUTE,
+  TUS_OBJECT_PATH_HEADER,
   RetryGenerationRequestSchema,
-  RetryGenerationResponseSchema
+  RetryGenerationResponseSchema,
+  CancelGenerationResponseSchema,
+  GenerationHistoryQuerySchema,
+  GenerationBatchRequestSchema,
+  ScheduledGenerationRequestSchema,
+  ScheduledGenerationUpdateRequestSchema,
+  BrandPersonaRequestSchema,
+  BrandPersonaUpdateRequestSchema,
+  PromptTemplateRequestSchema,
+  PromptTemplateUpdateRequestSchema,
+  GenerationSubmissionSchema,
+  GenerationParametersSchema,
+  GENERATION_SUBMISSION_VERSION,
+  DEFAULT_GENERATION_PARAMETERS
 } from "@shared/types";
+import { extractTemplateVariables, expandPromptTemplate, findMissingTemplateVariables } from "@shared/promptTemplates";
+import { generationTransitionSources } from "@shared/generationStatus";
+import type { GenerationCallback, GenerationCreateRequest, GenerationParameters, GenerationProgressCallback, GenerationSubmission, N8nWebhookPayload } from "@shared/types";
+import type { BrandPersona, BrandPersonaSnapshot, GenerationJob, InsertGenerationAsset, InsertVideoGeneration, VideoGeneration } from "@shared/schema";
 import { z } from "zod";
 import { logger } from "./lib/logger";
 import { metricsCollector } from "./lib/metrics";
 import { alertingSystem } from "./lib/alerting";
 import { AppError, WebhookError, N8nWebhookError, NetworkError, TimeoutError, WebhookConfigurationError, handleDatabaseError, handleWebhookError, handleNetworkError, handleConfigurationError, classifyWebhookError, isWebhookErrorRetryable, asyncHandler } from "./lib/errorHandler";
 import { retryManager, withRetry } from "./lib/retryManager";
+import { ByteLimitStream, ByteLimitError } from "./lib/byteLimit";
+import { TUS_VERSION, TUS_EXTENSIONS, TUS_CHUNK_CONTENT_TYPE, tusVersionMiddleware, parseTusInteger, parseTusMetadata } from "./lib/tus";
+import { generationQueue } from "./lib/generationQueue";
+import { parseBatchManifest, resolveManifestPersona } from "./lib/batchManifest";
+import { retryScheduler } from "./lib/retryScheduler";
+import { stuckGenerationReaper } from "./lib/stuckGenerationReaper";
+import { uploadReaper } from "./lib/uploadReaper";
+import { generationScheduler, getNextScheduledRun } from "./lib/generationScheduler";
+import { parseCron, minCronIntervalMinutes, CronParseError } from "./lib/cron";
+import { generationEvents, toGenerationStatusResponse } from "./lib/generationEvents";
 import { rawBodyMiddleware, webhookSecurityMiddleware } from "./lib/webhookSecurity";
+import { getGenerationProvider, getDefaultProviderName, n8nGenerationProvider, mockGenerationProvider, renderMockReferenceImage, getMockVideoFile } from "./providers";
 
-// Webhook timeout configuration (in milliseconds)
-const WEBHOOK_TIMEOUT = 60000; // 60 seconds - increased for n8n processing
+// Retry backoff configuration
 const MAX_RETRIES = 3;
 const BASE_RETRY_DELAY = 1000; // 1 second
 
@@ -31,105 +66,215 @@ function calculateRetryDelay(retryCount: number): number {
   return BASE_RETRY_DELAY * Math.pow(2, retryCount);
 }
 
-// Helper function to validate webhook configuration and connectivity
-async function validateWebhookConfiguration(webhookUrl: string, correlationId: string): Promise<void> {
-  // Validate URL format
-  try {
-    const url = new URL(webhookUrl);
-    logger.info('Webhook URL validation passed', {
-      correlationId,
-      protocol: url.protocol,
-      hostname: url.hostname,
-      port: url.port,
-      type: 'webhook_config_validation'
-    });
-  } catch (error) {
-    handleConfigurationError('N8N_WEBHOOK_URL', 'Invalid URL format', correlationId);
+// Base URL for links sent to n8n when there is no request to derive it from (background retries)
+function getPublicBaseUrl(): string {
+  if (process.env.PUBLIC_BASE_URL) {
+    return process.env.PUBLIC_BASE_URL.replace(/\/$/, '');
   }
+  const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+  return domain ? `https://${domain}` : `http://localhost:${process.env.PORT || '5000'}`;
+}
 
-  // Test basic connectivity (POST request with test payload for N8N compatibility)
-  try {
-    logger.info('Testing webhook endpoint connectivity', {
-      correlationId,
-      webhookUrl,
-      type: 'webhook_connectivity_test'
-    });
+// Absolute URLs (e.g. the production BASE_MODEL_IMAGE_*_URL values) are passed through unchanged
+function toPublicUrl(pathOrUrl: string, baseUrl: string): string {
+  if (pathOrUrl.startsWith('http://') || pathOrUrl.startsWith('https://')) {
+    return pathOrUrl;
+  }
+  return `${baseUrl}${pathOrUrl.replace(/ /g, '%20')}`;
+}
 
-    // Use minimal test payload for N8N webhook
-    const testPayload = JSON.stringify({ test: 'connectivity_check' });
-    const connectivityTest = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'Fabbitt-VideoGen/1.0-ConnectivityTest'
-      },
-      body: testPayload,
-      signal: AbortSignal.timeout(5000) // 5 second timeout for connectivity test
-    });
+// Reference images sent when no saved persona is selected
+function getDefaultPersonaImagePaths(): string[] {
+  return [
+    process.env.BASE_MODEL_IMAGE_1_URL || process.env.BASE_MODEL_IMAGE_1 || "/public-objects/base model/basemodel.png",
+    process.env.BASE_MODEL_IMAGE_2_URL || process.env.BASE_MODEL_IMAGE_2 || "/public-objects/base model/basemodel2.png"
+  ];
+}
 
-    logger.info('Webhook connectivity test completed', {
-      correlationId,
-      webhookUrl,
-      status: connectivityTest.status,
-      reachable: connectivityTest.ok,
-      type: 'webhook_connectivity_result'
-    });
-  } catch (error: any) {
-    logger.warn('Webhook connectivity test failed', {
-      correlationId,
-      webhookUrl,
-      error: error.message,
-      errorName: error.name,
-      reachable: false,
-      type: 'webhook_connectivity_result'
+function snapshotBrandPersona(persona: BrandPersona): BrandPersonaSnapshot {
+  return {
+    id: persona.id,
+    name: persona.name,
+    description: persona.description,
+    imagePaths: persona.imagePaths
+  };
+}
+
+type GenerationParameterColumns = Pick<VideoGeneration, "aspectRatio" | "durationSeconds" | "resolution" | "negativePrompt" | "seed" | "generateAudio">;
+
+// Typed model settings stored on a generation; undefined for rows created before they were stored
+function getGenerationParameters(generation: GenerationParameterColumns): GenerationParameters | undefined {
+  const parsed = GenerationParametersSchema.safeParse(generation);
+  return parsed.success ? parsed.data : undefined;
+}
+
+// Helper function to build the webhook payload for a generation from its stored fields
+function buildWebhookPayload(generation: Pick<VideoGeneration, "taskId" | "promptText" | "imagesPaths" | "brandPersona"> & GenerationParameterColumns, baseUrl: string) {
+  // Reconstruct image URLs array from stored paths (for multi-image support)
+  const imageUrls = generation.imagesPaths?.map(path =>
+    `${baseUrl}${path}`
+  ) || [];
+
+  // Generations created before personas were stored fall back to the deployment defaults
+  const persona = generation.brandPersona;
+  const personaImageUrls = (persona ? persona.imagePaths : getDefaultPersonaImagePaths())
+    .map(path => toPublicUrl(path, baseUrl));
+
+  return N8nWebhookPayloadSchema.parse({
+    taskId: generation.taskId,
+    promptText: generation.promptText,
+    image_urls: imageUrls,
+    brandPersonaImage1Url: personaImageUrls[0] ?? null,
+    brandPersonaImage2Url: personaImageUrls[1] ?? null,
+    brandPersonaImageUrls: personaImageUrls,
+    brand_persona_name: persona?.name ?? null,
+    brand_persona: persona?.description ?? null,
+    parameters: getGenerationParameters(generation)
+  });
+}
+
+// Payload to resend for a generation: its stored submission, or a rebuild for rows created before submissions were stored
+function getReplayPayload(generation: VideoGeneration): N8nWebhookPayload {
+  if (generation.submission) {
+    const parsed = GenerationSubmissionSchema.safeParse(generation.submission);
+    if (parsed.success) {
+      return parsed.data.payload;
+    }
+    logger.warn('Stored submission could not be read, rebuilding payload', {
+      taskId: generation.taskId,
+      version: generation.submission.version,
+      type: 'generation_submission_unreadable'
     });
-    // Don't throw here - this is just a warning, the actual call might still work
   }
+  return buildWebhookPayload(generation, getPublicBaseUrl());
 }
 
-// Enhanced error classification with more granular detection
-function determineErrorType(error: any): "webhook_failure" | "network_error" | "timeout" | "validation_error" | "configuration_error" | "unknown" {
-  // Configuration errors
-  if (error instanceof WebhookConfigurationError) {
-    return 'configuration_error';
-  }
+interface SubmissionContext {
+  baseUrl: string;
+  correlationId: string | null;
+  userAgent: string | null;
+}
 
-  // Timeout errors (AbortError from fetch timeout)
-  if (error.name === 'AbortError' || error.message?.includes('timeout') || error.message?.includes('aborted')) {
-    return 'timeout';
-  }
+// Resolves a validated create request into the pending row to insert, including its frozen submission.
+// Throws a 400 AppError when the referenced parent, persona or template is unusable.
+async function prepareGeneration(request: GenerationCreateRequest, userId: string, context: SubmissionContext): Promise<InsertVideoGeneration & { submission: GenerationSubmission }> {
+  const taskId = randomUUID();
 
-  // Network connectivity errors
-  if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED' || error.code === 'ECONNRESET' ||
-      error.code === 'ETIMEDOUT' || error.message?.includes('ENOTFOUND') ||
-      error.message?.includes('Failed to fetch') || error.message?.includes('network')) {
-    return 'network_error';
+  if (request.parentGenerationId) {
+    const parent = await storage.getVideoGenerationById(request.parentGenerationId, userId);
+    if (!parent) {
+      throw new AppError("Parent generation not found", 400, 'VALIDATION_ERROR');
+    }
+    if (parent.status !== "completed" && parent.status !== "failed") {
+      throw new AppError("Only completed or failed generations can be remixed", 400, 'VALIDATION_ERROR');
+    }
   }
 
-  // Validation errors
-  if (error instanceof z.ZodError) {
-    return 'validation_error';
+  // Templates are expanded server-side so the stored prompt always matches the template and values
+  let promptText = request.promptText;
+  let promptTemplateVariables: Record<string, string> | null = null;
+  if (request.promptTemplateId) {
+    const template = await storage.getPromptTemplate(request.promptTemplateId, userId);
+    if (!template) {
+      throw new AppError("Prompt template not found", 400, 'VALIDATION_ERROR');
+    }
+    const values = request.promptTemplateVariables ?? {};
+    const missing = findMissingTemplateVariables(template.body, values);
+    if (missing.length > 0) {
+      throw new AppError(`Missing template variables: ${missing.join(', ')}`, 400, 'VALIDATION_ERROR');
+    }
+    promptText = expandPromptTemplate(template.body, values);
+    promptTemplateVariables = Object.fromEntries(
+      extractTemplateVariables(template.body).map(name => [name, values[name].trim()])
+    );
   }
 
-  // HTTP status-based classification using our enhanced classifier
-  if (error.status || error.statusCode) {
-    const statusCode = error.status || error.statusCode;
-    const classified = classifyWebhookError(statusCode);
-
-    switch (classified) {
-      case 'timeout': return 'timeout';
-      case 'network_unreachable': return 'network_error';
-      case 'rate_limited': return 'network_error';
-      case 'server_error': return 'network_error';
-      case 'authentication_failed':
-      case 'endpoint_not_found':
-      case 'client_error':
-        return 'webhook_failure';
-      default: return 'webhook_failure';
+  // Resolve the persona now so edits to it never change what this generation sends
+  let brandPersona: BrandPersonaSnapshot;
+  if (request.brandPersonaId) {
+    const persona = await storage.getBrandPersona(request.brandPersonaId, userId);
+    if (!persona) {
+      throw new AppError("Brand persona not found", 400, 'VALIDATION_ERROR');
     }
+    brandPersona = snapshotBrandPersona(persona);
+  } else {
+    brandPersona = {
+      id: null,
+      name: null,
+      description: request.brand_persona || null,
+      imagePaths: getDefaultPersonaImagePaths()
+    };
   }
 
-  return 'unknown';
+  const parameters: GenerationParameters = {
+    aspectRatio: request.aspectRatio ?? DEFAULT_GENERATION_PARAMETERS.aspectRatio,
+    durationSeconds: request.durationSeconds ?? DEFAULT_GENERATION_PARAMETERS.durationSeconds,
+    resolution: request.resolution ?? DEFAULT_GENERATION_PARAMETERS.resolution,
+    negativePrompt: request.negativePrompt || DEFAULT_GENERATION_PARAMETERS.negativePrompt,
+    seed: request.seed ?? DEFAULT_GENERATION_PARAMETERS.seed,
+    generateAudio: request.generateAudio ?? DEFAULT_GENERATION_PARAMETERS.generateAudio
+  };
+
+  const submission: GenerationSubmission = {
+    version: GENERATION_SUBMISSION_VERSION,
+    payload: buildWebhookPayload({
+      taskId,
+      promptText,
+      imagesPaths: request.image_urls || null,
+      brandPersona,
+      ...parameters
+    }, context.baseUrl),
+    request: {
+      correlationId: context.correlationId,
+      baseUrl: context.baseUrl,
+      userAgent: context.userAgent,
+      submittedAt: new Date().toISOString()
+    }
+  };
+
+  return {
+    taskId,
+    userId,
+    promptText,
+    promptTemplateId: request.promptTemplateId ?? null,
+    promptTemplateVariables,
+    imagesPaths: request.image_urls || undefined,
+    status: "pending" as const,
+    provider: request.provider || getDefaultProviderName(),
+    parentGenerationId: request.parentGenerationId ?? null,
+    brandPersonaId: brandPersona.id,
+    brandPersona,
+    ...parameters,
+    submission
+  };
+}
+
+// Creates a pending generation and its dispatch job; shared by the create route and scheduled runs
+async function submitGeneration(
+  request: GenerationCreateRequest,
+  userId: string,
+  context: SubmissionContext,
+  overrides: Partial<InsertVideoGeneration> = {}
+): Promise<{ generation: VideoGeneration; job: GenerationJob }> {
+  const prepared = await prepareGeneration(request, userId, context);
+
+  // Persist the pending generation and its dispatch job; the queue worker calls n8n
+  const { generation, job } = await storage.createVideoGenerationWithJob({ ...prepared, ...overrides }, {
+    payload: prepared.submission.payload,
+    correlationId: context.correlationId
+  });
+  generationQueue.notify();
+
+  logger.info('Generation queued for dispatch', {
+    correlationId: context.correlationId ?? undefined,
+    taskId: generation.taskId,
+    jobId: job.id,
+    provider: generation.provider,
+    scheduledGenerationId: generation.scheduledGenerationId,
+    type: 'generation_queued'
+  });
+
+  return { generation, job };
 }
 
 // Helper function to generate webhook health recommendations
@@ -177,330 +322,166 @@ function generateWebhookHealthRecommendations(
   return recommendations;
 }
 
-// Helper function to sanitize payload for logging (remove sensitive data)
-function sanitizePayloadForLogging(payload: any): any {
-  if (!payload || typeof payload !== 'object') return payload;
-
-  const sanitized = { ...payload };
-
-  // List of keys that might contain sensitive data
-  const sensitiveKeys = ['token', 'password', 'key', 'secret', 'auth', 'authorization'];
-
-  for (const key of Object.keys(sanitized)) {
-    if (sensitiveKeys.some(sensitiveKey => key.toLowerCase().includes(sensitiveKey))) {
-      sanitized[key] = '[REDACTED]';
-    }
-  }
-
-  return sanitized;
-}
-
-// Helper function to send webhook with timeout
-async function sendWebhookWithTimeout(url: string, payload: any, timeout: number = WEBHOOK_TIMEOUT, correlationId?: string) {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-  const startTime = Date.now();
-
-  const requestHeaders = {
-    'Content-Type': 'application/json',
-    'User-Agent': 'Fabbitt-VideoGen/1.0-ConnectivityTest'
-  };
-  const requestBody = JSON.stringify(payload);
-  const sanitizedPayload = sanitizePayloadForLogging(payload);
+// Queue worker handler: dispatches a queued generation to its provider and moves its status forward
+async function processGenerationJob(job: GenerationJob): Promise<void> {
+  const correlationId = job.correlationId || job.taskId;
+  const generation = await storage.getVideoGenerationByTaskId(job.taskId, job.userId);
 
-  // Enhanced structured logging for N8N POST request
-  logger.info('N8N webhook request initiated', {
-    correlationId,
-    webhookUrl: url,
-    method: 'POST',
-    headers: requestHeaders,
-    payloadSize: requestBody.length,
-    payload: sanitizedPayload,
-    timeout,
-    type: 'n8n_webhook_request_start'
-  });
-
-  // Verbose console logging for production debugging (temporary)
-  console.log('=== N8N WEBHOOK POST REQUEST ===');
-  console.log('Correlation ID:', correlationId);
-  console.log('URL:', url);
-
-  // Production debugging console logs for webhook URL verification
-  console.log('=== WEBHOOK URL VERIFICATION ===');
-  console.log('ACTUAL URL BEING CALLED (webhook):', url);
-  console.log('🧪 Test URL (from env):', process.env.N8N_WEBHOOK_URL);
-  console.log('🔗 URLs match:', url === process.env.N8N_WEBHOOK_URL);
-  console.log('=== PAYLOAD COMPARISON ===');
-  console.log('📦 Test payload structure: { test: "connectivity_check" }');
-  console.log('📦 Current payload keys:', Object.keys(payload));
-  console.log('📏 Current payload size:', JSON.stringify(payload).length, 'bytes');
-  console.log('📏 Test payload size: ~32 bytes');
-  console.log('============================');
-  console.log('Method: POST');
-  console.log('Headers:', JSON.stringify(requestHeaders, null, 2));
-  console.log('Request Body Size:', requestBody.length, 'bytes');
-  console.log('Request Body (FULL PAYLOAD):', JSON.stringify(payload, null, 2));
-  console.log('Request Body (sanitized):', JSON.stringify(sanitizedPayload, null, 2));
-  console.log('Timeout:', timeout, 'ms');
-  console.log('Timestamp:', new Date().toISOString());
-  console.log('=====================================');
-
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: requestHeaders,
-      body: requestBody,
-      signal: controller.signal
+  // Skip rows that were already dispatched (e.g. a reclaimed job whose worker crashed after the call)
+  if (!generation || generation.status !== "pending") {
+    logger.warn('Skipping generation job for non-pending generation', {
+      correlationId,
+      taskId: job.taskId,
+      jobId: job.id,
+      status: generation?.status,
+      type: 'generation_job_skipped'
     });
+    return;
+  }
 
-    const duration = Date.now() - startTime;
-
-    // Clone response to read body without consuming it
-    const responseClone = response.clone();
-    let responseText = '';
-    try {
-      responseText = await responseClone.text();
-    } catch (bodyError) {
-      responseText = '[Could not read response body]';
-      logger.warn('Failed to read webhook response body', {
-        correlationId,
-        error: bodyError instanceof Error ? bodyError.message : String(bodyError),
-        type: 'webhook_response_body_read_error'
-      });
-    }
-
-    const responseHeaders = Object.fromEntries(response.headers.entries());
+  const provider = getGenerationProvider(generation.provider);
+  const webhookResult = await provider.submit(generation, job.payload as N8nWebhookPayload, correlationId);
 
-    // Enhanced structured logging for N8N POST response
-    logger.info('N8N webhook response received', {
+  if (!webhookResult.success) {
+    logger.error('Webhook call failed', {
       correlationId,
-      webhookUrl: url,
-      status: response.status,
-      statusText: response.statusText,
-      ok: response.ok,
-      headers: responseHeaders,
-      bodySize: responseText.length,
-      duration,
-      type: 'n8n_webhook_response_success'
+      taskId: job.taskId,
+      provider: provider.name,
+      attempts: webhookResult.attempts,
+      totalDuration: webhookResult.totalDuration,
+      errorDetails: webhookResult.errorDetails,
+      type: 'generation_webhook_failed'
     });
 
-    // Verbose console logging for production debugging
-    console.log('=== N8N WEBHOOK POST RESPONSE ===');
-    console.log('Correlation ID:', correlationId);
-    console.log('Status:', response.status);
-    console.log('Status Text:', response.statusText);
-    console.log('Response OK:', response.ok);
-    console.log('Duration:', duration, 'ms');
-    console.log('Response Headers:', JSON.stringify(responseHeaders, null, 2));
-    console.log('Response Body Size:', responseText.length, 'bytes');
-    console.log('Response Body:', responseText);
-    console.log('Timestamp:', new Date().toISOString());
-    console.log('====================================');
-
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    const duration = Date.now() - startTime;
-
-    const errorType = determineErrorType(error);
-    const retryable = isWebhookErrorRetryable((error as any)?.status || 0);
-
-    // Enhanced structured logging for N8N POST error
-    logger.error('N8N webhook request failed', {
-      correlationId,
-      webhookUrl: url,
-      error: error instanceof Error ? error.message : String(error),
-      errorName: error instanceof Error ? error.name : 'Unknown',
-      errorType,
-      retryable,
-      duration,
-      timeout,
-      type: 'n8n_webhook_request_error'
+    // Schedule the next automatic retry while the generation still has retries left
+    const retryCount = parseInt(generation.retryCount || "0");
+    const maxRetries = parseInt(generation.maxRetries || "3");
+    const nextRetryAt = retryCount < maxRetries
+      ? new Date(Date.now() + calculateRetryDelay(retryCount))
+      : null;
+
+    // Providers may already have recorded a more specific failure (e.g. n8n HTTP errors); keep it
+    const current = await storage.getVideoGenerationByTaskId(job.taskId, job.userId);
+    await storage.transitionVideoGeneration(job.taskId, job.userId, ["pending", "failed"], {
+      status: "failed",
+      errorMessage: current?.errorMessage || `Webhook failed after ${webhookResult.attempts} attempts`,
+      errorDetails: current?.errorDetails || webhookResult.errorDetails,
+      errorType: current?.errorType || "unknown",
+      nextRetryAt
     });
-
-    // Verbose console logging for production debugging
-    console.log('=== N8N WEBHOOK POST ERROR ===');
-    console.log('Correlation ID:', correlationId);
-    console.log('URL:', url);
-    console.log('Duration before error:', duration, 'ms');
-    console.log('Error Type:', errorType);
-    console.log('Retryable:', retryable);
-    console.log('Error Details:');
-    if (error instanceof Error) {
-      console.log('  Name:', error.name);
-      console.log('  Message:', error.message);
-      console.log('  Stack:', error.stack);
-      console.log('  Code:', (error as any).code);
-      console.log('  Status:', (error as any).status);
-    } else {
-      console.log('  Error (non-Error object):', String(error));
-    }
-    console.log('Timestamp:', new Date().toISOString());
-    console.log('===============================');
-
-    throw error;
-  }
-}
-
-// Enhanced webhook handler with retry manager and error capture
-async function handleWebhookCall(taskId: string, webhookPayload: any, correlationId: string): Promise<{
-  success: boolean;
-  errorDetails?: any;
-  attempts: number;
-  totalDuration: number;
-}> {
-  const n8nWebhookUrl = process.env.N8N_WEBHOOK_URL;
-  if (!n8nWebhookUrl) {
-    handleConfigurationError('N8N_WEBHOOK_URL', 'Environment variable not set', correlationId);
+    return;
   }
 
-  // Validate webhook configuration and test connectivity
-  await validateWebhookConfiguration(n8nWebhookUrl, correlationId);
-
-  logger.info('Starting webhook call process', {
+  logger.info('Webhook call completed successfully', {
     correlationId,
-    taskId,
-    webhookUrl: n8nWebhookUrl,
-    payloadSize: JSON.stringify(webhookPayload).length,
-    type: 'webhook_call_start'
+    taskId: job.taskId,
+    provider: provider.name,
+    attempts: webhookResult.attempts,
+    totalDuration: webhookResult.totalDuration,
+    type: 'generation_webhook_success'
   });
 
-  // Use retry manager for webhook calls
-  const webhookOperation = async () => {
-    logger.debug('Executing webhook call', {
+  // Update status to processing on success, unless the user cancelled while it was being submitted
+  const dispatched = await storage.transitionVideoGeneration(job.taskId, job.userId, ["pending"], { status: "processing" });
+  if (!dispatched) {
+    logger.info('Generation cancelled during dispatch, forwarding cancel', {
       correlationId,
-      taskId,
-      url: n8nWebhookUrl,
-      payloadSize: JSON.stringify(webhookPayload).length,
-      type: 'webhook_call_attempt'
-    });
-
-    // Record attempt time
-    await storage.updateVideoGeneration(taskId, { 
-      lastAttemptAt: new Date() 
+      taskId: job.taskId,
+      provider: provider.name,
+      type: 'generation_cancelled_during_dispatch'
     });
+    await provider.cancel(generation, correlationId);
+  }
+}
 
-    const webhookResponse = await sendWebhookWithTimeout(n8nWebhookUrl, webhookPayload, WEBHOOK_TIMEOUT, correlationId);
-    
-    // Always capture response body for analysis
-    let responseBody: string = "";
-    try {
-      responseBody = await webhookResponse.text();
-    } catch (bodyError) {
-      logger.warn('Failed to read webhook response body', {
-        correlationId,
-        taskId,
-        error: bodyError,
-        type: 'webhook_response_body_error'
-      });
-      responseBody = "Failed to read response body";
-    }
+// Callback outputs as asset rows. Flows that only send imageGenerationPath/videoPath become single assets;
+// variants without an index are numbered in order within their kind, and the first video is the default pick.
+type CallbackAsset = Omit<InsertGenerationAsset, 'generationId'> & { variantIndex: number; isPick: boolean };
 
-    if (!webhookResponse.ok) {
-      const errorType = determineErrorType({ status: webhookResponse.status });
-      
-      const errorDetails = {
-        status: webhookResponse.status,
-        statusText: webhookResponse.statusText,
-        body: responseBody,
-        headers: Object.fromEntries(webhookResponse.headers.entries()),
-        timestamp: new Date().toISOString()
-      };
+function normalizeCallbackAssets(callback: GenerationCallback): CallbackAsset[] {
+  const reported = callback.assets && callback.assets.length > 0
+    ? callback.assets
+    : [
+        ...(callback.videoPath ? [{ kind: "video" as const, path: callback.videoPath }] : []),
+        ...(callback.imageGenerationPath ? [{ kind: "image" as const, path: callback.imageGenerationPath }] : [])
+      ];
 
-      // Update database with error details
-      await storage.updateVideoGeneration(taskId, {
-        status: "failed",
-        errorMessage: `Webhook failed with status ${webhookResponse.status}: ${webhookResponse.statusText}`,
-        errorDetails,
-        errorType,
-        webhookResponseStatus: webhookResponse.status.toString(),
-        webhookResponseBody: responseBody
-      });
+  const nextIndex: Record<string, number> = {};
+  const seen = new Set<string>();
+  const assets = reported.map((asset): CallbackAsset => {
+    const variantIndex = asset.variantIndex ?? nextIndex[asset.kind] ?? 0;
+    nextIndex[asset.kind] = Math.max(nextIndex[asset.kind] ?? 0, variantIndex + 1);
 
-      // Create error for retry manager
-      const error = new Error(`Webhook failed with status ${webhookResponse.status}: ${webhookResponse.statusText}`);
-      (error as any).status = webhookResponse.status;
-      (error as any).statusCode = webhookResponse.status;
-      throw error;
+    const key = `${asset.kind}:${variantIndex}`;
+    if (seen.has(key)) {
+      throw new AppError(`Duplicate ${asset.kind} variant ${variantIndex} in callback assets`, 400, 'VALIDATION_ERROR');
     }
+    seen.add(key);
 
-    // Success case - return response for logging
     return {
-      status: webhookResponse.status,
-      body: responseBody,
-      headers: Object.fromEntries(webhookResponse.headers.entries())
+      kind: asset.kind,
+      path: asset.path,
+      mime: asset.mime ?? null,
+      sizeBytes: asset.sizeBytes ?? null,
+      durationSeconds: asset.durationSeconds ?? null,
+      width: asset.width ?? null,
+      height: asset.height ?? null,
+      variantIndex,
+      isPick: false
     };
-  };
-
-  try {
-    const result = await retryManager.retryWebhook(
-      webhookOperation,
-      n8nWebhookUrl,
-      correlationId
-    );
-
-    if (result.success) {
-      logger.info('Webhook call succeeded', {
-        correlationId,
-        taskId,
-        attempts: result.finalAttempt,
-        totalDuration: result.totalDuration,
-        type: 'webhook_call_success'
-      });
-
-      return {
-        success: true,
-        attempts: result.finalAttempt,
-        totalDuration: result.totalDuration
-      };
-    } else {
-      const errorDetails = {
-        error: result.error?.message,
-        attempts: result.attempts,
-        totalDuration: result.totalDuration,
-        finalAttempt: result.finalAttempt,
-        circuitBreakerTripped: result.circuitBreakerTripped
-      };
+  });
 
-      logger.error('Webhook call failed after all retries', {
-        correlationId,
-        taskId,
-        ...errorDetails,
-        type: 'webhook_call_failed'
-      });
+  const firstVideo = assets
+    .filter(asset => asset.kind === "video")
+    .sort((a, b) => a.variantIndex - b.variantIndex)[0];
+  if (firstVideo) firstVideo.isPick = true;
+  return assets;
+}
 
-      return {
-        success: false,
-        errorDetails,
-        attempts: result.finalAttempt,
-        totalDuration: result.totalDuration
-      };
-    }
+// Applies a terminal result reported by a provider (n8n callback or local mock completion).
+// Results the state machine does not allow, e.g. one arriving after cancellation, are rejected:
+// found is true, nothing is updated and rejectedFrom holds the status the generation was in.
+async function applyGenerationCallback(callback: GenerationCallback): Promise<{ found: boolean; updated?: VideoGeneration; rejectedFrom?: VideoGeneration["status"] }> {
+  const ownerId = await storage.getVideoGenerationOwnerId(callback.taskId);
+  if (!ownerId) return { found: false };
+
+  const assets = normalizeCallbackAssets(callback);
+  const pickedVideo = assets.find(asset => asset.kind === "video" && asset.isPick);
+  const firstImage = assets
+    .filter(asset => asset.kind === "image")
+    .sort((a, b) => a.variantIndex - b.variantIndex)[0];
+
+  const updated = await storage.transitionVideoGeneration(callback.taskId, ownerId, generationTransitionSources(callback.status), {
+    status: callback.status,
+    imageGenerationPath: firstImage?.path || null,
+    videoPath: pickedVideo?.path || null,
+    errorMessage: callback.errorMessage || null
+  }, assets);
+  if (!updated) {
+    const current = await storage.getVideoGenerationByTaskId(callback.taskId, ownerId);
+    return { found: true, rejectedFrom: current?.status };
+  }
+  return { found: true, updated };
+}
 
-  } catch (error: any) {
-    const errorDetails = {
-      message: error.message,
-      type: error.name,
-      code: error.code,
-      stack: error.stack,
-      timestamp: new Date().toISOString()
-    };
+// Records intermediate progress (n8n progress callback or local mock stage). Like results, progress
+// only applies while the generation is in flight: found is true but nothing is updated otherwise.
+async function applyGenerationProgress(progress: GenerationProgressCallback): Promise<{ found: boolean; updated?: VideoGeneration }> {
+  const ownerId = await storage.getVideoGenerationOwnerId(progress.taskId);
+  if (!ownerId) return { found: false };
 
-    logger.error('Webhook call processing error', {
-      correlationId,
-      taskId,
-      error: error.message,
-      type: 'webhook_call_error'
-    });
+  const updated = await storage.recordGenerationStage(progress.taskId, ownerId, progress);
+  return { found: true, updated };
+}
 
-    return {
-      success: false,
-      errorDetails,
-      attempts: 1,
-      totalDuration: 0
-    };
-  }
+// Queue worker handler: a job that used up its attempts leaves its generation failed
+async function failExhaustedGenerationJob(job: GenerationJob, error: string): Promise<void> {
+  await storage.transitionVideoGeneration(job.taskId, job.userId, ["pending"], {
+    status: "failed",
+    errorMessage: `Dispatch failed after ${job.maxAttempts} attempts: ${error}`,
+    errorDetails: { jobId: job.id, attempts: job.attempts, error, timestamp: new Date().toISOString() },
+    errorType: "unknown"
+  });
 }
 
 const upload = multer({
@@ -509,7 +490,7 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024 // 10MB
   },
   fileFilter: (req, file, cb) => {
-    const allowedMimes = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/gif'];
+    const allowedMimes: readonly string[] = UPLOAD_IMAGE_TYPES;
     if (allowedMimes.includes(file.mimetype)) {
       cb(null, true);
     } else {
@@ -518,6 +499,20 @@ const upload = multer({
   }
 });
 
+// Presigned staging URLs must be used promptly; completing is allowed a while longer for slow uploads
+const DIRECT_UPLOAD_URL_TTL_SEC = 15 * 60;
+const DIRECT_UPLOAD_COMPLETE_WINDOW_MS = 60 * 60 * 1000;
+// Signed local-storage PUTs are capped at the largest upload the app hands out URLs for
+const LOCAL_STORAGE_MAX_PUT_BYTES = DIRECT_UPLOAD_MAX_BYTES;
+// Unfinished resumable uploads can be resumed for a day
+const RESUMABLE_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Keeps a safe extension from a user-supplied filename for the published object name
+function publishedUploadFilename(id: string, originalName: string): string {
+  const extension = path.extname(originalName).toLowerCase();
+  return `${id}${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ''}`;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const objectStorageService = new ObjectStorageService();
 
@@ -530,9 +525,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (origin && (origin.includes('localhost') || origin.includes('replit'))) {
       res.header('Access-Control-Allow-Origin', origin);
     }
-    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-    if (req.method === 'OPTIONS') {
+    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, HEAD, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Tus-Resumable, Upload-Length, Upload-Offset, Upload-Metadata');
+    res.header('Access-Control-Expose-Headers', `Location, Tus-Resumable, Tus-Version, Tus-Extension, Tus-Max-Size, Upload-Offset, Upload-Length, Upload-Expires, ${TUS_OBJECT_PATH_HEADER}`);
+    // tus answers OPTIONS itself for protocol discovery
+    if (req.method === 'OPTIONS' && !req.path.startsWith(TUS_UPLOAD_ROUTE)) {
       return res.sendStatus(200);
     }
     next();
@@ -620,6 +617,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Generation dispatch queue status
+  app.get("/api/monitoring/generation-queue", async (req, res) => {
+    try {
+      res.json({
+        worker: generationQueue.getStats(),
+        retryScheduler: retryScheduler.getStats(),
+        stuckGenerationReaper: stuckGenerationReaper.getStats(),
+        generationScheduler: generationScheduler.getStats(),
+        jobs: await storage.getGenerationJobCounts(),
+        correlationId: (req as any).correlationId
+      });
+    } catch (error) {
+      console.error('Generation queue status error:', error);
+      res.status(500).json({ error: "Failed to retrieve generation queue status" });
+    }
+  });
+
   // Webhook connectivity test endpoint
   app.get("/api/test-webhook-connectivity", async (req, res) => {
     const correlationId = (req as any).correlationId;
@@ -891,7 +905,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enhanced webhook failure analysis endpoint
-  app.get("/api/monitoring/webhook-failures", async (req, res) => {
+  app.get("/api/monitoring/webhook-failures", isAuthenticated, async (req: any, res) => {
     try {
       const {
         limit = '50',
@@ -903,58 +917,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const limitNum = Math.min(parseInt(limit as string), 500); // Max 500 results
       const sinceDate = since ? new Date(since as string) : new Date(Date.now() - 24 * 60 * 60 * 1000); // Default: last 24 hours
+      const filters = {
+        since: sinceDate,
+        errorType: errorType as string | undefined,
+        correlationId: searchCorrelationId as string | undefined,
+        taskId: taskId as string | undefined
+      };
 
-      // Get failed video generations with webhook errors
-      const failedGenerations = await storage.getFailedVideoGenerations(limitNum, sinceDate);
-
-      // Filter by additional criteria if provided
-      let filteredGenerations = failedGenerations;
-
-      if (errorType) {
-        filteredGenerations = filteredGenerations.filter(g => g.errorType === errorType);
-      }
-
-      if (searchCorrelationId) {
-        filteredGenerations = filteredGenerations.filter(g =>
-          g.taskId === searchCorrelationId
-        );
-      }
-
-      if (taskId) {
-        filteredGenerations = filteredGenerations.filter(g => g.taskId === taskId);
-      }
-
-      // Aggregate error statistics
-      const errorStats = filteredGenerations.reduce((stats, gen) => {
-        const type = gen.errorType || 'unknown';
-        stats[type] = (stats[type] || 0) + 1;
-        return stats;
-      }, {} as Record<string, number>);
-
-      const statusStats = filteredGenerations.reduce((stats, gen) => {
-        const status = gen.webhookResponseStatus || 'no_response';
-        stats[status] = (stats[status] || 0) + 1;
-        return stats;
-      }, {} as Record<string, number>);
+      // Failed deliveries come from the per-attempt webhook log
+      const [failures, statistics] = await Promise.all([
+        storage.getFailedWebhookAttempts(req.user.claims.sub, filters, limitNum),
+        storage.getFailedWebhookAttemptStats(req.user.claims.sub, filters)
+      ]);
 
       res.json({
-        failures: filteredGenerations.map(gen => ({
-          id: gen.id,
-          taskId: gen.taskId,
-          status: gen.status,
-          errorMessage: gen.errorMessage,
-          errorType: gen.errorType,
-          errorDetails: gen.errorDetails,
-          webhookResponseStatus: gen.webhookResponseStatus,
-          webhookResponseBody: gen.webhookResponseBody,
-          retryCount: gen.retryCount,
-          lastAttemptAt: gen.lastAttemptAt,
-          createdAt: gen.createdAt
+        failures: failures.map(attempt => ({
+          id: attempt.id,
+          taskId: attempt.taskId,
+          correlationId: attempt.correlationId,
+          kind: attempt.kind,
+          attempt: attempt.attempt,
+          errorType: attempt.errorType,
+          errorMessage: attempt.errorMessage,
+          webhookResponseStatus: attempt.responseStatus,
+          webhookResponseBody: attempt.responseBody,
+          latencyMs: attempt.latencyMs,
+          requestHash: attempt.requestHash,
+          createdAt: attempt.createdAt
         })),
         statistics: {
-          total: filteredGenerations.length,
-          errorTypes: errorStats,
-          responseStatuses: statusStats,
+          ...statistics,
           timeRange: {
             since: sinceDate.toISOString(),
             until: new Date().toISOString()
@@ -969,12 +961,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Webhook request tracing endpoint
-  app.get("/api/monitoring/webhook-trace/:correlationId", async (req, res) => {
+  app.get("/api/monitoring/webhook-trace/:correlationId", isAuthenticated, async (req: any, res) => {
     try {
       const { correlationId: traceId } = req.params;
+      const userId = req.user.claims.sub;
 
-      // Get generation by task ID
-      const generation = await storage.getVideoGenerationByTaskId(traceId);
+      // The trace ID may be a request correlation ID or a task ID
+      const attempts = await storage.getWebhookAttemptTrace(traceId, userId);
+      const generation = await storage.getVideoGenerationByTaskId(attempts[0]?.taskId || traceId, userId);
 
       if (!generation) {
         return res.status(404).json({
@@ -983,6 +977,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const lastAttempt = attempts[attempts.length - 1];
+      const lastStatus = lastAttempt?.responseStatus ?? (generation.webhookResponseStatus ? parseInt(generation.webhookResponseStatus) : null);
+
       // Compile trace information
       const trace = {
         generation: {
@@ -1004,12 +1001,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
           maxRetries: generation.maxRetries,
           nextRetryAt: generation.nextRetryAt
         },
+        attempts: attempts.map(attempt => ({
+          id: attempt.id,
+          correlationId: attempt.correlationId,
+          kind: attempt.kind,
+          attempt: attempt.attempt,
+          url: attempt.url,
+          requestHash: attempt.requestHash,
+          responseStatus: attempt.responseStatus,
+          responseBody: attempt.responseBody,
+          latencyMs: attempt.latencyMs,
+          errorType: attempt.errorType,
+          errorMessage: attempt.errorMessage,
+          createdAt: attempt.createdAt
+        })),
         analysis: {
           isRetryable: generation.errorType ?
-            isWebhookErrorRetryable(parseInt(generation.webhookResponseStatus || '0')) :
+            isWebhookErrorRetryable(lastStatus || 0) :
             null,
-          errorClassification: generation.webhookResponseStatus ?
-            classifyWebhookError(parseInt(generation.webhookResponseStatus)) :
+          errorClassification: lastStatus ?
+            classifyWebhookError(lastStatus) :
             null,
           suggestedActions: [] as string[]
         }
@@ -1040,7 +1051,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Real-time webhook health monitoring dashboard
-  app.get("/api/monitoring/webhook-health", async (req, res) => {
+  app.get("/api/monitoring/webhook-health", isAuthenticated, async (req: any, res) => {
     try {
       const {
         period = '1h' // 1h, 6h, 24h, 7d
@@ -1056,8 +1067,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const since = new Date(Date.now() - periodMs);
 
       // Get recent webhook attempts (both successful and failed)
-      const recentGenerations = await storage.getVideoGenerations(100, since);
-      const failedGenerations = await storage.getFailedVideoGenerations(100, since);
+      const userId = req.user.claims.sub;
+      const recentGenerations = await storage.getVideoGenerations(userId, 100, since);
+      const failedGenerations = await storage.getFailedVideoGenerations(userId, 100, since);
 
       // Calculate webhook health metrics
       const totalAttempts = recentGenerations.length;
@@ -1170,7 +1182,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Live webhook activity feed
-  app.get("/api/monitoring/webhook-activity", async (req, res) => {
+  app.get("/api/monitoring/webhook-activity", isAuthenticated, async (req: any, res) => {
     try {
       const {
         limit = '20',
@@ -1179,12 +1191,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const limitNum = Math.min(parseInt(limit as string), 100);
       const includeSuccess = includeSuccessful === 'true';
+      const userId = req.user.claims.sub;
 
       // Get recent webhook activities
       const activities = [];
 
       if (includeSuccess) {
-        const recentGenerations = await storage.getVideoGenerations(limitNum, undefined);
+        const recentGenerations = await storage.getVideoGenerations(userId, limitNum, undefined);
         activities.push(...recentGenerations.map(gen => ({
           type: 'webhook_call',
           taskId: gen.taskId,
@@ -1197,7 +1210,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })));
       }
 
-      const failedGenerations = await storage.getFailedVideoGenerations(limitNum);
+      const failedGenerations = await storage.getFailedVideoGenerations(userId, limitNum);
       activities.push(...failedGenerations.map(gen => ({
         type: 'webhook_failure',
         taskId: gen.taskId,
@@ -1235,7 +1248,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!file) {
         return res.status(404).json({ error: "File not found" });
       }
-      await objectStorageService.downloadObject(file, res);
+      await objectStorageService.downloadObject(file, req, res);
     } catch (error) {
       console.error("Error serving public object:", error);
       return res.status(500).json({ error: "Internal server error" });
@@ -1253,24 +1266,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const fileExtension = req.file.originalname.split('.').pop() || 'jpg';
       const filename = `${randomUUID()}.${fileExtension}`;
 
-      // Get public upload URL
-      const uploadURL = await objectStorageService.getPublicUploadURL(filename);
-      
-      // Upload file using the presigned URL
-      const uploadResponse = await fetch(uploadURL, {
-        method: 'PUT',
-        body: req.file.buffer,
-        headers: {
-          'Content-Type': req.file.mimetype
-        }
-      });
-
-      if (!uploadResponse.ok) {
-        throw new Error(`Upload failed: ${uploadResponse.statusText}`);
-      }
-
-      // Create public URL path
-      const publicPath = `/public-objects/uploads/${filename}`;
+      // Write the file through the configured storage driver
+      const publicPath = await objectStorageService.uploadPublicObject(filename, req.file.buffer, req.file.mimetype);
       const mediaUrl = publicPath;
 
       const response = UploadResponseSchema.parse({
@@ -1285,198 +1282,737 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Auth routes
-  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
+  // Direct uploads: the caller PUTs the file to a presigned staging URL, so it never passes through this server.
+  // API-only; the web client uploads through tus. Uploads never completed are removed by the upload reaper.
+  app.post("/api/uploads/presign", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      res.json(user);
+      const { filename, contentType, size, sha256 } = DirectUploadPresignRequestSchema.parse(req.body);
+
+      const { stagingPath, uploadURL } = await objectStorageService.getStagedUploadURL(contentType, DIRECT_UPLOAD_URL_TTL_SEC);
+      const upload = await storage.createMediaUpload({
+        userId,
+        filename,
+        contentType,
+        sizeBytes: size,
+        sha256,
+        stagingPath,
+        expiresAt: new Date(Date.now() + DIRECT_UPLOAD_COMPLETE_WINDOW_MS)
+      });
+
+      res.status(201).json(DirectUploadPresignResponseSchema.parse({
+        uploadId: upload.id,
+        uploadURL,
+        method: "PUT",
+        headers: { "Content-Type": contentType },
+        expiresAt: new Date(Date.now() + DIRECT_UPLOAD_URL_TTL_SEC * 1000).toISOString()
+      }));
     } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error('Presign upload error:', error);
+      res.status(500).json({ error: "Failed to prepare upload" });
     }
   });
 
-
-
-  // List files in object storage
-  app.get("/api/storage/list/:directory?", async (req, res) => {
+  // Verifies the stored object against what was declared at presign time, then publishes it
+  app.post("/api/uploads/:id/complete", isAuthenticated, async (req: any, res) => {
     try {
-      const { directory = "public" } = req.params;
-      const objectStorageService = new ObjectStorageService();
-      
-      if (directory === "public") {
-        const searchPaths = objectStorageService.getPublicObjectSearchPaths();
-        const files = [];
-        
-        for (const searchPath of searchPaths) {
-          const { bucketName, objectName } = parseObjectPath(searchPath);
-          const bucket = objectStorageClient.bucket(bucketName);
-          
-          const [bucketFiles] = await bucket.getFiles({
-            prefix: objectName + "/",
-            delimiter: "/"
-          });
-          
-          files.push(...bucketFiles.map(file => ({
-            name: file.name,
-            size: file.metadata.size,
-            updated: file.metadata.updated,
-            contentType: file.metadata.contentType
-          })));
-        }
-        
-        res.json({ files, directory: "public" });
-      } else {
-        res.status(400).json({ error: "Only public directory listing is supported" });
+      const userId = req.user.claims.sub;
+      const upload = await storage.getMediaUpload(req.params.id, userId);
+      if (!upload) {
+        return res.status(404).json({ error: "Upload not found" });
+      }
+      if (upload.status === "completed") {
+        return res.json(UploadResponseSchema.parse({ objectPath: upload.objectPath, mediaUrl: upload.objectPath }));
+      }
+      if (upload.status === "rejected") {
+        return res.status(409).json({ error: upload.error || "Upload was rejected" });
       }
-    } catch (error) {
-      console.error("Error listing storage files:", error);
-      res.status(500).json({ error: "Failed to list files" });
-    }
-  });
 
-  // Media serving endpoint
-  app.get("/api/media/:key", async (req, res) => {
-    try {
-      const key = decodeURIComponent(req.params.key);
-      const objectPath = `/objects/${key}`;
-      
-      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
-      await objectStorageService.downloadObject(objectFile, res);
-    } catch (error) {
-      console.error('Media serving error:', error);
-      if (error instanceof ObjectNotFoundError) {
-        return res.status(404).json({ error: "Media not found" });
+      const stored = await objectStorageService.inspectStagedUpload(upload.stagingPath);
+      if (!stored && upload.expiresAt.getTime() > Date.now()) {
+        return res.status(409).json({ error: "File has not been uploaded yet" });
       }
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
 
-  // Create video generation - public endpoint
-  app.post("/api/generations", async (req, res) => {
-    try {
-      // Enhanced logging for debugging validation issues
-      if (req.body.image_urls) {
-        logger.debug('Request image_urls validation', {
+      const storedType = stored?.contentType?.split(';')[0].trim().toLowerCase();
+      const problem = !stored ? "Upload expired before the file arrived"
+        : upload.expiresAt.getTime() <= Date.now() ? "Upload expired"
+        : stored.size !== upload.sizeBytes ? `Uploaded ${stored.size} bytes, expected ${upload.sizeBytes}`
+        : storedType !== upload.contentType ? `Uploaded content type ${storedType ?? "unknown"}, expected ${upload.contentType}`
+        : stored.sha256 !== upload.sha256 ? "Uploaded file does not match the declared SHA-256"
+        : null;
+
+      if (problem) {
+        await objectStorageService.discardStagedUpload(upload.stagingPath);
+        await storage.finishMediaUpload(upload.id, userId, { error: problem });
+        logger.warn('Direct upload rejected', {
           correlationId: (req as any).correlationId,
-          image_urls: req.body.image_urls,
-          imageUrlsType: typeof req.body.image_urls,
-          imageUrlsIsArray: Array.isArray(req.body.image_urls),
-          imageUrlsLength: Array.isArray(req.body.image_urls) ? req.body.image_urls.length : 'N/A',
-          imageUrlsItems: Array.isArray(req.body.image_urls) ?
-            req.body.image_urls.map((item: any, index: number) => ({
-              index,
-              value: item,
-              type: typeof item
-            })) : 'N/A',
-          type: 'request_validation_debug'
+          uploadId: upload.id,
+          reason: problem,
+          type: 'direct_upload_rejected'
         });
+        return res.status(422).json({ error: problem });
       }
 
-      // Preprocess request body to filter out null values from image_urls if present
-      const requestBody = { ...req.body };
-      if (requestBody.image_urls && Array.isArray(requestBody.image_urls)) {
-        const originalLength = requestBody.image_urls.length;
-        const originalPaths = [...requestBody.image_urls];
+      const filename = publishedUploadFilename(upload.id, upload.filename);
+      const objectPath = await objectStorageService.publishStagedUpload(upload.stagingPath, filename, userId);
 
-        requestBody.image_urls = requestBody.image_urls.filter(
-          (path: any) => path !== null && path !== undefined && typeof path === 'string' && path.trim() !== ''
-        );
+      // A concurrent completion publishes to the same path, so losing the race here is harmless
+      await storage.finishMediaUpload(upload.id, userId, { objectPath });
 
-        // Log if filtering occurred
-        if (requestBody.image_urls.length !== originalLength) {
-          logger.warn('Filtered null/invalid values from image_urls', {
-            correlationId: (req as any).correlationId,
-            originalPaths,
-            originalLength,
-            filteredPaths: requestBody.image_urls,
-            filteredLength: requestBody.image_urls.length,
-            type: 'image_urls_filtering'
-          });
-        }
+      logger.info('Direct upload completed', {
+        correlationId: (req as any).correlationId,
+        uploadId: upload.id,
+        sizeBytes: upload.sizeBytes,
+        type: 'direct_upload_completed'
+      });
 
-        // If no valid paths remain, remove the image_urls field entirely
-        if (requestBody.image_urls.length === 0) {
-          delete requestBody.image_urls;
-        }
+      res.json(UploadResponseSchema.parse({ objectPath, mediaUrl: objectPath }));
+    } catch (error) {
+      console.error('Complete upload error:', error);
+      res.status(500).json({ error: "Failed to complete upload" });
+    }
+  });
+
+  // tus resumable uploads. Each PATCH is stored as its own chunk object, so an interrupted upload
+  // resumes from the end of its last complete chunk; the chunks are joined once every byte has arrived.
+  app.use(TUS_UPLOAD_ROUTE, tusVersionMiddleware);
+
+  app.options([TUS_UPLOAD_ROUTE, `${TUS_UPLOAD_ROUTE}/:id`], (req, res) => {
+    res.set({
+      'Tus-Version': TUS_VERSION,
+      'Tus-Extension': TUS_EXTENSIONS.join(','),
+      'Tus-Max-Size': String(DIRECT_UPLOAD_MAX_BYTES)
+    }).status(204).end();
+  });
+
+  app.post(TUS_UPLOAD_ROUTE, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      // Upload-Defer-Length is not supported, so the size must be known up front
+      const size = parseTusInteger(req.get('Upload-Length'));
+      if (size === null || size === 0) {
+        return res.status(400).json({ error: "Upload-Length must be a positive integer" });
+      }
+      if (size > DIRECT_UPLOAD_MAX_BYTES) {
+        return res.status(413).json({ error: "File must be 50MB or smaller" });
       }
 
-      const validatedBody = GenerationCreateRequestSchema.parse(requestBody);
+      // Uppy sends filename/filetype; plain tus clients often use name/type
+      const metadata = parseTusMetadata(req.get('Upload-Metadata'));
+      const contentType = (metadata.filetype || metadata.type || '').toLowerCase();
+      if (!(UPLOAD_IMAGE_TYPES as readonly string[]).includes(contentType)) {
+        return res.status(415).json({ error: "Invalid file type. Only PNG, JPG, WEBP, GIF allowed." });
+      }
 
-      const taskId = randomUUID();
-      const generation = await storage.createVideoGeneration({
-        taskId,
-        promptText: validatedBody.promptText,
-        imagesPaths: validatedBody.image_urls || undefined,
-        status: "pending" as const
+      const upload = await storage.createResumableUpload({
+        userId,
+        filename: metadata.filename || metadata.name || 'upload',
+        contentType,
+        sizeBytes: size,
+        expiresAt: new Date(Date.now() + RESUMABLE_UPLOAD_TTL_MS)
       });
 
-      // Get protocol and host for URL construction
-      const protocol = req.headers['x-forwarded-proto'] || 'http';
-      const host = req.headers.host;
+      logger.info('Resumable upload created', {
+        correlationId: (req as any).correlationId,
+        uploadId: upload.id,
+        sizeBytes: size,
+        type: 'resumable_upload_created'
+      });
+
+      res.status(201).set({
+        'Location': `${TUS_UPLOAD_ROUTE}/${upload.id}`,
+        'Upload-Expires': upload.expiresAt.toUTCString()
+      }).end();
+    } catch (error) {
+      console.error('Create resumable upload error:', error);
+      res.status(500).json({ error: "Failed to create upload" });
+    }
+  });
+
+  app.head(`${TUS_UPLOAD_ROUTE}/:id`, isAuthenticated, async (req: any, res) => {
+    try {
+      const upload = await storage.getResumableUpload(req.params.id, req.user.claims.sub);
+      if (!upload) {
+        return res.status(404).end();
+      }
+      if (upload.status === "uploading" && upload.expiresAt.getTime() <= Date.now()) {
+        return res.status(410).end();
+      }
+
+      res.set({
+        'Upload-Offset': String(upload.offsetBytes),
+        'Upload-Length': String(upload.sizeBytes),
+        'Upload-Expires': upload.expiresAt.toUTCString()
+      });
+      if (upload.objectPath) {
+        res.set(TUS_OBJECT_PATH_HEADER, upload.objectPath);
+      }
+      res.status(200).end();
+    } catch (error) {
+      console.error('Resumable upload HEAD error:', error);
+      res.status(500).end();
+    }
+  });
+
+  app.patch(`${TUS_UPLOAD_ROUTE}/:id`, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (req.get('Content-Type') !== TUS_CHUNK_CONTENT_TYPE) {
+        return res.status(415).json({ error: `Content-Type must be ${TUS_CHUNK_CONTENT_TYPE}` });
+      }
+      const offset = parseTusInteger(req.get('Upload-Offset'));
+      if (offset === null) {
+        return res.status(400).json({ error: "Upload-Offset must be a non-negative integer" });
+      }
+
+      let upload = await storage.getResumableUpload(req.params.id, userId);
+      if (!upload) {
+        return res.status(404).json({ error: "Upload not found" });
+      }
+      if (upload.status === "uploading" && upload.expiresAt.getTime() <= Date.now()) {
+        return res.status(410).json({ error: "Upload expired" });
+      }
+      if (offset !== upload.offsetBytes) {
+        return res.status(409).set('Upload-Offset', String(upload.offsetBytes)).json({ error: "Upload-Offset does not match the current offset" });
+      }
+
+      if (upload.offsetBytes < upload.sizeBytes) {
+        const counter = new ByteLimitStream(upload.sizeBytes - upload.offsetBytes);
+        const chunkPath = objectStorageService.getResumableChunkPath(upload.id, offset);
+        try {
+          await objectStorageService.writeResumableChunk(chunkPath, pipeline(req, counter, () => undefined));
+        } catch (error) {
+          // A dropped connection loses only this chunk; the client resumes from the last committed offset
+          await objectStorageService.discardResumableChunks([chunkPath]).catch(() => undefined);
+          if (error instanceof ByteLimitError) {
+            return res.status(413).json({ error: `Chunk exceeds the ${error.limit} bytes remaining in the upload` });
+          }
+          throw error;
+        }
+
+        if (counter.bytes === 0) {
+          await objectStorageService.discardResumableChunks([chunkPath]);
+        } else {
+          const advanced = await storage.appendResumableUploadChunk(upload.id, userId, offset, chunkPath, counter.bytes);
+          if (!advanced) {
+            await objectStorageService.discardResumableChunks([chunkPath]);
+            return res.status(409).json({ error: "Upload changed while this chunk was being written" });
+          }
+          upload = advanced;
+        }
+      }
 
-      // Construct full public URLs for images
-      const imageUrls = validatedBody.image_urls?.map(path =>
-        `${protocol}://${host}${path}`
-      ) || [];
-
-      // Get brand persona image URLs - use production URLs if available, otherwise construct from paths
-      const brandPersonaImage1Url = process.env.BASE_MODEL_IMAGE_1_URL ||
-        `${protocol}://${host}${(process.env.BASE_MODEL_IMAGE_1 || "/public-objects/base model/basemodel.png").replace(/ /g, '%20')}`;
-      const brandPersonaImage2Url = process.env.BASE_MODEL_IMAGE_2_URL ||
-        `${protocol}://${host}${(process.env.BASE_MODEL_IMAGE_2 || "/public-objects/base model/basemodel2.png").replace(/ /g, '%20')}`;
-
-      // TEMPORARY: Test with minimal payload to match working connectivity test
-      const useMinimalPayload = false; // Set to false to use full payload
-
-      const webhookPayload = useMinimalPayload
-        ? { test: 'generation_connectivity_check', taskId } // Minimal payload like test
-        : N8nWebhookPayloadSchema.parse({
-            taskId,
-            promptText: validatedBody.promptText,
-            image_urls: imageUrls,
-            brandPersonaImage1Url,
-            brandPersonaImage2Url,
-            brand_persona: validatedBody.brand_persona || null
+      // Also reached when a previous assembly failed, since the client retries the final PATCH.
+      // The upload is marked completed before its chunks are removed, so a retry after that point
+      // gets the published object back instead of reassembling from chunks that may be gone.
+      if (upload.offsetBytes === upload.sizeBytes && upload.status === "uploading") {
+        const filename = publishedUploadFilename(upload.id, upload.filename);
+        const objectPath = await objectStorageService.assembleResumableUpload(upload.chunkPaths, filename, upload.contentType, userId);
+        upload = (await storage.completeResumableUpload(upload.id, userId, objectPath)) ?? { ...upload, objectPath };
+
+        // Chunks left behind by a failed delete are removed by the upload reaper once the upload expires
+        const uploadId = upload.id;
+        await objectStorageService.discardResumableChunks(upload.chunkPaths).catch((error) => {
+          logger.warn('Could not remove chunks of completed upload', {
+            correlationId: (req as any).correlationId,
+            uploadId,
+            error: error instanceof Error ? error.message : String(error),
+            type: 'resumable_upload_chunk_cleanup_failed'
           });
+        });
 
-      // Use enhanced webhook handler with retry manager
-      const webhookResult = await handleWebhookCall(taskId, webhookPayload, (req as any).correlationId);
-      
-      if (!webhookResult.success) {
-        logger.error('Webhook call failed', {
+        logger.info('Resumable upload completed', {
           correlationId: (req as any).correlationId,
-          taskId,
-          attempts: webhookResult.attempts,
-          totalDuration: webhookResult.totalDuration,
-          errorDetails: webhookResult.errorDetails,
-          type: 'generation_webhook_failed'
+          uploadId: upload.id,
+          sizeBytes: upload.sizeBytes,
+          chunks: upload.chunkPaths.length,
+          type: 'resumable_upload_completed'
         });
+      }
 
-        throw new AppError(
-          `Webhook failed after ${webhookResult.attempts} attempts`,
-          500,
-          'WEBHOOK_CALL_FAILED',
-          webhookResult.errorDetails,
-          (req as any).correlationId
-        );
+      res.set({
+        'Upload-Offset': String(upload.offsetBytes),
+        'Upload-Expires': upload.expiresAt.toUTCString()
+      });
+      if (upload.objectPath) {
+        res.set(TUS_OBJECT_PATH_HEADER, upload.objectPath);
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error('Resumable upload PATCH error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to store upload chunk" });
+      }
+    }
+  });
+
+  // Termination discards the chunks; an already published object is left in place
+  app.delete(`${TUS_UPLOAD_ROUTE}/:id`, isAuthenticated, async (req: any, res) => {
+    try {
+      const upload = await storage.deleteResumableUpload(req.params.id, req.user.claims.sub);
+      if (!upload) {
+        return res.status(404).json({ error: "Upload not found" });
+      }
+      await objectStorageService.discardResumableChunks(upload.chunkPaths);
+      res.status(204).end();
+    } catch (error) {
+      console.error('Terminate resumable upload error:', error);
+      res.status(500).json({ error: "Failed to terminate upload" });
+    }
+  });
+
+  // Auth routes
+  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      res.json(user);
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+
+
+  // Brand persona management - requires authentication
+  app.get("/api/brand-personas", isAuthenticated, async (req: any, res) => {
+    try {
+      const personas = await storage.getBrandPersonas(req.user.claims.sub);
+      res.json(personas);
+    } catch (error) {
+      console.error('List brand personas error:', error);
+      res.status(500).json({ error: "Failed to fetch brand personas" });
+    }
+  });
+
+  app.get("/api/brand-personas/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const persona = await storage.getBrandPersona(req.params.id, req.user.claims.sub);
+      if (!persona) {
+        return res.status(404).json({ error: "Brand persona not found" });
+      }
+      res.json(persona);
+    } catch (error) {
+      console.error('Get brand persona error:', error);
+      res.status(500).json({ error: "Failed to fetch brand persona" });
+    }
+  });
+
+  app.post("/api/brand-personas", isAuthenticated, async (req: any, res) => {
+    try {
+      const validatedBody = BrandPersonaRequestSchema.parse(req.body);
+      const persona = await storage.createBrandPersona({ ...validatedBody, userId: req.user.claims.sub });
+      res.status(201).json(persona);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if ((error as any)?.code === '23505') {
+        return res.status(409).json({ error: "A brand persona with this name already exists" });
+      }
+      console.error('Create brand persona error:', error);
+      res.status(500).json({ error: "Failed to create brand persona" });
+    }
+  });
+
+  app.patch("/api/brand-personas/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const validatedBody = BrandPersonaUpdateRequestSchema.parse(req.body);
+      const persona = await storage.updateBrandPersona(req.params.id, req.user.claims.sub, validatedBody);
+      if (!persona) {
+        return res.status(404).json({ error: "Brand persona not found" });
       }
+      res.json(persona);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if ((error as any)?.code === '23505') {
+        return res.status(409).json({ error: "A brand persona with this name already exists" });
+      }
+      console.error('Update brand persona error:', error);
+      res.status(500).json({ error: "Failed to update brand persona" });
+    }
+  });
+
+  app.delete("/api/brand-personas/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteBrandPersona(req.params.id, req.user.claims.sub);
+      if (!deleted) {
+        return res.status(404).json({ error: "Brand persona not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete brand persona error:', error);
+      res.status(500).json({ error: "Failed to delete brand persona" });
+    }
+  });
+
+  // Scheduled and recurring generations - require authentication
+  app.get("/api/scheduled-generations", isAuthenticated, async (req: any, res) => {
+    try {
+      const schedules = await storage.getScheduledGenerations(req.user.claims.sub);
+      res.json(schedules);
+    } catch (error) {
+      console.error('List scheduled generations error:', error);
+      res.status(500).json({ error: "Failed to fetch scheduled generations" });
+    }
+  });
+
+  app.post("/api/scheduled-generations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { name, request, runAt, cron } = ScheduledGenerationRequestSchema.parse(req.body);
+
+      let nextRunAt: Date | null;
+      if (cron) {
+        const minIntervalMinutes = generationScheduler.getMinIntervalMinutes();
+        if (minCronIntervalMinutes(parseCron(cron)) < minIntervalMinutes) {
+          return res.status(400).json({ error: `Recurring schedules may run at most once every ${minIntervalMinutes} minutes` });
+        }
+        nextRunAt = getNextScheduledRun({ cron }, new Date());
+      } else {
+        nextRunAt = runAt!;
+        if (nextRunAt.getTime() <= Date.now()) {
+          return res.status(400).json({ error: "Run time must be in the future" });
+        }
+      }
+
+      // Surface missing personas, templates or parents now rather than on the first run
+      const protocol = req.headers['x-forwarded-proto'] || 'http';
+      await prepareGeneration(request, userId, {
+        baseUrl: `${protocol}://${req.headers.host}`,
+        correlationId: (req as any).correlationId || null,
+        userAgent: req.headers['user-agent'] || null
+      });
+
+      const schedule = await storage.createScheduledGeneration({
+        userId,
+        name,
+        request,
+        runAt: runAt ?? null,
+        cron: cron ?? null,
+        nextRunAt
+      });
 
-      logger.info('Webhook call completed successfully', {
+      logger.info('Scheduled generation created', {
         correlationId: (req as any).correlationId,
-        taskId,
-        attempts: webhookResult.attempts,
-        totalDuration: webhookResult.totalDuration,
-        type: 'generation_webhook_success'
+        scheduleId: schedule.id,
+        cron: schedule.cron,
+        nextRunAt: schedule.nextRunAt?.toISOString() ?? null,
+        type: 'scheduled_generation_created'
       });
 
-      // Update status to processing on success
-      await storage.updateVideoGeneration(taskId, { status: "processing" });
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof CronParseError || error instanceof AppError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Create scheduled generation error:', error);
+      res.status(500).json({ error: "Failed to create scheduled generation" });
+    }
+  });
+
+  // Pause or resume a schedule; resuming a recurring schedule skips runs missed while paused
+  app.patch("/api/scheduled-generations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { status } = ScheduledGenerationUpdateRequestSchema.parse(req.body);
+      const schedule = await storage.getScheduledGeneration(req.params.id, userId);
+      if (!schedule) {
+        return res.status(404).json({ error: "Scheduled generation not found" });
+      }
+      if (schedule.status === "completed") {
+        return res.status(409).json({ error: "This schedule has already completed" });
+      }
+
+      const updates = status === "active" && schedule.cron
+        ? { status, nextRunAt: getNextScheduledRun(schedule, new Date()) }
+        : { status };
+      const updated = await storage.updateScheduledGeneration(schedule.id, userId, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error('Update scheduled generation error:', error);
+      res.status(500).json({ error: "Failed to update scheduled generation" });
+    }
+  });
+
+  app.delete("/api/scheduled-generations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteScheduledGeneration(req.params.id, req.user.claims.sub);
+      if (!deleted) {
+        return res.status(404).json({ error: "Scheduled generation not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete scheduled generation error:', error);
+      res.status(500).json({ error: "Failed to delete scheduled generation" });
+    }
+  });
+
+  // Prompt templates: the caller's own plus any shared ones
+  app.get("/api/prompt-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const templates = await storage.getPromptTemplates(req.user.claims.sub);
+      res.json(templates);
+    } catch (error) {
+      console.error('List prompt templates error:', error);
+      res.status(500).json({ error: "Failed to fetch prompt templates" });
+    }
+  });
+
+  app.get("/api/prompt-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const template = await storage.getPromptTemplate(req.params.id, req.user.claims.sub);
+      if (!template) {
+        return res.status(404).json({ error: "Prompt template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      console.error('Get prompt template error:', error);
+      res.status(500).json({ error: "Failed to fetch prompt template" });
+    }
+  });
+
+  app.post("/api/prompt-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const validatedBody = PromptTemplateRequestSchema.parse(req.body);
+      const template = await storage.createPromptTemplate({ ...validatedBody, userId: req.user.claims.sub });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if ((error as any)?.code === '23505') {
+        return res.status(409).json({ error: "A prompt template with this name already exists" });
+      }
+      console.error('Create prompt template error:', error);
+      res.status(500).json({ error: "Failed to create prompt template" });
+    }
+  });
+
+  // Shared templates can be used by anyone but only edited or deleted by their owner
+  app.patch("/api/prompt-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const validatedBody = PromptTemplateUpdateRequestSchema.parse(req.body);
+      const template = await storage.updatePromptTemplate(req.params.id, req.user.claims.sub, validatedBody);
+      if (!template) {
+        return res.status(404).json({ error: "Prompt template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if ((error as any)?.code === '23505') {
+        return res.status(409).json({ error: "A prompt template with this name already exists" });
+      }
+      console.error('Update prompt template error:', error);
+      res.status(500).json({ error: "Failed to update prompt template" });
+    }
+  });
+
+  app.delete("/api/prompt-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const deleted = await storage.deletePromptTemplate(req.params.id, req.user.claims.sub);
+      if (!deleted) {
+        return res.status(404).json({ error: "Prompt template not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete prompt template error:', error);
+      res.status(500).json({ error: "Failed to delete prompt template" });
+    }
+  });
+
+  // List files in object storage
+  app.get("/api/storage/list/:directory?", async (req, res) => {
+    try {
+      const { directory = "public" } = req.params;
+      const objectStorageService = new ObjectStorageService();
+      
+      if (directory === "public") {
+        const objects = await objectStorageService.listPublicObjects();
+        const files = objects.map(file => ({
+          name: file.name,
+          size: file.size,
+          updated: file.updated,
+          contentType: file.contentType
+        }));
+        
+        res.json({ files, directory: "public" });
+      } else {
+        res.status(400).json({ error: "Only public directory listing is supported" });
+      }
+    } catch (error) {
+      console.error("Error listing storage files:", error);
+      res.status(500).json({ error: "Failed to list files" });
+    }
+  });
+
+  // Media serving endpoint
+  app.get("/api/media/:key", async (req, res) => {
+    try {
+      const key = decodeURIComponent(req.params.key);
+      const objectPath = `/objects/${key}`;
+      
+      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+      await objectStorageService.downloadObject(objectFile, req, res);
+    } catch (error) {
+      console.error('Media serving error:', error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Signed URLs issued by the local-disk storage driver; the signature covers method, object, expiry and content type
+  app.all("/api/storage/local/:bucket/:objectPath(*)", async (req, res) => {
+    const driver = getStorageDriver();
+    if (!(driver instanceof LocalDiskStorageDriver)) {
+      return res.status(404).json({ error: "Local object storage is not enabled" });
+    }
+
+    const location = { bucketName: req.params.bucket, objectName: req.params.objectPath };
+    const method = req.method === "HEAD" ? "GET" : req.method;
+    const contentType = typeof req.query.contentType === "string" ? req.query.contentType : undefined;
+    const valid = driver.verifySignedRequest(location, {
+      method,
+      expires: String(req.query.expires ?? ""),
+      signature: String(req.query.signature ?? ""),
+      contentType
+    });
+    if (!valid) {
+      return res.status(403).json({ error: "Invalid or expired signature" });
+    }
+
+    try {
+      if (method === "PUT") {
+        const requestType = req.headers['content-type'];
+        if (contentType && requestType?.split(';')[0].trim() !== contentType) {
+          return res.status(400).json({ error: `Content-Type must be ${contentType}` });
+        }
+        if (Number(req.headers['content-length'] ?? 0) > LOCAL_STORAGE_MAX_PUT_BYTES) {
+          return res.status(413).json({ error: `Uploads are limited to ${LOCAL_STORAGE_MAX_PUT_BYTES} bytes` });
+        }
+        // Content-Length can be absent (chunked encoding), so the body is also counted as it streams
+        await driver.put(location, pipeline(req, new ByteLimitStream(LOCAL_STORAGE_MAX_PUT_BYTES), () => undefined), { contentType: requestType });
+        return res.status(200).end();
+      }
+      if (method === "DELETE") {
+        await driver.delete(location);
+        return res.status(204).end();
+      }
+      if (method === "GET") {
+        return await objectStorageService.downloadObject(location, req, res);
+      }
+      res.status(405).json({ error: "Method not allowed" });
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Object not found" });
+      }
+      if (error instanceof ByteLimitError) {
+        return res.status(413).json({ error: `Uploads are limited to ${error.limit} bytes` });
+      }
+      console.error('Local storage request error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Placeholder media produced by the mock generation provider
+  app.get("/api/mock-provider/:taskId/reference.svg", (req, res) => {
+    res.set('Content-Type', 'image/svg+xml');
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.send(renderMockReferenceImage(req.params.taskId));
+  });
+
+  app.get("/api/mock-provider/:taskId/video", (req, res) => {
+    res.sendFile(getMockVideoFile(), (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: "Mock video file not found" });
+      }
+    });
+  });
+
+  // Create video generation - requires authentication
+  app.post("/api/generations", isAuthenticated, async (req: any, res) => {
+    try {
+      // Enhanced logging for debugging validation issues
+      if (req.body.image_urls) {
+        logger.debug('Request image_urls validation', {
+          correlationId: (req as any).correlationId,
+          image_urls: req.body.image_urls,
+          imageUrlsType: typeof req.body.image_urls,
+          imageUrlsIsArray: Array.isArray(req.body.image_urls),
+          imageUrlsLength: Array.isArray(req.body.image_urls) ? req.body.image_urls.length : 'N/A',
+          imageUrlsItems: Array.isArray(req.body.image_urls) ?
+            req.body.image_urls.map((item: any, index: number) => ({
+              index,
+              value: item,
+              type: typeof item
+            })) : 'N/A',
+          type: 'request_validation_debug'
+        });
+      }
+
+      // Preprocess request body to filter out null values from image_urls if present
+      const requestBody = { ...req.body };
+      if (requestBody.image_urls && Array.isArray(requestBody.image_urls)) {
+        const originalLength = requestBody.image_urls.length;
+        const originalPaths = [...requestBody.image_urls];
+
+        requestBody.image_urls = requestBody.image_urls.filter(
+          (path: any) => path !== null && path !== undefined && typeof path === 'string' && path.trim() !== ''
+        );
+
+        // Log if filtering occurred
+        if (requestBody.image_urls.length !== originalLength) {
+          logger.warn('Filtered null/invalid values from image_urls', {
+            correlationId: (req as any).correlationId,
+            originalPaths,
+            originalLength,
+            filteredPaths: requestBody.image_urls,
+            filteredLength: requestBody.image_urls.length,
+            type: 'image_urls_filtering'
+          });
+        }
+
+        // If no valid paths remain, remove the image_urls field entirely
+        if (requestBody.image_urls.length === 0) {
+          delete requestBody.image_urls;
+        }
+      }
+
+      const validatedBody = GenerationCreateRequestSchema.parse(requestBody);
+
+      // Get protocol and host for URL construction
+      const protocol = req.headers['x-forwarded-proto'] || 'http';
+      const host = req.headers.host;
+
+      const { generation } = await submitGeneration(validatedBody, req.user.claims.sub, {
+        baseUrl: `${protocol}://${host}`,
+        correlationId: (req as any).correlationId || null,
+        userAgent: req.headers['user-agent'] || null
+      });
 
       res.json({ id: generation.id, taskId: generation.taskId });
     } catch (error) {
       console.error('Generation creation error:', error);
+
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       
       if (error instanceof z.ZodError) {
         // Enhanced validation error logging
@@ -1512,7 +2048,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     try {
-      const validatedBody = GenerationCallbackSchema.parse(req.body);
+      const validatedBody = n8nGenerationProvider.parseCallback(req.body);
       
       logger.info('Webhook callback validated', {
         correlationId: req.correlationId,
@@ -1525,22 +2061,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const dbTimer = metricsCollector.startTimer(`db_update_${req.correlationId}`);
-      const updated = await storage.updateVideoGeneration(validatedBody.taskId, {
-        status: validatedBody.status,
-        imageGenerationPath: validatedBody.imageGenerationPath || null,
-        videoPath: validatedBody.videoPath || null,
-        errorMessage: validatedBody.errorMessage || null
-      });
+      const { found, updated, rejectedFrom } = await applyGenerationCallback(validatedBody);
       const dbDuration = dbTimer();
 
       metricsCollector.recordDatabaseQuery(
         'updateVideoGeneration', 
         dbDuration, 
-        !!updated, 
+        found, 
         req.correlationId
       );
 
-      if (!updated) {
+      if (!found) {
         logger.warn('Generation not found for callback', {
           correlationId: req.correlationId,
           taskId: validatedBody.taskId,
@@ -1551,6 +2082,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }, req.correlationId);
       }
 
+      // Redelivery of the result the generation already has; acknowledged so at-least-once senders stop retrying
+      if (!updated && rejectedFrom === validatedBody.status) {
+        logger.info('Ignoring repeated callback', {
+          correlationId: req.correlationId,
+          taskId: validatedBody.taskId,
+          status: validatedBody.status,
+          type: 'webhook_callback_duplicate'
+        });
+        timer();
+        return res.json({
+          success: true,
+          ignored: true,
+          correlationId: req.correlationId,
+          processedAt: new Date().toISOString()
+        });
+      }
+
+      // Results the generation can no longer accept, e.g. late callbacks after cancellation
+      if (!updated) {
+        logger.warn('Rejecting callback with illegal status transition', {
+          correlationId: req.correlationId,
+          taskId: validatedBody.taskId,
+          from: rejectedFrom,
+          to: validatedBody.status,
+          type: 'webhook_callback_rejected'
+        });
+        timer();
+        throw new AppError(`Generation cannot move from ${rejectedFrom} to ${validatedBody.status}`, 409, 'INVALID_STATUS_TRANSITION', {
+          taskId: validatedBody.taskId,
+          from: rejectedFrom,
+          to: validatedBody.status
+        }, req.correlationId);
+      }
+
       const duration = timer();
       
       logger.info('Webhook callback processed successfully', {
@@ -1599,13 +2164,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  // n8n progress callback: a named pipeline stage with an optional percent and preview asset
+  app.post("/api/generations/callback/progress",
+    rawBodyMiddleware,
+    webhookSecurityMiddleware,
+    asyncHandler(async (req: any, res) => {
+    const progress = n8nGenerationProvider.parseProgressCallback(req.body);
+    const { found, updated } = await applyGenerationProgress(progress);
+
+    if (!found) {
+      logger.warn('Generation not found for progress callback', {
+        correlationId: req.correlationId,
+        taskId: progress.taskId,
+        stage: progress.stage,
+        type: 'webhook_progress_not_found'
+      });
+      throw new AppError(`Generation not found: ${progress.taskId}`, 404, 'GENERATION_NOT_FOUND', {
+        taskId: progress.taskId
+      }, req.correlationId);
+    }
+
+    // Progress that arrives after the result or a cancellation is acknowledged but not recorded
+    logger.info(updated ? 'Webhook progress recorded' : 'Ignoring progress for finished generation', {
+      correlationId: req.correlationId,
+      taskId: progress.taskId,
+      stage: progress.stage,
+      percent: progress.percent,
+      type: updated ? 'webhook_progress_recorded' : 'webhook_progress_ignored'
+    });
+
+    res.json({
+      success: true,
+      ...(updated ? {} : { ignored: true }),
+      correlationId: req.correlationId,
+      processedAt: new Date().toISOString()
+    });
+  }));
+
   // Get completed generations - requires authentication
-  app.get("/api/generations", isAuthenticated, async (req, res) => {
+  app.get("/api/generations", isAuthenticated, async (req: any, res) => {
     try {
       const onlyCompleted = req.query.onlyCompleted === 'true';
       
       if (onlyCompleted) {
-        const generations = await storage.getCompletedVideoGenerations(50);
+        const generations = await storage.getCompletedVideoGenerations(req.user.claims.sub, 50);
         // Only return generations with video_path AND no error message (double safety check)
         const completedWithVideos = generations.filter(g => 
           g.videoPath && 
@@ -1613,38 +2215,179 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
         res.json(completedWithVideos);
       } else {
-        // For now, only support completed filter as per requirements
-        res.json([]);
+        const userId = req.user.claims.sub;
+        const query = GenerationHistoryQuerySchema.parse(req.query);
+        const [page, counts] = await Promise.all([
+          storage.queryVideoGenerations(userId, query),
+          storage.countVideoGenerations(userId, query)
+        ]);
+        res.json({
+          items: page.items,
+          nextCursor: page.nextCursor,
+          total: counts.total,
+          statusCounts: counts.statusCounts
+        });
       }
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Get generations error:', error);
       res.status(500).json({ error: "Failed to fetch generations" });
     }
   });
 
+  // Create a batch of generations from a CSV or JSON manifest - requires authentication.
+  // Each accepted row is charged to the generation rate limit; rows over the limit are scheduled for later.
+  app.post("/api/generations/batch", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const correlationId = (req as any).correlationId || null;
+      const { name, format, content } = GenerationBatchRequestSchema.parse(req.body);
+      const rows = parseBatchManifest(format, content);
+      const personas = await storage.getBrandPersonas(userId);
+
+      const protocol = req.headers['x-forwarded-proto'] || 'http';
+      const context = {
+        baseUrl: `${protocol}://${req.headers.host}`,
+        correlationId,
+        userAgent: req.headers['user-agent'] || null
+      };
+
+      // Invalid rows are recorded with their error rather than failing the whole batch
+      const items: NewGenerationBatchItem[] = [];
+      for (let index = 0; index < rows.length; index++) {
+        const row = rows[index];
+        try {
+          const request = GenerationCreateRequestSchema.parse(resolveManifestPersona(row, personas));
+          const generation = await prepareGeneration(request, userId, context);
+          items.push({
+            rowIndex: index + 1,
+            input: row,
+            generation,
+            job: { payload: generation.submission.payload, correlationId }
+          });
+        } catch (error) {
+          const message = error instanceof z.ZodError
+            ? error.errors.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ')
+            : error instanceof Error ? error.message : 'Invalid row';
+          items.push({ rowIndex: index + 1, input: row, error: message });
+        }
+      }
+
+      const accepted = items.filter(item => item.job);
+      const { rateLimitManager } = await import("./lib/rateLimiting");
+      const slots = rateLimitManager.reserveSlots('generation', req, accepted.length, correlationId ?? undefined);
+      accepted.forEach((item, index) => {
+        item.job!.runAt = slots[index];
+      });
+
+      const batch = await storage.createGenerationBatch({
+        userId,
+        name: name || null,
+        source: format,
+        totalItems: items.length
+      }, items);
+      generationQueue.notify();
+
+      logger.info('Generation batch queued', {
+        correlationId,
+        batchId: batch.id,
+        totalItems: items.length,
+        accepted: accepted.length,
+        rejected: items.length - accepted.length,
+        lastScheduledFor: slots[slots.length - 1]?.toISOString(),
+        type: 'generation_batch_queued'
+      });
+
+      const detail = await storage.getGenerationBatch(batch.id, userId);
+      res.status(201).json({ ...detail!.batch, items: detail!.items });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Create generation batch error:', error);
+      res.status(500).json({ error: "Failed to create generation batch" });
+    }
+  });
+
+  // Recent batches with per-status progress counts - requires authentication
+  app.get("/api/generations/batch", isAuthenticated, async (req: any, res) => {
+    try {
+      const batches = await storage.getGenerationBatches(req.user.claims.sub);
+      res.json(batches);
+    } catch (error) {
+      console.error('Get generation batches error:', error);
+      res.status(500).json({ error: "Failed to fetch generation batches" });
+    }
+  });
+
+  // A batch with each row's input, validation error and generation - requires authentication
+  app.get("/api/generations/batch/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const detail = await storage.getGenerationBatch(req.params.id, req.user.claims.sub);
+      if (!detail) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+      res.json({ ...detail.batch, items: detail.items });
+    } catch (error) {
+      console.error('Get generation batch error:', error);
+      res.status(500).json({ error: "Failed to fetch generation batch" });
+    }
+  });
+
+  // Stream the caller's generation status changes as Server-Sent Events - requires authentication
+  app.get("/api/generations/events", isAuthenticated, (req: any, res) => {
+    const userId = req.user.claims.sub;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Disable proxy buffering
+    });
+    // Tell EventSource how long to wait before reconnecting
+    res.write('retry: 5000\n\n');
+
+    const unsubscribe = generationEvents.subscribe(userId, (status) => {
+      res.write(`event: generation\ndata: ${JSON.stringify(status)}\n\n`);
+    });
+
+    // Comment frames keep idle connections open through proxies
+    const keepAlive = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, 25000);
+
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  });
+
   // Get generation status by taskId - requires authentication
-  app.get("/api/generations/status/:taskId", isAuthenticated, async (req, res) => {
+  app.get("/api/generations/status/:taskId", isAuthenticated, async (req: any, res) => {
     try {
-      const generation = await storage.getVideoGenerationByTaskId(req.params.taskId);
+      let generation = await storage.getVideoGenerationByTaskId(req.params.taskId, req.user.claims.sub);
       if (!generation) {
         return res.status(404).json({ error: "Generation not found" });
       }
+
+      // Providers that can be polled report results here if their callback never arrived
+      if (generation.status === "processing") {
+        const result = await getGenerationProvider(generation.provider).status(generation, (req as any).correlationId);
+        if (result) {
+          generation = (await applyGenerationCallback(result)).updated || generation;
+        }
+      }
+
       // Return all status-relevant fields including new error handling fields
-      res.json({
-        id: generation.id,
-        taskId: generation.taskId,
-        status: generation.status,
-        errorMessage: generation.errorMessage,
-        errorDetails: generation.errorDetails,
-        errorType: generation.errorType,
-        retryCount: generation.retryCount,
-        maxRetries: generation.maxRetries,
-        nextRetryAt: generation.nextRetryAt?.toISOString() || null,
-        webhookResponseStatus: generation.webhookResponseStatus,
-        webhookResponseBody: generation.webhookResponseBody,
-        lastAttemptAt: generation.lastAttemptAt?.toISOString() || null,
-        createdAt: generation.createdAt
-      });
+      res.json(toGenerationStatusResponse(generation));
     } catch (error) {
       console.error('Get generation status error:', error);
       res.status(500).json({ error: "Failed to fetch generation status" });
@@ -1652,9 +2395,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get single generation - requires authentication
-  app.get("/api/generations/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/generations/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const generation = await storage.getVideoGenerationById(req.params.id);
+      const generation = await storage.getVideoGenerationById(req.params.id, req.user.claims.sub);
       if (!generation) {
         return res.status(404).json({ error: "Generation not found" });
       }
@@ -1665,108 +2408,157 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Manual retry endpoint - requires authentication
-  app.post("/api/generations/retry", isAuthenticated, async (req, res) => {
+  // Every output asset of a generation, grouped by kind and variant - requires authentication
+  app.get("/api/generations/:id/assets", isAuthenticated, async (req: any, res) => {
     try {
-      const validatedBody = RetryGenerationRequestSchema.parse(req.body);
-      
-      const generation = await storage.getVideoGenerationByTaskId(validatedBody.taskId);
-      if (!generation) {
+      const assets = await storage.getGenerationAssets(req.params.id, req.user.claims.sub);
+      if (!assets) {
         return res.status(404).json({ error: "Generation not found" });
       }
+      res.json(assets);
+    } catch (error) {
+      console.error('Get generation assets error:', error);
+      res.status(500).json({ error: "Failed to fetch generation assets" });
+    }
+  });
 
-      if (generation.status !== "failed") {
-        return res.status(400).json({ error: "Only failed generations can be retried" });
+  // Mark a variant as the pick; a picked video or image also becomes the generation's main output
+  app.post("/api/generations/:id/assets/:assetId/pick", isAuthenticated, async (req: any, res) => {
+    try {
+      const asset = await storage.pickGenerationAsset(req.params.id, req.params.assetId, req.user.claims.sub);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
       }
+      res.json(asset);
+    } catch (error) {
+      console.error('Pick generation asset error:', error);
+      res.status(500).json({ error: "Failed to pick generation asset" });
+    }
+  });
 
-      const currentRetryCount = parseInt(generation.retryCount || "0");
-      const maxRetries = parseInt(generation.maxRetries || "3");
+  // Remix tree containing a generation - requires authentication
+  app.get("/api/generations/:id/lineage", isAuthenticated, async (req: any, res) => {
+    try {
+      const nodes = await storage.getGenerationLineage(req.params.id, req.user.claims.sub);
+      if (nodes.length === 0) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+      res.json({ rootId: nodes[0].id, nodes });
+    } catch (error) {
+      console.error('Get generation lineage error:', error);
+      res.status(500).json({ error: "Failed to fetch generation lineage" });
+    }
+  });
 
-      if (currentRetryCount >= maxRetries) {
-        return res.status(400).json({ error: "Maximum retry attempts exceeded" });
+  // Webhook attempts made for a generation, oldest first - requires authentication
+  app.get("/api/generations/:id/attempts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const generation = await storage.getVideoGenerationById(req.params.id, userId);
+      if (!generation) {
+        return res.status(404).json({ error: "Generation not found" });
       }
+      const attempts = await storage.getWebhookAttemptTrace(generation.taskId, userId);
+      res.json(attempts);
+    } catch (error) {
+      console.error('Get generation attempts error:', error);
+      res.status(500).json({ error: "Failed to fetch generation attempts" });
+    }
+  });
 
-      // Reconstruct the webhook payload
-      const protocol = req.headers['x-forwarded-proto'] || 'http';
-      const host = req.headers.host;
+  // Cancel a pending or processing generation - requires authentication
+  app.post("/api/generations/:taskId/cancel", isAuthenticated, async (req: any, res) => {
+    const correlationId = (req as any).correlationId;
+    try {
+      const userId = req.user.claims.sub;
+      const generation = await storage.getVideoGenerationByTaskId(req.params.taskId, userId);
+      if (!generation) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
 
-      // Reconstruct image URLs array from stored paths (for multi-image support)
-      const imageUrls = generation.imagesPaths?.map(path =>
-        `${protocol}://${host}${path}`
-      ) || [];
+      const cancelled = await storage.cancelVideoGeneration(generation.taskId, userId);
+      if (!cancelled) {
+        return res.status(409).json({ error: `Generation can no longer be cancelled (status: ${generation.status})` });
+      }
 
-      // Get brand persona image URLs - use production URLs if available, otherwise construct from paths
-      const brandPersonaImage1Url = process.env.BASE_MODEL_IMAGE_1_URL ||
-        `${protocol}://${host}${(process.env.BASE_MODEL_IMAGE_1 || "/public-objects/base model/basemodel.png").replace(/ /g, '%20')}`;
-      const brandPersonaImage2Url = process.env.BASE_MODEL_IMAGE_2_URL ||
-        `${protocol}://${host}${(process.env.BASE_MODEL_IMAGE_2 || "/public-objects/base model/basemodel2.png").replace(/ /g, '%20')}`;
+      // Only generations that reached the backend need the cancel forwarded
+      const provider = getGenerationProvider(generation.provider);
+      const dispatched = generation.status === "processing" || !!generation.lastAttemptAt;
+      const providerResult = dispatched
+        ? await provider.cancel(cancelled, correlationId)
+        : { supported: true, success: true };
 
-      const webhookPayload = N8nWebhookPayloadSchema.parse({
+      logger.info('Generation cancelled', {
+        correlationId,
         taskId: generation.taskId,
-        promptText: generation.promptText,
-        image_urls: imageUrls,
-        brandPersonaImage1Url,
-        brandPersonaImage2Url,
-        brand_persona: null // Brand persona is not stored, defaulting to null
+        previousStatus: generation.status,
+        provider: provider.name,
+        providerSupported: providerResult.supported,
+        providerCancelled: providerResult.success,
+        providerError: providerResult.errorDetails,
+        type: 'generation_cancelled'
       });
+      metricsCollector.recordMetric('generation_cancelled', 1, 'count', {
+        provider: provider.name,
+        previousStatus: generation.status
+      }, correlationId);
 
-      // Reset status to pending for retry
-      await storage.updateVideoGeneration(generation.taskId, {
-        status: "pending",
-        errorMessage: null,
-        errorDetails: null,
-        errorType: null,
-        webhookResponseStatus: null,
-        webhookResponseBody: null
+      const response = CancelGenerationResponseSchema.parse({
+        success: true,
+        message: providerResult.success
+          ? "Generation cancelled."
+          : "Generation cancelled. The backend could not be told to stop, so any late result will be ignored.",
+        providerCancelled: providerResult.success
       });
+      res.json(response);
+    } catch (error) {
+      console.error('Cancel generation error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Cancel failed' });
+    }
+  });
 
-      // Attempt webhook call
-      const webhookResult = await handleWebhookCall(generation.taskId, webhookPayload, (req as any).correlationId);
+  // Manual retry endpoint - requires authentication
+  app.post("/api/generations/retry", isAuthenticated, async (req: any, res) => {
+    try {
+      const validatedBody = RetryGenerationRequestSchema.parse(req.body);
+      const userId = req.user.claims.sub;
       
-      if (!webhookResult.success) {
-        const newRetryCount = currentRetryCount + 1;
-        
-        if (!webhookResult.success && newRetryCount < maxRetries) {
-          // Schedule next retry
-          const nextRetryAt = new Date(Date.now() + calculateRetryDelay(newRetryCount));
-          
-          await storage.updateVideoGeneration(generation.taskId, {
-            retryCount: newRetryCount.toString(),
-            nextRetryAt
-          });
+      const generation = await storage.getVideoGenerationByTaskId(validatedBody.taskId, userId);
+      if (!generation) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
 
-          const response = RetryGenerationResponseSchema.parse({
-            success: false,
-            message: `Retry failed. Next automatic retry scheduled for ${nextRetryAt.toISOString()}`,
-            nextRetryAt: nextRetryAt.toISOString()
-          });
-          
-          return res.json(response);
-        } else {
-          // No more retries
-          await storage.updateVideoGeneration(generation.taskId, {
-            retryCount: newRetryCount.toString(),
-            nextRetryAt: null
-          });
+      if (generation.status !== "failed") {
+        return res.status(400).json({ error: "Only failed generations can be retried" });
+      }
 
-          const response = RetryGenerationResponseSchema.parse({
-            success: false,
-            message: "Retry failed permanently. Maximum retry attempts exceeded."
-          });
-          
-          return res.json(response);
-        }
+      const currentRetryCount = parseInt(generation.retryCount || "0");
+      const maxRetries = parseInt(generation.maxRetries || "3");
+
+      if (currentRetryCount >= maxRetries) {
+        return res.status(400).json({ error: "Maximum retry attempts exceeded" });
+      }
+
+      // Replay the original submission through the dispatch queue, which also schedules the next
+      // automatic retry if this attempt fails
+      const correlationId = (req as any).correlationId || randomUUID();
+      const requeued = await storage.retryVideoGeneration(generation.taskId, userId, getReplayPayload(generation), correlationId);
+      // Another retry or a late result got there first
+      if (!requeued) {
+        return res.status(409).json({ error: "Generation is no longer failed" });
       }
+      generationQueue.notify();
 
-      // Success - update to processing
-      await storage.updateVideoGeneration(generation.taskId, { 
-        status: "processing",
-        retryCount: (currentRetryCount + 1).toString()
+      logger.info('Manual retry queued', {
+        correlationId,
+        taskId: generation.taskId,
+        retryCount: requeued.retryCount,
+        type: 'manual_retry_queued'
       });
 
       const response = RetryGenerationResponseSchema.parse({
         success: true,
-        message: "Retry successful. Generation is now processing."
+        message: "Retry queued. Generation will be dispatched shortly."
       });
 
       res.json(response);
@@ -1779,6 +2571,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start the background worker that dispatches queued generations
+  generationQueue.start({
+    process: processGenerationJob,
+    onExhausted: failExhaustedGenerationJob
+  });
+
+  // Mock generations complete through the same path as n8n callbacks
+  mockGenerationProvider.setCallbackHandler(async (callback, correlationId) => {
+    const { updated } = await applyGenerationCallback(callback);
+    logger.info('Mock generation completed', {
+      correlationId,
+      taskId: callback.taskId,
+      status: callback.status,
+      applied: !!updated,
+      type: 'mock_provider_callback'
+    });
+  });
+
+  // Mock stages are recorded through the same path as n8n progress callbacks
+  mockGenerationProvider.setProgressHandler(async (progress) => {
+    await applyGenerationProgress(progress);
+  });
+
+  // Redispatch failed generations once their nextRetryAt has passed
+  retryScheduler.start((generation) => getReplayPayload(generation));
+
+  // Fail generations that never received an n8n callback
+  stuckGenerationReaper.start();
+
+  // Remove uploads abandoned before completion
+  uploadReaper.start();
+
+  // Fire due scheduled generations through the normal create path
+  generationScheduler.start(async (schedule) => {
+    const request = GenerationCreateRequestSchema.parse(schedule.request);
+    const correlationId = randomUUID();
+    const { rateLimitManager } = await import("./lib/rateLimiting");
+    if (!rateLimitManager.consumeForUser('generation', schedule.userId, correlationId)) {
+      throw new Error("Generation rate limit reached, run skipped");
+    }
+    const { generation } = await submitGeneration(request, schedule.userId, {
+      baseUrl: getPublicBaseUrl(),
+      correlationId,
+      userAgent: null
+    }, { scheduledGenerationId: schedule.id });
+    return { taskId: generation.taskId };
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -1,22 +1,222 @@
 import { 
   videoGenerations, 
   users,
+  generationJobs,
+  webhookAttempts,
+  brandPersonas,
+  promptTemplates,
+  scheduledGenerations,
+  generationAssets,
+  generationBatches,
+  generationBatchItems,
+  mediaUploads,
+  resumableUploads,
   type VideoGeneration, 
   type InsertVideoGeneration,
+  type GenerationJob,
+  type InsertGenerationJob,
+  type WebhookAttempt,
+  type InsertWebhookAttempt,
+  type BrandPersona,
+  type InsertBrandPersona,
+  type PromptTemplate,
+  type InsertPromptTemplate,
+  type ScheduledGeneration,
+  type InsertScheduledGeneration,
+  type GenerationAsset,
+  type InsertGenerationAsset,
+  type GenerationBatch,
+  type InsertGenerationBatch,
+  type GenerationBatchItem,
+  type MediaUpload,
+  type InsertMediaUpload,
+  type ResumableUpload,
+  type InsertResumableUpload,
   type User,
   type InsertUser 
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, or, isNull, and, gte } from "drizzle-orm";
+import { generationEvents } from "./lib/generationEvents";
+import { randomUUID } from "crypto";
+import { eq, desc, asc, or, isNull, isNotNull, and, gte, lt, lte, inArray, notInArray, ilike, sql, type SQL } from "drizzle-orm";
+import { canTransitionGeneration } from "@shared/generationStatus";
+import type { GenerationHistoryQuery, GenerationProgressCallback, GenerationStage } from "@shared/types";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Oldest stages are dropped beyond this so a chatty pipeline cannot grow rows without bound
+const MAX_GENERATION_STAGES = 50;
+
+export type GenerationHistoryFilters = Pick<GenerationHistoryQuery, "status" | "errorType" | "from" | "to" | "q">;
+
+export interface GenerationHistoryPage {
+  items: VideoGeneration[];
+  nextCursor: string | null;
+}
+
+export interface GenerationHistoryCounts {
+  total: number;
+  statusCounts: Record<string, number>;
+}
+
+export type GenerationLineageRow = Pick<VideoGeneration, "id" | "taskId" | "parentGenerationId" | "promptText" | "status" | "createdAt">;
+
+// Guards lineage walks against unexpectedly deep remix chains
+const MAX_LINEAGE_DEPTH = 50;
+
+export interface NewGenerationBatchItem {
+  rowIndex: number;
+  input: unknown;
+  error?: string;
+  // Accepted rows carry the generation and dispatch job to create
+  generation?: InsertVideoGeneration;
+  job?: Omit<InsertGenerationJob, 'taskId' | 'userId'>;
+}
+
+export type GenerationBatchWithCounts = GenerationBatch & { counts: Record<string, number> };
+
+export type GenerationBatchItemWithGeneration = GenerationBatchItem & {
+  generation: Pick<VideoGeneration, "id" | "taskId" | "status" | "errorMessage" | "videoPath"> | null;
+};
+
+// Retries put back on the queue, and due rows whose payload could not be rebuilt
+export interface RequeueResult {
+  requeued: VideoGeneration[];
+  abandoned: VideoGeneration[];
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid pagination cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Keyset cursor: the sort column value (as Postgres text, keeping microseconds) plus the row id
+function encodeCursor(value: string, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [string, string] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(decoded) && decoded.length === 2 && decoded.every((part) => typeof part === "string")) {
+      return decoded as [string, string];
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+export interface WebhookAttemptFilters {
+  since?: Date;
+  errorType?: string;
+  correlationId?: string;
+  taskId?: string;
+}
+
+export interface WebhookAttemptFailureStats {
+  total: number;
+  errorTypes: Record<string, number>;
+  responseStatuses: Record<string, number>;
+}
 
 export interface IStorage {
+  // Every generation read/update is scoped to the owning user
   createVideoGeneration(generation: InsertVideoGeneration): Promise<VideoGeneration>;
-  getVideoGenerationByTaskId(taskId: string): Promise<VideoGeneration | undefined>;
-  getVideoGenerationById(id: string): Promise<VideoGeneration | undefined>;
-  updateVideoGeneration(taskId: string, updates: Partial<VideoGeneration>): Promise<VideoGeneration | undefined>;
-  getCompletedVideoGenerations(limit?: number): Promise<VideoGeneration[]>;
-  getFailedVideoGenerations(limit?: number, since?: Date): Promise<VideoGeneration[]>;
-  getVideoGenerations(limit?: number, since?: Date): Promise<VideoGeneration[]>;
+  getVideoGenerationByTaskId(taskId: string, userId: string): Promise<VideoGeneration | undefined>;
+  getVideoGenerationById(id: string, userId: string): Promise<VideoGeneration | undefined>;
+  // Status changes go through transitionVideoGeneration so the state machine applies
+  updateVideoGeneration(taskId: string, userId: string, updates: Partial<Omit<VideoGeneration, "status">>): Promise<VideoGeneration | undefined>;
+  // Updates only while the row is still in one of the given statuses and the status change is legal
+  // (see shared/generationStatus); undefined when it has moved on. Output assets, if given, are saved in the same transaction.
+  transitionVideoGeneration(taskId: string, userId: string, from: VideoGeneration["status"][], updates: Partial<VideoGeneration>, assets?: Omit<InsertGenerationAsset, 'generationId'>[]): Promise<VideoGeneration | undefined>;
+  // Records pipeline progress on a pending or processing generation; a repeat of the latest stage updates it in place
+  recordGenerationStage(taskId: string, userId: string, progress: GenerationProgressCallback): Promise<VideoGeneration | undefined>;
+  // Cancels a pending or processing generation and drops its outstanding dispatch jobs
+  cancelVideoGeneration(taskId: string, userId: string): Promise<VideoGeneration | undefined>;
+  // Requeues a failed generation with retries left, together with its dispatch job
+  retryVideoGeneration(taskId: string, userId: string, payload: unknown, correlationId: string): Promise<VideoGeneration | undefined>;
+  getCompletedVideoGenerations(userId: string, limit?: number): Promise<VideoGeneration[]>;
+  getFailedVideoGenerations(userId: string, limit?: number, since?: Date): Promise<VideoGeneration[]>;
+  getVideoGenerations(userId: string, limit?: number, since?: Date): Promise<VideoGeneration[]>;
+  // Cursor-paginated history; throws InvalidCursorError for malformed cursors
+  queryVideoGenerations(userId: string, query: GenerationHistoryQuery): Promise<GenerationHistoryPage>;
+  countVideoGenerations(userId: string, filters: GenerationHistoryFilters): Promise<GenerationHistoryCounts>;
+  // The remix tree containing a generation, starting from its root; empty when the generation is not found
+  getGenerationLineage(id: string, userId: string): Promise<GenerationLineageRow[]>;
+  // Resolves the owner of a task for unauthenticated callers such as the n8n callback
+  getVideoGenerationOwnerId(taskId: string): Promise<string | undefined>;
+
+  // Generation dispatch queue
+  createVideoGenerationWithJob(generation: InsertVideoGeneration, job: Omit<InsertGenerationJob, 'taskId' | 'userId'>): Promise<{ generation: VideoGeneration; job: GenerationJob }>;
+  enqueueGenerationJob(job: InsertGenerationJob): Promise<GenerationJob>;
+  claimGenerationJobs(workerId: string, limit: number, visibilityTimeoutMs: number): Promise<GenerationJob[]>;
+  heartbeatGenerationJob(id: string, workerId: string): Promise<boolean>;
+  completeGenerationJob(id: string, workerId: string): Promise<void>;
+  rescheduleGenerationJob(id: string, workerId: string, runAt: Date, error: string): Promise<void>;
+  failGenerationJob(id: string, workerId: string, error: string): Promise<void>;
+  getGenerationJobCounts(): Promise<Record<string, number>>;
+
+  // Outbound webhook delivery log
+  recordWebhookAttempt(attempt: InsertWebhookAttempt): Promise<WebhookAttempt>;
+  // Matches attempts by correlation ID or task ID, oldest first
+  getWebhookAttemptTrace(traceId: string, userId: string): Promise<WebhookAttempt[]>;
+  getFailedWebhookAttempts(userId: string, filters: WebhookAttemptFilters, limit?: number): Promise<WebhookAttempt[]>;
+  getFailedWebhookAttemptStats(userId: string, filters: WebhookAttemptFilters): Promise<WebhookAttemptFailureStats>;
+
+  // Brand personas, scoped to their owner
+  getBrandPersonas(userId: string): Promise<BrandPersona[]>;
+  getBrandPersona(id: string, userId: string): Promise<BrandPersona | undefined>;
+  createBrandPersona(persona: InsertBrandPersona): Promise<BrandPersona>;
+  updateBrandPersona(id: string, userId: string, updates: Partial<Pick<BrandPersona, "name" | "description" | "imagePaths">>): Promise<BrandPersona | undefined>;
+  deleteBrandPersona(id: string, userId: string): Promise<boolean>;
+
+  // Prompt templates: readable when owned or shared, writable only by their owner
+  getPromptTemplates(userId: string): Promise<PromptTemplate[]>;
+  getPromptTemplate(id: string, userId: string): Promise<PromptTemplate | undefined>;
+  createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate>;
+  updatePromptTemplate(id: string, userId: string, updates: Partial<Pick<PromptTemplate, "name" | "body" | "shared">>): Promise<PromptTemplate | undefined>;
+  deletePromptTemplate(id: string, userId: string): Promise<boolean>;
+
+  // Output assets; callbacks save them through transitionVideoGeneration, picking also mirrors the asset onto the generation
+  getGenerationAssets(generationId: string, userId: string): Promise<GenerationAsset[] | undefined>;
+  pickGenerationAsset(generationId: string, assetId: string, userId: string): Promise<GenerationAsset | undefined>;
+
+  // Schedules; claiming advances nextRunAt in the same transaction so a run fires at most once
+  createScheduledGeneration(schedule: InsertScheduledGeneration): Promise<ScheduledGeneration>;
+  getScheduledGenerations(userId: string): Promise<ScheduledGeneration[]>;
+  getScheduledGeneration(id: string, userId: string): Promise<ScheduledGeneration | undefined>;
+  updateScheduledGeneration(id: string, userId: string, updates: Partial<Pick<ScheduledGeneration, "status" | "nextRunAt">>): Promise<ScheduledGeneration | undefined>;
+  deleteScheduledGeneration(id: string, userId: string): Promise<boolean>;
+  claimDueScheduledGenerations(limit: number, getNextRunAt: (schedule: ScheduledGeneration) => Date | null): Promise<ScheduledGeneration[]>;
+  recordScheduledGenerationRun(id: string, result: { taskId: string } | { error: string }): Promise<void>;
+
+  // Batches create every accepted row's generation and job in one transaction
+  createGenerationBatch(batch: InsertGenerationBatch, items: NewGenerationBatchItem[]): Promise<GenerationBatch>;
+  getGenerationBatches(userId: string, limit?: number): Promise<GenerationBatchWithCounts[]>;
+  getGenerationBatch(id: string, userId: string): Promise<{ batch: GenerationBatchWithCounts; items: GenerationBatchItemWithGeneration[] } | undefined>;
+
+  // Direct uploads; only a pending upload can be finished, so concurrent completions settle it once
+  createMediaUpload(upload: InsertMediaUpload): Promise<MediaUpload>;
+  getMediaUpload(id: string, userId: string): Promise<MediaUpload | undefined>;
+  finishMediaUpload(id: string, userId: string, result: { objectPath: string } | { error: string }): Promise<MediaUpload | undefined>;
+
+  // Resumable uploads; appending a chunk only succeeds at the expected offset, so concurrent PATCHes cannot interleave
+  createResumableUpload(upload: InsertResumableUpload): Promise<ResumableUpload>;
+  getResumableUpload(id: string, userId: string): Promise<ResumableUpload | undefined>;
+  appendResumableUploadChunk(id: string, userId: string, expectedOffset: number, chunkPath: string, bytes: number): Promise<ResumableUpload | undefined>;
+  completeResumableUpload(id: string, userId: string, objectPath: string): Promise<ResumableUpload | undefined>;
+  deleteResumableUpload(id: string, userId: string): Promise<ResumableUpload | undefined>;
+
+  // System-wide sweeps run by background schedulers (not user-scoped)
+  requeueDueRetries(limit: number, buildPayload: (generation: VideoGeneration) => unknown): Promise<RequeueResult>;
+  failStuckGenerations(status: "pending" | "processing", cutoff: Date, limit: number, options: { timeoutMs: number; autoRetry: boolean }): Promise<VideoGeneration[]>;
+  // Pending direct uploads whose completion window closed before cutoff, oldest first
+  getExpiredMediaUploads(cutoff: Date, limit: number): Promise<MediaUpload[]>;
+  // Resumable uploads of any status whose expiry passed before cutoff, oldest first
+  getExpiredResumableUploads(cutoff: Date, limit: number): Promise<ResumableUpload[]>;
 
   // User management for authentication
   getUser(id: string): Promise<User | undefined>;
@@ -32,38 +232,323 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async getVideoGenerationByTaskId(taskId: string): Promise<VideoGeneration | undefined> {
+  async getVideoGenerationByTaskId(taskId: string, userId: string): Promise<VideoGeneration | undefined> {
     const [generation] = await db
       .select()
       .from(videoGenerations)
-      .where(eq(videoGenerations.taskId, taskId));
+      .where(and(eq(videoGenerations.taskId, taskId), eq(videoGenerations.userId, userId)));
     return generation || undefined;
   }
 
-  async getVideoGenerationById(id: string): Promise<VideoGeneration | undefined> {
+  async getVideoGenerationById(id: string, userId: string): Promise<VideoGeneration | undefined> {
     const [generation] = await db
       .select()
       .from(videoGenerations)
-      .where(eq(videoGenerations.id, id));
+      .where(and(eq(videoGenerations.id, id), eq(videoGenerations.userId, userId)));
     return generation || undefined;
   }
 
-  async updateVideoGeneration(taskId: string, updates: Partial<Omit<VideoGeneration, 'id' | 'createdAt'>>): Promise<VideoGeneration | undefined> {
+  async updateVideoGeneration(taskId: string, userId: string, updates: Partial<Omit<VideoGeneration, 'id' | 'userId' | 'createdAt' | 'status'>>): Promise<VideoGeneration | undefined> {
     const [updated] = await db
       .update(videoGenerations)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(videoGenerations.taskId, taskId))
+      .where(and(eq(videoGenerations.taskId, taskId), eq(videoGenerations.userId, userId)))
       .returning();
+    if (updated) {
+      generationEvents.publish(updated);
+    }
     return updated || undefined;
   }
 
-  async getCompletedVideoGenerations(limit: number = 50): Promise<VideoGeneration[]> {
+  async transitionVideoGeneration(
+    taskId: string,
+    userId: string,
+    from: VideoGeneration["status"][],
+    updates: Partial<Omit<VideoGeneration, 'id' | 'userId' | 'createdAt'>>,
+    assets: Omit<InsertGenerationAsset, 'generationId'>[] = []
+  ): Promise<VideoGeneration | undefined> {
+    const to = updates.status;
+    const sources = to ? from.filter(status => canTransitionGeneration(status, to)) : from;
+    if (sources.length === 0) return undefined;
+
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(videoGenerations)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(
+          and(
+            eq(videoGenerations.taskId, taskId),
+            eq(videoGenerations.userId, userId),
+            inArray(videoGenerations.status, sources)
+          )
+        )
+        .returning();
+      if (!row || assets.length === 0) return row;
+      return await this.saveGenerationAssets(tx, row, assets);
+    });
+    if (updated) {
+      generationEvents.publish(updated);
+    }
+    return updated || undefined;
+  }
+
+  // Upserts by (kind, variantIndex) so a redelivered callback keeps asset IDs and the user's picks,
+  // and drops variants the callback no longer reports. A kind left without a pick takes the
+  // callback's default, and the generation's video/image paths follow the picks.
+  private async saveGenerationAssets(tx: Transaction, generation: VideoGeneration, assets: Omit<InsertGenerationAsset, 'generationId'>[]): Promise<VideoGeneration> {
+    const saved: GenerationAsset[] = [];
+    for (const asset of assets) {
+      const { isPick: _isPick, ...fields } = asset;
+      const [row] = await tx
+        .insert(generationAssets)
+        .values({ ...fields, generationId: generation.id })
+        .onConflictDoUpdate({
+          target: [generationAssets.generationId, generationAssets.kind, generationAssets.variantIndex],
+          set: {
+            path: fields.path,
+            mime: fields.mime ?? null,
+            sizeBytes: fields.sizeBytes ?? null,
+            durationSeconds: fields.durationSeconds ?? null,
+            width: fields.width ?? null,
+            height: fields.height ?? null
+          }
+        })
+        .returning();
+      saved.push(row);
+    }
+
+    await tx
+      .delete(generationAssets)
+      .where(and(
+        eq(generationAssets.generationId, generation.id),
+        notInArray(generationAssets.id, saved.map((asset) => asset.id))
+      ));
+
+    for (const fallback of assets.filter((asset) => asset.isPick)) {
+      if (saved.some((asset) => asset.kind === fallback.kind && asset.isPick)) continue;
+      const pick = saved.find((asset) => asset.kind === fallback.kind && asset.variantIndex === (fallback.variantIndex ?? 0));
+      if (!pick) continue;
+      await tx.update(generationAssets).set({ isPick: true }).where(eq(generationAssets.id, pick.id));
+      pick.isPick = true;
+    }
+
+    const pickedVideo = saved.find((asset) => asset.kind === "video" && asset.isPick);
+    const pickedImage = saved.find((asset) => asset.kind === "image" && asset.isPick);
+    if (!pickedVideo && !pickedImage) return generation;
+
+    const [mirrored] = await tx
+      .update(videoGenerations)
+      .set({
+        ...(pickedVideo ? { videoPath: pickedVideo.path } : {}),
+        ...(pickedImage ? { imageGenerationPath: pickedImage.path } : {})
+      })
+      .where(eq(videoGenerations.id, generation.id))
+      .returning();
+    return mirrored;
+  }
+
+  async recordGenerationStage(taskId: string, userId: string, progress: GenerationProgressCallback): Promise<VideoGeneration | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ id: videoGenerations.id, stageHistory: videoGenerations.stageHistory })
+        .from(videoGenerations)
+        .where(and(
+          eq(videoGenerations.taskId, taskId),
+          eq(videoGenerations.userId, userId),
+          inArray(videoGenerations.status, ["pending", "processing"])
+        ))
+        .for("update");
+      if (!current) return undefined;
+
+      const reportedAt = new Date().toISOString();
+      const history = current.stageHistory ?? [];
+      const latest = history[history.length - 1];
+      const stage: GenerationStage = {
+        stage: progress.stage,
+        percent: progress.percent ?? null,
+        message: progress.message ?? null,
+        previewAsset: progress.previewAsset ?? null,
+        startedAt: latest?.stage === progress.stage ? latest.startedAt : reportedAt,
+        updatedAt: reportedAt
+      };
+      // A later report without a preview keeps the stage's earlier one
+      if (latest?.stage === progress.stage && !stage.previewAsset) {
+        stage.previewAsset = latest.previewAsset;
+      }
+      const stageHistory = latest?.stage === progress.stage
+        ? [...history.slice(0, -1), stage]
+        : [...history, stage].slice(-MAX_GENERATION_STAGES);
+
+      // Status is left alone: dispatch still owns the pending -> processing transition.
+      // Bumping updatedAt keeps the stuck-generation reaper off rows that are still reporting.
+      const [row] = await tx
+        .update(videoGenerations)
+        .set({ stageHistory, updatedAt: new Date() })
+        .where(eq(videoGenerations.id, current.id))
+        .returning();
+      return row;
+    });
+    if (updated) {
+      generationEvents.publish(updated);
+    }
+    return updated;
+  }
+
+  async cancelVideoGeneration(taskId: string, userId: string): Promise<VideoGeneration | undefined> {
+    const cancelled = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(videoGenerations)
+        .set({ status: "cancelled", nextRetryAt: null, updatedAt: new Date() })
+        .where(
+          and(
+            eq(videoGenerations.taskId, taskId),
+            eq(videoGenerations.userId, userId),
+            inArray(videoGenerations.status, ["pending", "processing"])
+          )
+        )
+        .returning();
+      if (!updated) return undefined;
+
+      await this.failOutstandingJobs(tx, [taskId], "Generation cancelled");
+      return updated;
+    });
+    if (cancelled) {
+      generationEvents.publish(cancelled);
+    }
+    return cancelled;
+  }
+
+  async queryVideoGenerations(userId: string, query: GenerationHistoryQuery): Promise<GenerationHistoryPage> {
+    const sortColumn = query.sort === "updatedAt" ? videoGenerations.updatedAt : videoGenerations.createdAt;
+    // Both timestamps are nullable; missing ones sort as the epoch so every row has a cursor value
+    const sortValue = sql`coalesce(${sortColumn}, 'epoch'::timestamp)`;
+    const whereConditions = this.historyConditions(userId, query);
+
+    if (query.cursor) {
+      const [value, id] = decodeCursor(query.cursor);
+      whereConditions.push(query.order === "asc"
+        ? sql`(${sortValue}, ${videoGenerations.id}) > (${value}::timestamp, ${id}::uuid)`
+        : sql`(${sortValue}, ${videoGenerations.id}) < (${value}::timestamp, ${id}::uuid)`);
+    }
+
+    const direction = query.order === "asc" ? asc : desc;
+    const rows = await db
+      .select({ generation: videoGenerations, sortValue: sql<string>`${sortValue}::text` })
+      .from(videoGenerations)
+      .where(and(...whereConditions))
+      .orderBy(direction(sortValue), direction(videoGenerations.id))
+      .limit(query.limit + 1);
+
+    // The extra row only tells us whether another page exists
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => row.generation),
+      nextCursor: rows.length > query.limit && last ? encodeCursor(last.sortValue, last.generation.id) : null
+    };
+  }
+
+  async countVideoGenerations(userId: string, filters: GenerationHistoryFilters): Promise<GenerationHistoryCounts> {
+    // Per-status counts ignore the status filter so every chip shows what selecting it would return
+    const rows = await db
+      .select({ status: videoGenerations.status, count: sql<number>`count(*)::int` })
+      .from(videoGenerations)
+      .where(and(...this.historyConditions(userId, { ...filters, status: undefined })))
+      .groupBy(videoGenerations.status);
+
+    const statuses = filters.status?.length ? filters.status : undefined;
+    const statusCounts: Record<string, number> = {};
+    let total = 0;
+    for (const row of rows) {
+      statusCounts[row.status] = row.count;
+      if (!statuses || statuses.includes(row.status)) {
+        total += row.count;
+      }
+    }
+    return { total, statusCounts };
+  }
+
+  private historyConditions(userId: string, filters: GenerationHistoryFilters): SQL[] {
+    const whereConditions: SQL[] = [eq(videoGenerations.userId, userId)];
+
+    if (filters.status?.length) {
+      whereConditions.push(inArray(videoGenerations.status, filters.status));
+    }
+    if (filters.errorType?.length) {
+      whereConditions.push(inArray(videoGenerations.errorType, filters.errorType));
+    }
+    if (filters.from) {
+      whereConditions.push(gte(videoGenerations.createdAt, filters.from));
+    }
+    if (filters.to) {
+      whereConditions.push(lte(videoGenerations.createdAt, filters.to));
+    }
+    if (filters.q) {
+      const escaped = filters.q.replace(/[\\%_]/g, (char) => `\\${char}`);
+      whereConditions.push(ilike(videoGenerations.promptText, `%${escaped}%`));
+    }
+
+    return whereConditions;
+  }
+
+  async getGenerationLineage(id: string, userId: string): Promise<GenerationLineageRow[]> {
+    const columns = {
+      id: videoGenerations.id,
+      taskId: videoGenerations.taskId,
+      parentGenerationId: videoGenerations.parentGenerationId,
+      promptText: videoGenerations.promptText,
+      status: videoGenerations.status,
+      createdAt: videoGenerations.createdAt
+    };
+    const findOne = async (generationId: string) => {
+      const [row] = await db
+        .select(columns)
+        .from(videoGenerations)
+        .where(and(eq(videoGenerations.id, generationId), eq(videoGenerations.userId, userId)));
+      return row;
+    };
+
+    let root = await findOne(id);
+    if (!root) return [];
+
+    // Walk up to the root, then collect descendants one level at a time
+    for (let depth = 0; root.parentGenerationId && depth < MAX_LINEAGE_DEPTH; depth++) {
+      const parent = await findOne(root.parentGenerationId);
+      if (!parent) break;
+      root = parent;
+    }
+
+    const rows: GenerationLineageRow[] = [root];
+    let frontier = [root.id];
+    for (let depth = 0; frontier.length > 0 && depth < MAX_LINEAGE_DEPTH; depth++) {
+      const children = await db
+        .select(columns)
+        .from(videoGenerations)
+        .where(and(inArray(videoGenerations.parentGenerationId, frontier), eq(videoGenerations.userId, userId)))
+        .orderBy(asc(videoGenerations.createdAt));
+      rows.push(...children);
+      frontier = children.map((child) => child.id);
+    }
+
+    return rows;
+  }
+
+  async getVideoGenerationOwnerId(taskId: string): Promise<string | undefined> {
+    const [row] = await db
+      .select({ userId: videoGenerations.userId })
+      .from(videoGenerations)
+      .where(eq(videoGenerations.taskId, taskId));
+    return row?.userId;
+  }
+
+  async getCompletedVideoGenerations(userId: string, limit: number = 50): Promise<VideoGeneration[]> {
     return await db
       .select()
       .from(videoGenerations)
       .where(
         and(
-          or(eq(videoGenerations.status, "completed"), eq(videoGenerations.status, "200")),
+          eq(videoGenerations.userId, userId),
+          eq(videoGenerations.status, "completed"),
           isNull(videoGenerations.errorMessage)
         )
       )
@@ -71,8 +556,9 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
-  async getFailedVideoGenerations(limit: number = 50, since?: Date): Promise<VideoGeneration[]> {
+  async getFailedVideoGenerations(userId: string, limit: number = 50, since?: Date): Promise<VideoGeneration[]> {
     const whereConditions = [
+      eq(videoGenerations.userId, userId),
       eq(videoGenerations.status, "failed")
     ];
 
@@ -88,8 +574,10 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
-  async getVideoGenerations(limit: number = 50, since?: Date): Promise<VideoGeneration[]> {
-    const whereConditions: any[] = [];
+  async getVideoGenerations(userId: string, limit: number = 50, since?: Date): Promise<VideoGeneration[]> {
+    const whereConditions = [
+      eq(videoGenerations.userId, userId)
+    ];
 
     if (since) {
       whereConditions.push(gte(videoGenerations.createdAt, since));
@@ -98,11 +586,770 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(videoGenerations)
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .where(and(...whereConditions))
       .orderBy(desc(videoGenerations.createdAt))
       .limit(limit);
   }
 
+  // Inserts the generation and its dispatch job atomically so a queued row never lacks a job
+  async createVideoGenerationWithJob(
+    generation: InsertVideoGeneration,
+    job: Omit<InsertGenerationJob, 'taskId' | 'userId'>
+  ): Promise<{ generation: VideoGeneration; job: GenerationJob }> {
+    return await db.transaction(async (tx) => {
+      const [createdGeneration] = await tx
+        .insert(videoGenerations)
+        .values([generation])
+        .returning();
+      const [createdJob] = await tx
+        .insert(generationJobs)
+        .values([{ ...job, taskId: createdGeneration.taskId, userId: createdGeneration.userId }])
+        .returning();
+      return { generation: createdGeneration, job: createdJob };
+    });
+  }
+
+  async enqueueGenerationJob(job: InsertGenerationJob): Promise<GenerationJob> {
+    const [created] = await db
+      .insert(generationJobs)
+      .values([job])
+      .returning();
+    return created;
+  }
+
+  // Claims due jobs plus running jobs whose lease expired (crashed or stalled workers).
+  // SKIP LOCKED lets concurrent workers on other instances claim disjoint batches.
+  async claimGenerationJobs(workerId: string, limit: number, visibilityTimeoutMs: number): Promise<GenerationJob[]> {
+    const now = new Date();
+    const leaseExpiredBefore = new Date(now.getTime() - visibilityTimeoutMs);
+
+    const claimable = db
+      .select({ id: generationJobs.id })
+      .from(generationJobs)
+      .where(
+        or(
+          and(eq(generationJobs.status, "queued"), lte(generationJobs.runAt, now)),
+          and(eq(generationJobs.status, "running"), lt(generationJobs.lockedAt, leaseExpiredBefore))
+        )
+      )
+      .orderBy(generationJobs.runAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(generationJobs)
+      .set({
+        status: "running",
+        lockedAt: now,
+        lockedBy: workerId,
+        attempts: sql`${generationJobs.attempts} + 1`,
+        updatedAt: now
+      })
+      .where(inArray(generationJobs.id, claimable))
+      .returning();
+  }
+
+  // Extends the lease; returns false when another worker has taken the job over
+  async heartbeatGenerationJob(id: string, workerId: string): Promise<boolean> {
+    const [updated] = await db
+      .update(generationJobs)
+      .set({ lockedAt: new Date() })
+      .where(and(eq(generationJobs.id, id), eq(generationJobs.lockedBy, workerId), eq(generationJobs.status, "running")))
+      .returning({ id: generationJobs.id });
+    return !!updated;
+  }
+
+  async completeGenerationJob(id: string, workerId: string): Promise<void> {
+    await db
+      .update(generationJobs)
+      .set({ status: "succeeded", lockedAt: null, lockedBy: null, updatedAt: new Date() })
+      .where(and(eq(generationJobs.id, id), eq(generationJobs.lockedBy, workerId)));
+  }
+
+  async rescheduleGenerationJob(id: string, workerId: string, runAt: Date, error: string): Promise<void> {
+    await db
+      .update(generationJobs)
+      .set({ status: "queued", runAt, lastError: error, lockedAt: null, lockedBy: null, updatedAt: new Date() })
+      .where(and(eq(generationJobs.id, id), eq(generationJobs.lockedBy, workerId)));
+  }
+
+  async failGenerationJob(id: string, workerId: string, error: string): Promise<void> {
+    await db
+      .update(generationJobs)
+      .set({ status: "failed", lastError: error, lockedAt: null, lockedBy: null, updatedAt: new Date() })
+      .where(and(eq(generationJobs.id, id), eq(generationJobs.lockedBy, workerId)));
+  }
+
+  async getGenerationJobCounts(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: generationJobs.status, count: sql<number>`count(*)::int` })
+      .from(generationJobs)
+      .groupBy(generationJobs.status);
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  async recordWebhookAttempt(attempt: InsertWebhookAttempt): Promise<WebhookAttempt> {
+    const [created] = await db
+      .insert(webhookAttempts)
+      .values([attempt])
+      .returning();
+    return created;
+  }
+
+  async getWebhookAttemptTrace(traceId: string, userId: string): Promise<WebhookAttempt[]> {
+    return await db
+      .select()
+      .from(webhookAttempts)
+      .where(
+        and(
+          eq(webhookAttempts.userId, userId),
+          or(eq(webhookAttempts.correlationId, traceId), eq(webhookAttempts.taskId, traceId))
+        )
+      )
+      .orderBy(webhookAttempts.createdAt);
+  }
+
+  async getFailedWebhookAttempts(userId: string, filters: WebhookAttemptFilters, limit: number = 50): Promise<WebhookAttempt[]> {
+    return await db
+      .select()
+      .from(webhookAttempts)
+      .where(this.failedWebhookAttemptConditions(userId, filters))
+      .orderBy(desc(webhookAttempts.createdAt))
+      .limit(limit);
+  }
+
+  async getFailedWebhookAttemptStats(userId: string, filters: WebhookAttemptFilters): Promise<WebhookAttemptFailureStats> {
+    const rows = await db
+      .select({
+        errorType: webhookAttempts.errorType,
+        responseStatus: webhookAttempts.responseStatus,
+        count: sql<number>`count(*)::int`
+      })
+      .from(webhookAttempts)
+      .where(this.failedWebhookAttemptConditions(userId, filters))
+      .groupBy(webhookAttempts.errorType, webhookAttempts.responseStatus);
+
+    const stats: WebhookAttemptFailureStats = { total: 0, errorTypes: {}, responseStatuses: {} };
+    for (const row of rows) {
+      const errorType = row.errorType || 'unknown';
+      const responseStatus = row.responseStatus?.toString() || 'no_response';
+      stats.total += row.count;
+      stats.errorTypes[errorType] = (stats.errorTypes[errorType] || 0) + row.count;
+      stats.responseStatuses[responseStatus] = (stats.responseStatuses[responseStatus] || 0) + row.count;
+    }
+    return stats;
+  }
+
+  private failedWebhookAttemptConditions(userId: string, filters: WebhookAttemptFilters) {
+    const whereConditions = [
+      eq(webhookAttempts.userId, userId),
+      isNotNull(webhookAttempts.errorType)
+    ];
+
+    if (filters.since) {
+      whereConditions.push(gte(webhookAttempts.createdAt, filters.since));
+    }
+    if (filters.errorType) {
+      whereConditions.push(eq(webhookAttempts.errorType, filters.errorType as NonNullable<WebhookAttempt["errorType"]>));
+    }
+    if (filters.correlationId) {
+      whereConditions.push(eq(webhookAttempts.correlationId, filters.correlationId));
+    }
+    if (filters.taskId) {
+      whereConditions.push(eq(webhookAttempts.taskId, filters.taskId));
+    }
+
+    return and(...whereConditions);
+  }
+
+  // Moves failed generations whose nextRetryAt has passed back to pending and enqueues a
+  // dispatch job for each. Row locks with SKIP LOCKED keep concurrent instances from
+  // picking up the same generation. A row whose payload cannot be rebuilt stops retrying
+  // instead of rolling back the whole batch on every sweep.
+  async requeueDueRetries(limit: number, buildPayload: (generation: VideoGeneration) => unknown): Promise<RequeueResult> {
+    const result = await db.transaction(async (tx) => {
+      const due = await tx
+        .select()
+        .from(videoGenerations)
+        .where(
+          and(
+            eq(videoGenerations.status, "failed"),
+            lte(videoGenerations.nextRetryAt, new Date()),
+            sql`coalesce(${videoGenerations.retryCount}, '0')::int < coalesce(${videoGenerations.maxRetries}, '3')::int`
+          )
+        )
+        .orderBy(videoGenerations.nextRetryAt)
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      const requeued: VideoGeneration[] = [];
+      const abandoned: VideoGeneration[] = [];
+      for (const generation of due) {
+        let payload: unknown;
+        try {
+          payload = buildPayload(generation);
+        } catch (error) {
+          const [failed] = await tx
+            .update(videoGenerations)
+            .set({
+              nextRetryAt: null,
+              errorMessage: `Automatic retry abandoned: ${error instanceof Error ? error.message : String(error)}`,
+              errorType: "validation_error",
+              updatedAt: new Date()
+            })
+            .where(eq(videoGenerations.id, generation.id))
+            .returning();
+          abandoned.push(failed);
+          continue;
+        }
+
+        requeued.push(await this.requeueFailedGeneration(tx, generation, payload, randomUUID()));
+      }
+      return { requeued, abandoned };
+    });
+    [...result.requeued, ...result.abandoned].forEach((generation) => generationEvents.publish(generation));
+    return result;
+  }
+
+  // Manual retry: requeues a failed generation that still has retries left; undefined when it does not qualify
+  async retryVideoGeneration(taskId: string, userId: string, payload: unknown, correlationId: string): Promise<VideoGeneration | undefined> {
+    const requeued = await db.transaction(async (tx) => {
+      const [generation] = await tx
+        .select()
+        .from(videoGenerations)
+        .where(and(
+          eq(videoGenerations.taskId, taskId),
+          eq(videoGenerations.userId, userId),
+          eq(videoGenerations.status, "failed"),
+          sql`coalesce(${videoGenerations.retryCount}, '0')::int < coalesce(${videoGenerations.maxRetries}, '3')::int`
+        ))
+        .for("update");
+      if (!generation) return undefined;
+      return await this.requeueFailedGeneration(tx, generation, payload, correlationId);
+    });
+    if (requeued) {
+      generationEvents.publish(requeued);
+    }
+    return requeued;
+  }
+
+  // Moves a failed generation back to pending with a fresh dispatch job; the queue worker handles
+  // the submission and, if it fails again, the next automatic retry
+  private async requeueFailedGeneration(tx: Transaction, generation: VideoGeneration, payload: unknown, correlationId: string): Promise<VideoGeneration> {
+    const [updated] = await tx
+      .update(videoGenerations)
+      .set({
+        status: "pending",
+        retryCount: (parseInt(generation.retryCount || "0") + 1).toString(),
+        nextRetryAt: null,
+        errorMessage: null,
+        errorDetails: null,
+        errorType: null,
+        webhookResponseStatus: null,
+        webhookResponseBody: null,
+        stageHistory: null,
+        updatedAt: new Date()
+      })
+      .where(eq(videoGenerations.id, generation.id))
+      .returning();
+
+    await tx
+      .insert(generationJobs)
+      .values([{
+        taskId: updated.taskId,
+        userId: updated.userId,
+        payload,
+        correlationId
+      }]);
+    return updated;
+  }
+
+  async failStuckGenerations(status: "pending" | "processing", cutoff: Date, limit: number, options: { timeoutMs: number; autoRetry: boolean }): Promise<VideoGeneration[]> {
+    const reaped = await db.transaction(async (tx) => {
+      const stuck = await tx
+        .select({ id: videoGenerations.id, taskId: videoGenerations.taskId })
+        .from(videoGenerations)
+        .where(and(
+          eq(videoGenerations.status, status),
+          lt(videoGenerations.updatedAt, cutoff),
+          // Rows whose dispatch was deliberately deferred (e.g. rate-limited batch rows) are timed from their run time
+          sql`not exists (select 1 from ${generationJobs} where ${generationJobs.taskId} = ${videoGenerations.taskId} and ${generationJobs.runAt} >= ${cutoff})`
+        ))
+        .orderBy(videoGenerations.updatedAt)
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      if (stuck.length === 0) return [];
+
+      const detectedAt = new Date();
+      // With auto-retry on, rows that still have retries left become due for the retry scheduler right away
+      const nextRetryAt = options.autoRetry
+        ? sql`case when coalesce(${videoGenerations.retryCount}, '0')::int < coalesce(${videoGenerations.maxRetries}, '3')::int then now() else null end`
+        : null;
+
+      const reaped = await tx
+        .update(videoGenerations)
+        .set({
+          status: "failed",
+          errorType: "callback_timeout",
+          errorMessage: `Generation timed out after ${Math.round(options.timeoutMs / 60000)} minutes in ${status} status`,
+          errorDetails: {
+            reason: "callback_timeout",
+            status,
+            timeoutMs: options.timeoutMs,
+            detectedAt: detectedAt.toISOString()
+          },
+          nextRetryAt,
+          updatedAt: detectedAt
+        })
+        .where(inArray(videoGenerations.id, stuck.map((row) => row.id)))
+        .returning();
+
+      // Outstanding dispatch jobs for reaped tasks must not fire after the row has failed
+      await this.failOutstandingJobs(tx, stuck.map((row) => row.taskId), "Generation reaped after callback timeout");
+
+      return reaped;
+    });
+    reaped.forEach((generation) => generationEvents.publish(generation));
+    return reaped;
+  }
+
+  async getExpiredMediaUploads(cutoff: Date, limit: number): Promise<MediaUpload[]> {
+    return await db
+      .select()
+      .from(mediaUploads)
+      .where(and(eq(mediaUploads.status, "pending"), lt(mediaUploads.expiresAt, cutoff)))
+      .orderBy(mediaUploads.expiresAt)
+      .limit(limit);
+  }
+
+  async getExpiredResumableUploads(cutoff: Date, limit: number): Promise<ResumableUpload[]> {
+    return await db
+      .select()
+      .from(resumableUploads)
+      .where(lt(resumableUploads.expiresAt, cutoff))
+      .orderBy(resumableUploads.expiresAt)
+      .limit(limit);
+  }
+
+  // Releases queued or running jobs for tasks that no longer need dispatching
+  private async failOutstandingJobs(tx: Transaction, taskIds: string[], reason: string): Promise<void> {
+    await tx
+      .update(generationJobs)
+      .set({
+        status: "failed",
+        lastError: reason,
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          inArray(generationJobs.taskId, taskIds),
+          inArray(generationJobs.status, ["queued", "running"])
+        )
+      );
+  }
+
+  // Brand personas, scoped to their owner
+  async getBrandPersonas(userId: string): Promise<BrandPersona[]> {
+    return await db
+      .select()
+      .from(brandPersonas)
+      .where(eq(brandPersonas.userId, userId))
+      .orderBy(asc(brandPersonas.name));
+  }
+
+  async getBrandPersona(id: string, userId: string): Promise<BrandPersona | undefined> {
+    const [persona] = await db
+      .select()
+      .from(brandPersonas)
+      .where(and(eq(brandPersonas.id, id), eq(brandPersonas.userId, userId)));
+    return persona || undefined;
+  }
+
+  async createBrandPersona(persona: InsertBrandPersona): Promise<BrandPersona> {
+    const [created] = await db
+      .insert(brandPersonas)
+      .values(persona)
+      .returning();
+    return created;
+  }
+
+  async updateBrandPersona(id: string, userId: string, updates: Partial<Pick<BrandPersona, "name" | "description" | "imagePaths">>): Promise<BrandPersona | undefined> {
+    const [updated] = await db
+      .update(brandPersonas)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(brandPersonas.id, id), eq(brandPersonas.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Generations keep their persona snapshot; only the reference is cleared
+  async deleteBrandPersona(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(brandPersonas)
+      .where(and(eq(brandPersonas.id, id), eq(brandPersonas.userId, userId)))
+      .returning({ id: brandPersonas.id });
+    return deleted.length > 0;
+  }
+
+  async getPromptTemplates(userId: string): Promise<PromptTemplate[]> {
+    return await db
+      .select()
+      .from(promptTemplates)
+      .where(or(eq(promptTemplates.userId, userId), eq(promptTemplates.shared, true)))
+      .orderBy(asc(promptTemplates.name));
+  }
+
+  async getPromptTemplate(id: string, userId: string): Promise<PromptTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(promptTemplates)
+      .where(and(
+        eq(promptTemplates.id, id),
+        or(eq(promptTemplates.userId, userId), eq(promptTemplates.shared, true))
+      ));
+    return template || undefined;
+  }
+
+  async createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate> {
+    const [created] = await db
+      .insert(promptTemplates)
+      .values(template)
+      .returning();
+    return created;
+  }
+
+  async updatePromptTemplate(id: string, userId: string, updates: Partial<Pick<PromptTemplate, "name" | "body" | "shared">>): Promise<PromptTemplate | undefined> {
+    const [updated] = await db
+      .update(promptTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(promptTemplates.id, id), eq(promptTemplates.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Generations keep their expanded prompt and variable values; only the reference is cleared
+  async deletePromptTemplate(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(promptTemplates)
+      .where(and(eq(promptTemplates.id, id), eq(promptTemplates.userId, userId)))
+      .returning({ id: promptTemplates.id });
+    return deleted.length > 0;
+  }
+
+  // Undefined when the generation does not belong to the user
+  async getGenerationAssets(generationId: string, userId: string): Promise<GenerationAsset[] | undefined> {
+    const generation = await this.getVideoGenerationById(generationId, userId);
+    if (!generation) return undefined;
+
+    return await db
+      .select()
+      .from(generationAssets)
+      .where(eq(generationAssets.generationId, generationId))
+      .orderBy(asc(generationAssets.kind), asc(generationAssets.variantIndex));
+  }
+
+  async pickGenerationAsset(generationId: string, assetId: string, userId: string): Promise<GenerationAsset | undefined> {
+    const result = await db.transaction(async (tx) => {
+      const [owned] = await tx
+        .select({ asset: generationAssets })
+        .from(generationAssets)
+        .innerJoin(videoGenerations, eq(generationAssets.generationId, videoGenerations.id))
+        .where(and(
+          eq(generationAssets.id, assetId),
+          eq(generationAssets.generationId, generationId),
+          eq(videoGenerations.userId, userId)
+        ));
+      if (!owned) return undefined;
+
+      const { asset } = owned;
+      await tx
+        .update(generationAssets)
+        .set({ isPick: sql`${generationAssets.id} = ${asset.id}` })
+        .where(and(eq(generationAssets.generationId, generationId), eq(generationAssets.kind, asset.kind)));
+
+      // Existing video and image displays read these columns
+      const mirrored = asset.kind === "video" ? { videoPath: asset.path }
+        : asset.kind === "image" ? { imageGenerationPath: asset.path }
+        : null;
+      let generation: VideoGeneration | undefined;
+      if (mirrored) {
+        [generation] = await tx
+          .update(videoGenerations)
+          .set({ ...mirrored, updatedAt: new Date() })
+          .where(eq(videoGenerations.id, generationId))
+          .returning();
+      }
+      return { asset: { ...asset, isPick: true }, generation };
+    });
+
+    if (result?.generation) {
+      generationEvents.publish(result.generation);
+    }
+    return result?.asset;
+  }
+
+  async createScheduledGeneration(schedule: InsertScheduledGeneration): Promise<ScheduledGeneration> {
+    const [created] = await db
+      .insert(scheduledGenerations)
+      .values(schedule)
+      .returning();
+    return created;
+  }
+
+  async getScheduledGenerations(userId: string): Promise<ScheduledGeneration[]> {
+    return await db
+      .select()
+      .from(scheduledGenerations)
+      .where(eq(scheduledGenerations.userId, userId))
+      .orderBy(desc(scheduledGenerations.createdAt));
+  }
+
+  async getScheduledGeneration(id: string, userId: string): Promise<ScheduledGeneration | undefined> {
+    const [schedule] = await db
+      .select()
+      .from(scheduledGenerations)
+      .where(and(eq(scheduledGenerations.id, id), eq(scheduledGenerations.userId, userId)));
+    return schedule || undefined;
+  }
+
+  async updateScheduledGeneration(id: string, userId: string, updates: Partial<Pick<ScheduledGeneration, "status" | "nextRunAt">>): Promise<ScheduledGeneration | undefined> {
+    const [updated] = await db
+      .update(scheduledGenerations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(scheduledGenerations.id, id), eq(scheduledGenerations.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Generations already created by the schedule keep existing; only their reference is cleared
+  async deleteScheduledGeneration(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(scheduledGenerations)
+      .where(and(eq(scheduledGenerations.id, id), eq(scheduledGenerations.userId, userId)))
+      .returning({ id: scheduledGenerations.id });
+    return deleted.length > 0;
+  }
+
+  // SKIP LOCKED lets schedulers on other instances claim disjoint schedules.
+  // A null next run completes the schedule (one-off schedules, or cron expressions with no further match).
+  async claimDueScheduledGenerations(limit: number, getNextRunAt: (schedule: ScheduledGeneration) => Date | null): Promise<ScheduledGeneration[]> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const due = await tx
+        .select()
+        .from(scheduledGenerations)
+        .where(and(eq(scheduledGenerations.status, "active"), lte(scheduledGenerations.nextRunAt, now)))
+        .orderBy(scheduledGenerations.nextRunAt)
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      const claimed: ScheduledGeneration[] = [];
+      for (const schedule of due) {
+        const nextRunAt = getNextRunAt(schedule);
+        const [updated] = await tx
+          .update(scheduledGenerations)
+          .set({
+            nextRunAt,
+            status: nextRunAt ? "active" : "completed",
+            lastRunAt: now,
+            runCount: sql`${scheduledGenerations.runCount} + 1`,
+            updatedAt: now
+          })
+          .where(eq(scheduledGenerations.id, schedule.id))
+          .returning();
+        claimed.push(updated);
+      }
+      return claimed;
+    });
+  }
+
+  async recordScheduledGenerationRun(id: string, result: { taskId: string } | { error: string }): Promise<void> {
+    await db
+      .update(scheduledGenerations)
+      .set('taskId' in result
+        ? { lastTaskId: result.taskId, lastError: null, updatedAt: new Date() }
+        : { lastError: result.error, updatedAt: new Date() })
+      .where(eq(scheduledGenerations.id, id));
+  }
+
+  async createGenerationBatch(batch: InsertGenerationBatch, items: NewGenerationBatchItem[]): Promise<GenerationBatch> {
+    return await db.transaction(async (tx) => {
+      const [createdBatch] = await tx
+        .insert(generationBatches)
+        .values(batch)
+        .returning();
+
+      const accepted = items.filter((item) => item.generation && item.job);
+      if (accepted.length > 0) {
+        await tx
+          .insert(videoGenerations)
+          .values(accepted.map((item) => item.generation!));
+        await tx
+          .insert(generationJobs)
+          .values(accepted.map((item) => ({ ...item.job!, taskId: item.generation!.taskId, userId: batch.userId })));
+      }
+
+      if (items.length > 0) {
+        await tx
+          .insert(generationBatchItems)
+          .values(items.map((item) => ({
+            batchId: createdBatch.id,
+            rowIndex: item.rowIndex,
+            taskId: item.generation?.taskId ?? null,
+            input: item.input ?? null,
+            scheduledFor: item.job?.runAt ?? null,
+            error: item.error ?? null
+          })));
+      }
+
+      return createdBatch;
+    });
+  }
+
+  async getGenerationBatches(userId: string, limit: number = 20): Promise<GenerationBatchWithCounts[]> {
+    const batches = await db
+      .select()
+      .from(generationBatches)
+      .where(eq(generationBatches.userId, userId))
+      .orderBy(desc(generationBatches.createdAt))
+      .limit(limit);
+
+    const counts = await this.getGenerationBatchCounts(batches.map((batch) => batch.id));
+    return batches.map((batch) => ({ ...batch, counts: counts.get(batch.id) ?? {} }));
+  }
+
+  async getGenerationBatch(id: string, userId: string): Promise<{ batch: GenerationBatchWithCounts; items: GenerationBatchItemWithGeneration[] } | undefined> {
+    const [batch] = await db
+      .select()
+      .from(generationBatches)
+      .where(and(eq(generationBatches.id, id), eq(generationBatches.userId, userId)));
+    if (!batch) return undefined;
+
+    const rows = await db
+      .select({
+        item: generationBatchItems,
+        generationId: videoGenerations.id,
+        status: videoGenerations.status,
+        errorMessage: videoGenerations.errorMessage,
+        videoPath: videoGenerations.videoPath
+      })
+      .from(generationBatchItems)
+      .leftJoin(videoGenerations, eq(generationBatchItems.taskId, videoGenerations.taskId))
+      .where(eq(generationBatchItems.batchId, id))
+      .orderBy(asc(generationBatchItems.rowIndex));
+
+    const items = rows.map((row) => ({
+      ...row.item,
+      generation: row.generationId && row.item.taskId && row.status
+        ? { id: row.generationId, taskId: row.item.taskId, status: row.status, errorMessage: row.errorMessage, videoPath: row.videoPath }
+        : null
+    }));
+    const counts = await this.getGenerationBatchCounts([id]);
+    return { batch: { ...batch, counts: counts.get(id) ?? {} }, items };
+  }
+
+  // Items without a generation were rejected at submission
+  private async getGenerationBatchCounts(batchIds: string[]): Promise<Map<string, Record<string, number>>> {
+    const counts = new Map<string, Record<string, number>>();
+    if (batchIds.length === 0) return counts;
+
+    const status = sql<string>`coalesce(${videoGenerations.status}, 'rejected')`;
+    const rows = await db
+      .select({ batchId: generationBatchItems.batchId, status, count: sql<number>`count(*)::int` })
+      .from(generationBatchItems)
+      .leftJoin(videoGenerations, eq(generationBatchItems.taskId, videoGenerations.taskId))
+      .where(inArray(generationBatchItems.batchId, batchIds))
+      .groupBy(generationBatchItems.batchId, status);
+
+    for (const row of rows) {
+      const batchCounts = counts.get(row.batchId) ?? {};
+      batchCounts[row.status] = row.count;
+      counts.set(row.batchId, batchCounts);
+    }
+    return counts;
+  }
+
+  async createMediaUpload(upload: InsertMediaUpload): Promise<MediaUpload> {
+    const [created] = await db
+      .insert(mediaUploads)
+      .values(upload)
+      .returning();
+    return created;
+  }
+
+  async getMediaUpload(id: string, userId: string): Promise<MediaUpload | undefined> {
+    const [upload] = await db
+      .select()
+      .from(mediaUploads)
+      .where(and(eq(mediaUploads.id, id), eq(mediaUploads.userId, userId)));
+    return upload || undefined;
+  }
+
+  async finishMediaUpload(id: string, userId: string, result: { objectPath: string } | { error: string }): Promise<MediaUpload | undefined> {
+    const [finished] = await db
+      .update(mediaUploads)
+      .set('objectPath' in result
+        ? { status: "completed", objectPath: result.objectPath, completedAt: new Date() }
+        : { status: "rejected", error: result.error, completedAt: new Date() })
+      .where(and(eq(mediaUploads.id, id), eq(mediaUploads.userId, userId), eq(mediaUploads.status, "pending")))
+      .returning();
+    return finished || undefined;
+  }
+
+  async createResumableUpload(upload: InsertResumableUpload): Promise<ResumableUpload> {
+    const [created] = await db
+      .insert(resumableUploads)
+      .values(upload)
+      .returning();
+    return created;
+  }
+
+  async getResumableUpload(id: string, userId: string): Promise<ResumableUpload | undefined> {
+    const [upload] = await db
+      .select()
+      .from(resumableUploads)
+      .where(and(eq(resumableUploads.id, id), eq(resumableUploads.userId, userId)));
+    return upload || undefined;
+  }
+
+  async appendResumableUploadChunk(id: string, userId: string, expectedOffset: number, chunkPath: string, bytes: number): Promise<ResumableUpload | undefined> {
+    const [updated] = await db
+      .update(resumableUploads)
+      .set({
+        offsetBytes: sql`${resumableUploads.offsetBytes} + ${bytes}`,
+        chunkPaths: sql`${resumableUploads.chunkPaths} || ${JSON.stringify([chunkPath])}::jsonb`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(resumableUploads.id, id),
+        eq(resumableUploads.userId, userId),
+        eq(resumableUploads.status, "uploading"),
+        eq(resumableUploads.offsetBytes, expectedOffset)
+      ))
+      .returning();
+    return updated || undefined;
+  }
+
+  async completeResumableUpload(id: string, userId: string, objectPath: string): Promise<ResumableUpload | undefined> {
+    const [completed] = await db
+      .update(resumableUploads)
+      .set({ status: "completed", objectPath, completedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(resumableUploads.id, id), eq(resumableUploads.userId, userId), eq(resumableUploads.status, "uploading")))
+      .returning();
+    return completed || undefined;
+  }
+
+  async deleteResumableUpload(id: string, userId: string): Promise<ResumableUpload | undefined> {
+    const [deleted] = await db
+      .delete(resumableUploads)
+      .where(and(eq(resumableUploads.id, id), eq(resumableUploads.userId, userId)))
+      .returning();
+    return deleted || undefined;
+  }
+
   // User management methods for authentication
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
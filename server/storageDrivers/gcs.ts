@@ -0,0 +1,192 @@
+import { Storage, type File } from "@google-cloud/storage";
+import type { Readable } from "stream";
+import {
+  ObjectNotFoundError,
+  type ObjectLocation,
+  type StorageByteRange,
+  type StorageDriver,
+  type StorageDriverName,
+  type StorageListEntry,
+  type StorageObjectMetadata,
+  type StoragePutOptions,
+  type StorageSignOptions
+} from "./types";
+
+const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+
+type GcsSigner = (file: File, location: ObjectLocation, options: StorageSignOptions) => Promise<string>;
+
+const SIGNED_URL_ACTIONS = { GET: "read", PUT: "write", DELETE: "delete" } as const;
+
+// Maps GCS file metadata, where sizes may arrive as strings and custom values as non-strings
+function toStorageMetadata(metadata: File["metadata"]): StorageObjectMetadata {
+  const custom: Record<string, string> = {};
+  for (const [key, value] of Object.entries(metadata.metadata ?? {})) {
+    if (value !== null && value !== undefined) custom[key] = String(value);
+  }
+  return {
+    size: Number(metadata.size ?? 0),
+    contentType: metadata.contentType ?? null,
+    etag: metadata.etag ?? null,
+    updated: metadata.updated ? new Date(metadata.updated) : null,
+    metadata: custom
+  };
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as any)?.code === 404;
+}
+
+// Google Cloud Storage through a Storage client; the two flavours differ only in credentials and URL signing
+export class GcsStorageDriver implements StorageDriver {
+  constructor(
+    readonly name: StorageDriverName,
+    private client: Storage,
+    private signer: GcsSigner
+  ) {}
+
+  private file({ bucketName, objectName }: ObjectLocation): File {
+    return this.client.bucket(bucketName).file(objectName);
+  }
+
+  async exists(location: ObjectLocation): Promise<boolean> {
+    const [exists] = await this.file(location).exists();
+    return exists;
+  }
+
+  async getMetadata(location: ObjectLocation): Promise<StorageObjectMetadata | null> {
+    try {
+      const [metadata] = await this.file(location).getMetadata();
+      return toStorageMetadata(metadata);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async setMetadata(location: ObjectLocation, metadata: Record<string, string>): Promise<void> {
+    try {
+      await this.file(location).setMetadata({ metadata });
+    } catch (error) {
+      if (isNotFound(error)) throw new ObjectNotFoundError();
+      throw error;
+    }
+  }
+
+  async get(location: ObjectLocation): Promise<Buffer> {
+    try {
+      const [contents] = await this.file(location).download();
+      return contents;
+    } catch (error) {
+      if (isNotFound(error)) throw new ObjectNotFoundError();
+      throw error;
+    }
+  }
+
+  async put(location: ObjectLocation, body: Buffer | Readable, options: StoragePutOptions = {}): Promise<void> {
+    const file = this.file(location);
+    const metadata = { contentType: options.contentType, metadata: options.metadata };
+    if (Buffer.isBuffer(body)) {
+      await file.save(body, { resumable: false, metadata });
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      body
+        .on("error", reject)
+        .pipe(file.createWriteStream({ resumable: false, metadata }))
+        .on("error", reject)
+        .on("finish", () => resolve());
+    });
+  }
+
+  stream(location: ObjectLocation, range?: StorageByteRange): Readable {
+    return this.file(location).createReadStream(range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async list(bucketName: string, prefix: string, options: { delimiter?: string } = {}): Promise<StorageListEntry[]> {
+    const [files] = await this.client.bucket(bucketName).getFiles({ prefix, delimiter: options.delimiter });
+    return files.map((file) => {
+      const { metadata, ...entry } = toStorageMetadata(file.metadata);
+      return { name: file.name, ...entry };
+    });
+  }
+
+  async delete(location: ObjectLocation): Promise<void> {
+    await this.file(location).delete({ ignoreNotFound: true });
+  }
+
+  async copy(source: ObjectLocation, destination: ObjectLocation): Promise<void> {
+    try {
+      await this.file(source).copy(this.file(destination));
+    } catch (error) {
+      if (isNotFound(error)) throw new ObjectNotFoundError();
+      throw error;
+    }
+  }
+
+  async sign(location: ObjectLocation, options: StorageSignOptions): Promise<string> {
+    return this.signer(this.file(location), location, options);
+  }
+}
+
+// Credentials and signed URLs come from the Replit sidecar, which only exists inside a Replit deployment
+export function createReplitStorageDriver(): GcsStorageDriver {
+  const client = new Storage({
+    credentials: {
+      audience: "replit",
+      subject_token_type: "access_token",
+      token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
+      type: "external_account",
+      credential_source: {
+        url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
+        format: {
+          type: "json",
+          subject_token_field_name: "access_token",
+        },
+      },
+      universe_domain: "googleapis.com",
+    },
+    projectId: "",
+  });
+
+  return new GcsStorageDriver("replit", client, async (_file, { bucketName, objectName }, { method, ttlSec }) => {
+    const response = await fetch(`${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        bucket_name: bucketName,
+        object_name: objectName,
+        method,
+        expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to sign object URL, errorcode: ${response.status}, ` +
+          `make sure you're running on Replit or set OBJECT_STORAGE_DRIVER to "gcs", "s3" or "local"`
+      );
+    }
+
+    const { signed_url: signedURL } = await response.json();
+    return signedURL;
+  });
+}
+
+// Plain GCS with a service account: GCS_CREDENTIALS_JSON holds the key file contents, otherwise
+// Application Default Credentials (e.g. GOOGLE_APPLICATION_CREDENTIALS) are used. URLs are V4-signed locally.
+export function createServiceAccountStorageDriver(): GcsStorageDriver {
+  const client = new Storage({
+    projectId: process.env.GCS_PROJECT_ID || undefined,
+    credentials: process.env.GCS_CREDENTIALS_JSON ? JSON.parse(process.env.GCS_CREDENTIALS_JSON) : undefined,
+  });
+
+  return new GcsStorageDriver("gcs", client, async (file, _location, { method, ttlSec, contentType }) => {
+    const [signedURL] = await file.getSignedUrl({
+      version: "v4",
+      action: SIGNED_URL_ACTIONS[method],
+      expires: Date.now() + ttlSec * 1000,
+      contentType,
+    });
+    return signedURL;
+  });
+}
@@ -0,0 +1,43 @@
+import { createReplitStorageDriver, createServiceAccountStorageDriver } from "./gcs";
+import { LocalDiskStorageDriver } from "./local";
+import { createS3StorageDriver } from "./s3";
+import type { StorageDriver, StorageDriverName } from "./types";
+
+export type {
+  ObjectLocation,
+  StorageByteRange,
+  StorageDriver,
+  StorageDriverName,
+  StorageListEntry,
+  StorageObjectMetadata,
+  StoragePutOptions,
+  StorageSignOptions
+} from "./types";
+export { ObjectNotFoundError } from "./types";
+export { LocalDiskStorageDriver, LOCAL_STORAGE_ROUTE_PREFIX } from "./local";
+export { S3StorageDriver, type S3UploadedPart } from "./s3";
+
+const DRIVER_NAMES: StorageDriverName[] = ["replit", "gcs", "s3", "local"];
+
+// Deployment-wide backend; "replit" keeps the original sidecar behaviour
+export function getStorageDriverName(): StorageDriverName {
+  const name = (process.env.OBJECT_STORAGE_DRIVER || "replit") as StorageDriverName;
+  if (!DRIVER_NAMES.includes(name)) {
+    throw new Error(`Unknown OBJECT_STORAGE_DRIVER "${name}", expected one of: ${DRIVER_NAMES.join(", ")}`);
+  }
+  return name;
+}
+
+// Created on first use so only the configured backend's client is ever constructed
+let driver: StorageDriver | undefined;
+
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    const name = getStorageDriverName();
+    driver = name === "local" ? new LocalDiskStorageDriver()
+      : name === "gcs" ? createServiceAccountStorageDriver()
+      : name === "s3" ? createS3StorageDriver()
+      : createReplitStorageDriver();
+  }
+  return driver;
+}
@@ -0,0 +1,259 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { PassThrough, Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { logger } from "../lib/logger";
+import {
+  ObjectNotFoundError,
+  type ObjectLocation,
+  type StorageByteRange,
+  type StorageDriver,
+  type StorageListEntry,
+  type StorageObjectMetadata,
+  type StoragePutOptions,
+  type StorageSignOptions
+} from "./types";
+
+// Signed URLs are served by the /api/storage/local route
+export const LOCAL_STORAGE_ROUTE_PREFIX = "/api/storage/local";
+
+interface StoredMetadata {
+  contentType: string | null;
+  etag: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface LocalSignedRequest {
+  method: string;
+  expires: string;
+  signature: string;
+  contentType?: string;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+// Objects on local disk under LOCAL_STORAGE_DIR, with custom metadata in JSON files alongside.
+// Signed URLs point back at this server and carry an HMAC over the method, object, expiry and content type.
+export class LocalDiskStorageDriver implements StorageDriver {
+  readonly name = "local" as const;
+  private rootDir: string;
+  private secret: Buffer;
+  private baseUrl: string;
+
+  constructor() {
+    this.rootDir = path.resolve(process.env.LOCAL_STORAGE_DIR || "./data/object-storage");
+    this.baseUrl = (process.env.LOCAL_STORAGE_BASE_URL || process.env.PUBLIC_BASE_URL || "").replace(/\/$/, "");
+
+    if (process.env.LOCAL_STORAGE_SIGNING_SECRET) {
+      this.secret = Buffer.from(process.env.LOCAL_STORAGE_SIGNING_SECRET);
+    } else {
+      this.secret = randomBytes(32);
+      logger.warn('LOCAL_STORAGE_SIGNING_SECRET not set, signed URLs will stop working on restart', {
+        type: 'local_storage_ephemeral_secret'
+      });
+    }
+  }
+
+  // Rejects names that would escape the bucket directory
+  private resolvePath(area: "objects" | "metadata", { bucketName, objectName }: ObjectLocation, suffix = ""): string {
+    if (!bucketName || bucketName.includes("/") || bucketName.startsWith(".")) {
+      throw new Error(`Invalid bucket name: ${bucketName}`);
+    }
+    const bucketDir = path.join(this.rootDir, area, bucketName);
+    const resolved = path.resolve(bucketDir, `${objectName}${suffix}`);
+    if (!objectName || !resolved.startsWith(bucketDir + path.sep)) {
+      throw new Error(`Invalid object name: ${objectName}`);
+    }
+    return resolved;
+  }
+
+  private async readStoredMetadata(location: ObjectLocation): Promise<StoredMetadata> {
+    try {
+      return JSON.parse(await fs.readFile(this.resolvePath("metadata", location, ".json"), "utf8"));
+    } catch (error) {
+      if (isMissing(error)) return { contentType: null, etag: null, metadata: {} };
+      throw error;
+    }
+  }
+
+  private async writeStoredMetadata(location: ObjectLocation, stored: StoredMetadata): Promise<void> {
+    const metadataPath = this.resolvePath("metadata", location, ".json");
+    await fs.mkdir(path.dirname(metadataPath), { recursive: true });
+    await fs.writeFile(metadataPath, JSON.stringify(stored));
+  }
+
+  async exists(location: ObjectLocation): Promise<boolean> {
+    return (await this.getMetadata(location)) !== null;
+  }
+
+  async getMetadata(location: ObjectLocation): Promise<StorageObjectMetadata | null> {
+    let stats;
+    try {
+      stats = await fs.stat(this.resolvePath("objects", location));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+    if (!stats.isFile()) return null;
+
+    const stored = await this.readStoredMetadata(location);
+    return {
+      size: stats.size,
+      contentType: stored.contentType,
+      etag: stored.etag,
+      updated: stats.mtime,
+      metadata: stored.metadata
+    };
+  }
+
+  async setMetadata(location: ObjectLocation, metadata: Record<string, string>): Promise<void> {
+    if (!(await this.exists(location))) {
+      throw new ObjectNotFoundError();
+    }
+    const stored = await this.readStoredMetadata(location);
+    await this.writeStoredMetadata(location, { ...stored, metadata: { ...stored.metadata, ...metadata } });
+  }
+
+  async get(location: ObjectLocation): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolvePath("objects", location));
+    } catch (error) {
+      if (isMissing(error)) throw new ObjectNotFoundError();
+      throw error;
+    }
+  }
+
+  // Writes to a temporary file first so readers never see a partial object
+  async put(location: ObjectLocation, body: Buffer | Readable, options: StoragePutOptions = {}): Promise<void> {
+    const objectPath = this.resolvePath("objects", location);
+    const tempPath = `${objectPath}.${randomUUID()}.tmp`;
+    await fs.mkdir(path.dirname(objectPath), { recursive: true });
+
+    const hash = createHash("md5");
+    const hasher = new Transform({
+      transform(chunk, _encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      }
+    });
+
+    try {
+      const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+      await pipeline(source, hasher, createWriteStream(tempPath));
+      await fs.rename(tempPath, objectPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    // A new upload replaces the previous object's metadata, as in GCS
+    await this.writeStoredMetadata(location, {
+      contentType: options.contentType ?? null,
+      etag: hash.digest("hex"),
+      metadata: options.metadata ?? {}
+    });
+  }
+
+  stream(location: ObjectLocation, range?: StorageByteRange): Readable {
+    const output = new PassThrough();
+    const input = createReadStream(this.resolvePath("objects", location), range);
+    input.on("error", (error) => output.destroy(isMissing(error) ? new ObjectNotFoundError() : error));
+    return input.pipe(output);
+  }
+
+  async list(bucketName: string, prefix: string, options: { delimiter?: string } = {}): Promise<StorageListEntry[]> {
+    const bucketDir = path.join(this.rootDir, "objects", bucketName);
+    // Only the directory holding the prefix can contain matches
+    const prefixDir = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/") + 1) : "";
+
+    const names: string[] = [];
+    const walk = async (relativeDir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(path.join(bucketDir, relativeDir), { withFileTypes: true });
+      } catch (error) {
+        if (isMissing(error)) return;
+        throw error;
+      }
+      for (const entry of entries) {
+        const name = `${relativeDir}${entry.name}`;
+        if (entry.isDirectory()) {
+          if (!options.delimiter) await walk(`${name}/`);
+        } else if (entry.isFile() && !entry.name.endsWith(".tmp")) {
+          names.push(name);
+        }
+      }
+    };
+    await walk(prefixDir);
+
+    const matching = names
+      .filter(name => name.startsWith(prefix))
+      .filter(name => !options.delimiter || !name.slice(prefix.length).includes(options.delimiter))
+      .sort();
+
+    const entries: StorageListEntry[] = [];
+    for (const name of matching) {
+      const metadata = await this.getMetadata({ bucketName, objectName: name });
+      if (metadata) {
+        const { metadata: _custom, ...entry } = metadata;
+        entries.push({ name, ...entry });
+      }
+    }
+    return entries;
+  }
+
+  async delete(location: ObjectLocation): Promise<void> {
+    await fs.rm(this.resolvePath("objects", location), { force: true });
+    await fs.rm(this.resolvePath("metadata", location, ".json"), { force: true });
+  }
+
+  async copy(source: ObjectLocation, destination: ObjectLocation): Promise<void> {
+    const stored = await this.readStoredMetadata(source);
+    const destinationPath = this.resolvePath("objects", destination);
+    const tempPath = `${destinationPath}.${randomUUID()}.tmp`;
+    await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+    try {
+      await fs.copyFile(this.resolvePath("objects", source), tempPath);
+      await fs.rename(tempPath, destinationPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      if (isMissing(error)) throw new ObjectNotFoundError();
+      throw error;
+    }
+    await this.writeStoredMetadata(destination, stored);
+  }
+
+  async sign(location: ObjectLocation, { method, ttlSec, contentType }: StorageSignOptions): Promise<string> {
+    // Validates the location before handing out a URL for it
+    this.resolvePath("objects", location);
+
+    const expires = Math.floor(Date.now() / 1000) + ttlSec;
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: this.computeSignature(location, method, String(expires), contentType)
+    });
+    if (contentType) params.set("contentType", contentType);
+
+    const encodedName = location.objectName.split("/").map(encodeURIComponent).join("/");
+    return `${this.baseUrl}${LOCAL_STORAGE_ROUTE_PREFIX}/${encodeURIComponent(location.bucketName)}/${encodedName}?${params}`;
+  }
+
+  // True when the request carries a valid, unexpired signature for this method and object
+  verifySignedRequest(location: ObjectLocation, request: LocalSignedRequest): boolean {
+    const expires = parseInt(request.expires, 10);
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(this.computeSignature(location, request.method, request.expires, request.contentType));
+    const actual = Buffer.from(request.signature || "");
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private computeSignature(location: ObjectLocation, method: string, expires: string, contentType?: string): string {
+    return createHmac("sha256", this.secret)
+      .update([method, location.bucketName, location.objectName, expires, contentType ?? ""].join("\n"))
+      .digest("hex");
+  }
+}
@@ -0,0 +1,320 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+  type S3ClientConfig
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { PassThrough, Readable } from "stream";
+import {
+  ObjectNotFoundError,
+  type ObjectLocation,
+  type StorageByteRange,
+  type StorageDriver,
+  type StorageListEntry,
+  type StorageObjectMetadata,
+  type StoragePutOptions,
+  type StorageSignOptions
+} from "./types";
+
+// S3 lowercases user metadata keys and only allows header-safe names, so keys like custom:aclPolicy
+// are kept together in one base64 JSON value. S3 caps user metadata at 2KB per object.
+const CUSTOM_METADATA_KEY = "custom-metadata";
+
+// S3 rejects multipart parts smaller than 5MB, except the last one
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export interface S3UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+function isNotFound(error: unknown): boolean {
+  const err = error as any;
+  return err?.name === "NotFound" || err?.name === "NoSuchKey" || err?.$metadata?.httpStatusCode === 404;
+}
+
+function encodeCustomMetadata(metadata: Record<string, string> = {}): Record<string, string> {
+  if (Object.keys(metadata).length === 0) return {};
+  return { [CUSTOM_METADATA_KEY]: Buffer.from(JSON.stringify(metadata)).toString("base64") };
+}
+
+function decodeCustomMetadata(metadata: Record<string, string> = {}): Record<string, string> {
+  const encoded = metadata[CUSTOM_METADATA_KEY];
+  return encoded ? JSON.parse(Buffer.from(encoded, "base64").toString("utf8")) : {};
+}
+
+function copySource({ bucketName, objectName }: ObjectLocation): string {
+  return `${bucketName}/${objectName.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+// ETags come back quoted from the S3 API
+function unquote(etag: string | undefined): string | null {
+  return etag ? etag.replace(/^"|"$/g, "") : null;
+}
+
+// Any S3-compatible API (AWS, MinIO, R2, ...). Bucket names come from PUBLIC_OBJECT_SEARCH_PATHS and
+// PRIVATE_OBJECT_DIR like every other driver. Presigned URLs are built with signingClient, which points at
+// S3_PUBLIC_ENDPOINT when browsers reach the store through a different host than the server does.
+export class S3StorageDriver implements StorageDriver {
+  readonly name = "s3" as const;
+
+  constructor(
+    private client: S3Client,
+    private signingClient: S3Client,
+    private partSize: number
+  ) {}
+
+  async exists(location: ObjectLocation): Promise<boolean> {
+    return (await this.getMetadata(location)) !== null;
+  }
+
+  async getMetadata({ bucketName, objectName }: ObjectLocation): Promise<StorageObjectMetadata | null> {
+    try {
+      const head = await this.client.send(new HeadObjectCommand({ Bucket: bucketName, Key: objectName }));
+      return {
+        size: head.ContentLength ?? 0,
+        contentType: head.ContentType ?? null,
+        etag: unquote(head.ETag),
+        updated: head.LastModified ?? null,
+        metadata: decodeCustomMetadata(head.Metadata)
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  // S3 metadata is immutable, so the object is copied onto itself with the merged metadata
+  async setMetadata(location: ObjectLocation, metadata: Record<string, string>): Promise<void> {
+    const current = await this.getMetadata(location);
+    if (!current) {
+      throw new ObjectNotFoundError();
+    }
+
+    const { bucketName, objectName } = location;
+    await this.client.send(new CopyObjectCommand({
+      Bucket: bucketName,
+      Key: objectName,
+      CopySource: copySource(location),
+      MetadataDirective: "REPLACE",
+      ContentType: current.contentType ?? undefined,
+      Metadata: encodeCustomMetadata({ ...current.metadata, ...metadata })
+    }));
+  }
+
+  async get({ bucketName, objectName }: ObjectLocation): Promise<Buffer> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: bucketName, Key: objectName }));
+      return Buffer.from(await response.Body!.transformToByteArray());
+    } catch (error) {
+      if (isNotFound(error)) throw new ObjectNotFoundError();
+      throw error;
+    }
+  }
+
+  // Small bodies go up in one request; anything past one part size becomes a multipart upload
+  async put(location: ObjectLocation, body: Buffer | Readable, options: StoragePutOptions = {}): Promise<void> {
+    if (Buffer.isBuffer(body) && body.length <= this.partSize) {
+      await this.putObject(location, body, options);
+      return;
+    }
+
+    let uploadId: string | undefined;
+    const parts: S3UploadedPart[] = [];
+    let pending: Buffer[] = [];
+    let pendingSize = 0;
+
+    const flushPart = async () => {
+      if (!uploadId) {
+        uploadId = await this.createMultipartUpload(location, options);
+      }
+      const partNumber = parts.length + 1;
+      parts.push({ partNumber, etag: await this.uploadPart(location, uploadId, partNumber, Buffer.concat(pending)) });
+      pending = [];
+      pendingSize = 0;
+    };
+
+    try {
+      const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+      for await (const chunk of source) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        for (let offset = 0; offset < buffer.length;) {
+          const slice = buffer.subarray(offset, offset + this.partSize - pendingSize);
+          pending.push(slice);
+          pendingSize += slice.length;
+          offset += slice.length;
+          if (pendingSize === this.partSize) await flushPart();
+        }
+      }
+
+      if (!uploadId) {
+        await this.putObject(location, Buffer.concat(pending), options);
+        return;
+      }
+      if (pendingSize > 0) await flushPart();
+      await this.completeMultipartUpload(location, uploadId, parts);
+    } catch (error) {
+      if (uploadId) {
+        await this.abortMultipartUpload(location, uploadId).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  stream({ bucketName, objectName }: ObjectLocation, range?: StorageByteRange): Readable {
+    const output = new PassThrough();
+    this.client.send(new GetObjectCommand({
+      Bucket: bucketName,
+      Key: objectName,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined
+    })).then(
+      ({ Body }) => {
+        const input = Body as Readable;
+        input.on("error", (error) => output.destroy(error));
+        input.pipe(output);
+      },
+      (error) => output.destroy(isNotFound(error) ? new ObjectNotFoundError() : error)
+    );
+    return output;
+  }
+
+  // Listings carry no content type in S3, so entries report null for it
+  async list(bucketName: string, prefix: string, options: { delimiter?: string } = {}): Promise<StorageListEntry[]> {
+    const entries: StorageListEntry[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: prefix,
+        Delimiter: options.delimiter,
+        ContinuationToken: continuationToken
+      }));
+      for (const object of page.Contents ?? []) {
+        entries.push({
+          name: object.Key!,
+          size: object.Size ?? 0,
+          contentType: null,
+          etag: unquote(object.ETag),
+          updated: object.LastModified ?? null
+        });
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return entries;
+  }
+
+  async delete({ bucketName, objectName }: ObjectLocation): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: objectName }));
+  }
+
+  // Single-request copies are limited to 5GB objects
+  async copy(source: ObjectLocation, { bucketName, objectName }: ObjectLocation): Promise<void> {
+    try {
+      await this.client.send(new CopyObjectCommand({
+        Bucket: bucketName,
+        Key: objectName,
+        CopySource: copySource(source),
+        MetadataDirective: "COPY"
+      }));
+    } catch (error) {
+      if (isNotFound(error)) throw new ObjectNotFoundError();
+      throw error;
+    }
+  }
+
+  async sign({ bucketName, objectName }: ObjectLocation, { method, ttlSec, contentType }: StorageSignOptions): Promise<string> {
+    const command = method === "PUT"
+      ? new PutObjectCommand({ Bucket: bucketName, Key: objectName, ContentType: contentType })
+      : method === "DELETE"
+        ? new DeleteObjectCommand({ Bucket: bucketName, Key: objectName })
+        : new GetObjectCommand({ Bucket: bucketName, Key: objectName });
+    return getSignedUrl(this.signingClient, command, { expiresIn: ttlSec });
+  }
+
+  async createMultipartUpload({ bucketName, objectName }: ObjectLocation, options: StoragePutOptions = {}): Promise<string> {
+    const { UploadId } = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: objectName,
+      ContentType: options.contentType,
+      Metadata: encodeCustomMetadata(options.metadata)
+    }));
+    return UploadId!;
+  }
+
+  async uploadPart({ bucketName, objectName }: ObjectLocation, uploadId: string, partNumber: number, body: Buffer): Promise<string> {
+    const { ETag } = await this.client.send(new UploadPartCommand({
+      Bucket: bucketName,
+      Key: objectName,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: body
+    }));
+    return ETag!;
+  }
+
+  async completeMultipartUpload({ bucketName, objectName }: ObjectLocation, uploadId: string, parts: S3UploadedPart[]): Promise<void> {
+    await this.client.send(new CompleteMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: objectName,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map(part => ({ PartNumber: part.partNumber, ETag: part.etag }))
+      }
+    }));
+  }
+
+  async abortMultipartUpload({ bucketName, objectName }: ObjectLocation, uploadId: string): Promise<void> {
+    await this.client.send(new AbortMultipartUploadCommand({ Bucket: bucketName, Key: objectName, UploadId: uploadId }));
+  }
+
+  private async putObject({ bucketName, objectName }: ObjectLocation, body: Buffer, options: StoragePutOptions): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: bucketName,
+      Key: objectName,
+      Body: body,
+      ContentType: options.contentType,
+      Metadata: encodeCustomMetadata(options.metadata)
+    }));
+  }
+}
+
+// Static keys come from S3_ACCESS_KEY_ID/S3_SECRET_ACCESS_KEY, otherwise the AWS default credential chain is used
+export function createS3StorageDriver(): S3StorageDriver {
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (Boolean(accessKeyId) !== Boolean(secretAccessKey)) {
+    throw new Error("S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set together");
+  }
+
+  const partSize = parseInt(process.env.S3_MULTIPART_PART_SIZE || String(8 * 1024 * 1024), 10);
+  if (!Number.isFinite(partSize) || partSize < MIN_PART_SIZE) {
+    throw new Error(`S3_MULTIPART_PART_SIZE must be at least ${MIN_PART_SIZE} bytes`);
+  }
+
+  const config = (endpoint: string | undefined): S3ClientConfig => ({
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: endpoint || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    // Default CRC checksums break presigned uploads on several S3-compatible servers
+    requestChecksumCalculation: "WHEN_REQUIRED",
+    responseChecksumValidation: "WHEN_REQUIRED"
+  });
+
+  const client = new S3Client(config(process.env.S3_ENDPOINT));
+  const signingClient = process.env.S3_PUBLIC_ENDPOINT
+    ? new S3Client(config(process.env.S3_PUBLIC_ENDPOINT))
+    : client;
+  return new S3StorageDriver(client, signingClient, partSize);
+}
@@ -0,0 +1,68 @@
+import type { Readable } from "stream";
+
+export type StorageDriverName = "replit" | "gcs" | "s3" | "local";
+
+// An object addressed the way PUBLIC_OBJECT_SEARCH_PATHS and PRIVATE_OBJECT_DIR are: /<bucket_name>/<object_name>
+export interface ObjectLocation {
+  bucketName: string;
+  objectName: string;
+}
+
+export interface StorageObjectMetadata {
+  size: number;
+  contentType: string | null;
+  etag: string | null;
+  updated: Date | null;
+  // Custom key/value metadata such as the custom:aclPolicy written by objectAcl.ts
+  metadata: Record<string, string>;
+}
+
+export interface StorageListEntry extends Omit<StorageObjectMetadata, "metadata"> {
+  name: string;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface StorageByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoragePutOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StorageSignOptions {
+  method: "GET" | "PUT" | "DELETE";
+  ttlSec: number;
+  // Signed PUTs may pin the upload's content type
+  contentType?: string;
+}
+
+export class ObjectNotFoundError extends Error {
+  constructor() {
+    super("Object not found");
+    this.name = "ObjectNotFoundError";
+    Object.setPrototypeOf(this, ObjectNotFoundError.prototype);
+  }
+}
+
+// An object store backend. Reads of missing objects throw ObjectNotFoundError; getMetadata returns null instead.
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  exists(location: ObjectLocation): Promise<boolean>;
+  getMetadata(location: ObjectLocation): Promise<StorageObjectMetadata | null>;
+  // Merges custom metadata into the object's existing custom metadata
+  setMetadata(location: ObjectLocation, metadata: Record<string, string>): Promise<void>;
+  get(location: ObjectLocation): Promise<Buffer>;
+  put(location: ObjectLocation, body: Buffer | Readable, options?: StoragePutOptions): Promise<void>;
+  // Streams the whole object, or only the given byte range
+  stream(location: ObjectLocation, range?: StorageByteRange): Readable;
+  // Objects whose names start with prefix; with a delimiter, only those not nested further below it
+  list(bucketName: string, prefix: string, options?: { delimiter?: string }): Promise<StorageListEntry[]>;
+  delete(location: ObjectLocation): Promise<void>;
+  // Server-side copy within the backend, including content type and custom metadata
+  copy(source: ObjectLocation, destination: ObjectLocation): Promise<void>;
+  // A URL that lets its holder perform one method on the object until it expires
+  sign(location: ObjectLocation, options: StorageSignOptions): Promise<string>;
+}
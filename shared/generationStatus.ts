@@ -0,0 +1,27 @@
+import type { GenerationStatus } from "./types";
+
+// Allowed status transitions. Retries move a failed generation back to pending, and a result that arrives
+// after a timeout may still complete it or replace its failure; completed and cancelled are final.
+export const GENERATION_STATUS_TRANSITIONS: Record<GenerationStatus, readonly GenerationStatus[]> = {
+  pending: ["processing", "completed", "failed", "cancelled"],
+  processing: ["completed", "failed", "cancelled"],
+  failed: ["pending", "completed", "failed"],
+  completed: [],
+  cancelled: []
+};
+
+export const TERMINAL_GENERATION_STATUSES: readonly GenerationStatus[] = ["completed", "failed", "cancelled"];
+
+export function canTransitionGeneration(from: GenerationStatus, to: GenerationStatus): boolean {
+  return GENERATION_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Statuses a generation may be in for a move to `to` to be legal
+export function generationTransitionSources(to: GenerationStatus): GenerationStatus[] {
+  return (Object.keys(GENERATION_STATUS_TRANSITIONS) as GenerationStatus[]).filter(from => canTransitionGeneration(from, to));
+}
+
+// Failed generations are terminal for display even though they can be retried
+export function isTerminalGenerationStatus(status: GenerationStatus): boolean {
+  return TERMINAL_GENERATION_STATUSES.includes(status);
+}
@@ -0,0 +1,23 @@
+// Placeholders look like {{product}}; names are identifiers and may be padded with spaces
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Variable names in order of first appearance
+export function extractTemplateVariables(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of Array.from(body.matchAll(VARIABLE_PATTERN))) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+export function findMissingTemplateVariables(body: string, values: Record<string, string>): string[] {
+  return extractTemplateVariables(body).filter(name => !values[name]?.trim());
+}
+
+// Missing values are left as their placeholder so previews show what is still needed
+export function expandPromptTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : placeholder;
+  });
+}
@@ -1,36 +1,76 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, uuid, timestamp, index, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, uuid, timestamp, index, uniqueIndex, jsonb, integer, bigint, doublePrecision, boolean, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { GenerationSubmissionSchema, GenerationCreateRequestSchema, GenerationStageSchema, type StoredGenerationSubmission, type GenerationCreateRequest, type GenerationStage } from "./types";
 
 export const videoGenerations = pgTable("video_generations", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   taskId: text("task_id").unique().notNull(),
+  userId: text("user_id").notNull().references(() => users.id),
   promptText: text("prompt_text").notNull(),
   imageOriginalPath: text("image_original_path"), // Legacy column - kept for existing data
   imagesPaths: jsonb("images_paths").$type<string[]>(),
   imageGenerationPath: text("image_generation_path"),
   videoPath: text("video_path"),
-  status: text("status").notNull().default("pending").$type<"pending" | "processing" | "completed" | "failed" | "200">(),
+  status: text("status").notNull().default("pending").$type<"pending" | "processing" | "completed" | "failed" | "cancelled">(),
+  provider: text("provider").notNull().default("n8n").$type<"n8n" | "mock">(),
+  parentGenerationId: uuid("parent_generation_id").references((): AnyPgColumn => videoGenerations.id, { onDelete: "set null" }), // Set on remixes
+  brandPersonaId: uuid("brand_persona_id").references(() => brandPersonas.id, { onDelete: "set null" }),
+  brandPersona: jsonb("brand_persona").$type<BrandPersonaSnapshot>(), // Persona as sent, unaffected by later edits
+  promptTemplateId: uuid("prompt_template_id").references(() => promptTemplates.id, { onDelete: "set null" }), // promptText holds the expanded template
+  promptTemplateVariables: jsonb("prompt_template_variables").$type<Record<string, string>>(),
+  scheduledGenerationId: uuid("scheduled_generation_id").references(() => scheduledGenerations.id, { onDelete: "set null" }), // Set on scheduled runs
+  aspectRatio: text("aspect_ratio").$type<"16:9" | "9:16">(),
+  durationSeconds: integer("duration_seconds"),
+  resolution: text("resolution").$type<"720p" | "1080p">(),
+  negativePrompt: text("negative_prompt"),
+  seed: integer("seed"),
+  generateAudio: boolean("generate_audio"),
+  submission: jsonb("submission").$type<StoredGenerationSubmission>(), // Any submission version; null for generations created before submissions were stored
   errorMessage: text("error_message"),
   errorDetails: jsonb("error_details"),
-  errorType: text("error_type").$type<"webhook_failure" | "network_error" | "timeout" | "validation_error" | "configuration_error" | "unknown">(),
+  errorType: text("error_type").$type<"webhook_failure" | "network_error" | "timeout" | "validation_error" | "configuration_error" | "callback_timeout" | "unknown">(),
   retryCount: text("retry_count").default("0"),
   maxRetries: text("max_retries").default("3"),
   nextRetryAt: timestamp("next_retry_at"),
   webhookResponseStatus: text("webhook_response_status"),
   webhookResponseBody: text("webhook_response_body"),
   lastAttemptAt: timestamp("last_attempt_at"),
+  stageHistory: jsonb("stage_history").$type<GenerationStage[]>(), // Progress reported by the pipeline, oldest first
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
-});
+}, (table) => [
+  index("IDX_video_generations_user_created").on(table.userId, table.createdAt),
+  index("IDX_video_generations_parent").on(table.parentGenerationId)
+]);
+
+// Copy of the persona a generation was submitted with
+export interface BrandPersonaSnapshot {
+  id: string | null;
+  name: string | null;
+  description: string | null;
+  imagePaths: string[]; // Object paths or absolute URLs
+}
 
 export const insertVideoGenerationSchema = createInsertSchema(videoGenerations, {
-  status: z.enum(["pending", "processing", "completed", "failed", "200"]).optional(),
-  errorType: z.enum(["webhook_failure", "network_error", "timeout", "validation_error", "configuration_error", "unknown"]).optional(),
+  status: z.enum(["pending", "processing", "completed", "failed", "cancelled"]).optional(),
+  provider: z.enum(["n8n", "mock"]).optional(),
+  errorType: z.enum(["webhook_failure", "network_error", "timeout", "validation_error", "configuration_error", "callback_timeout", "unknown"]).optional(),
   retryCount: z.string().optional(),
   maxRetries: z.string().optional(),
-  imagesPaths: z.array(z.string()).max(10, "Maximum 10 images allowed").optional()
+  imagesPaths: z.array(z.string()).max(10, "Maximum 10 images allowed").optional(),
+  brandPersona: z.object({
+    id: z.string().nullable(),
+    name: z.string().nullable(),
+    description: z.string().nullable(),
+    imagePaths: z.array(z.string())
+  }).nullable().optional(),
+  promptTemplateVariables: z.record(z.string()).nullable().optional(),
+  aspectRatio: z.enum(["16:9", "9:16"]).nullable().optional(),
+  resolution: z.enum(["720p", "1080p"]).nullable().optional(),
+  submission: GenerationSubmissionSchema.nullable().optional(),
+  stageHistory: z.array(GenerationStageSchema).nullable().optional()
 }).omit({
   id: true,
   createdAt: true,
@@ -40,6 +80,282 @@ export const insertVideoGenerationSchema = createInsertSchema(videoGenerations,
 export type InsertVideoGeneration = z.infer<typeof insertVideoGenerationSchema>;
 export type VideoGeneration = typeof videoGenerations.$inferSelect;
 
+// Durable queue of outbound n8n dispatches, claimed by workers with FOR UPDATE SKIP LOCKED
+export const generationJobs = pgTable("generation_jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: text("task_id").notNull().references(() => videoGenerations.taskId, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.id),
+  payload: jsonb("payload").notNull(),
+  correlationId: text("correlation_id"),
+  status: text("status").notNull().default("queued").$type<"queued" | "running" | "succeeded" | "failed">(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => [
+  index("IDX_generation_jobs_claim").on(table.status, table.runAt),
+  index("IDX_generation_jobs_task").on(table.taskId)
+]);
+
+export const insertGenerationJobSchema = createInsertSchema(generationJobs).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lockedAt: true,
+  lockedBy: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertGenerationJob = z.infer<typeof insertGenerationJobSchema>;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+
+// One row per outbound provider webhook call, written by sendWebhookWithTimeout
+export const webhookAttempts = pgTable("webhook_attempts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: text("task_id").notNull().references(() => videoGenerations.taskId, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.id),
+  correlationId: text("correlation_id"),
+  kind: text("kind").notNull().default("submit").$type<"submit" | "cancel">(),
+  attempt: integer("attempt").notNull(),
+  url: text("url").notNull(),
+  requestHash: text("request_hash").notNull(), // sha256 of the request body
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // truncated
+  latencyMs: integer("latency_ms").notNull(),
+  errorType: text("error_type").$type<"webhook_failure" | "network_error" | "timeout" | "validation_error" | "configuration_error" | "unknown">(),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => [
+  index("IDX_webhook_attempts_correlation").on(table.correlationId),
+  index("IDX_webhook_attempts_task_created").on(table.taskId, table.createdAt),
+  index("IDX_webhook_attempts_user_created").on(table.userId, table.createdAt)
+]);
+
+export const insertWebhookAttemptSchema = createInsertSchema(webhookAttempts, {
+  kind: z.enum(["submit", "cancel"]).optional(),
+  errorType: z.enum(["webhook_failure", "network_error", "timeout", "validation_error", "configuration_error", "unknown"]).nullable().optional()
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+export type InsertWebhookAttempt = z.infer<typeof insertWebhookAttemptSchema>;
+export type WebhookAttempt = typeof webhookAttempts.$inferSelect;
+
+// Reusable brand personas with reference images in object storage
+export const brandPersonas = pgTable("brand_personas", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  imagePaths: jsonb("image_paths").notNull().default([]).$type<string[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => [uniqueIndex("IDX_brand_personas_user_name").on(table.userId, table.name)]);
+
+export const insertBrandPersonaSchema = createInsertSchema(brandPersonas, {
+  imagePaths: z.array(z.string()).max(10, "Maximum 10 images allowed").optional()
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertBrandPersona = z.infer<typeof insertBrandPersonaSchema>;
+export type BrandPersona = typeof brandPersonas.$inferSelect;
+
+// Reusable prompts with {{variable}} placeholders; shared templates are visible to every user
+export const promptTemplates = pgTable("prompt_templates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  body: text("body").notNull(),
+  shared: boolean("shared").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => [
+  uniqueIndex("IDX_prompt_templates_user_name").on(table.userId, table.name),
+  index("IDX_prompt_templates_shared").on(table.shared)
+]);
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+
+// Generations created later by the in-process scheduler, once at runAt or repeatedly on a UTC cron expression
+export const scheduledGenerations = pgTable("scheduled_generations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  request: jsonb("request").notNull().$type<GenerationCreateRequest>(), // Replayed through the normal create path on each run
+  runAt: timestamp("run_at"),
+  cron: text("cron"),
+  status: text("status").notNull().default("active").$type<"active" | "paused" | "completed">(),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastTaskId: text("last_task_id"),
+  lastError: text("last_error"),
+  runCount: integer("run_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => [
+  index("IDX_scheduled_generations_due").on(table.status, table.nextRunAt),
+  index("IDX_scheduled_generations_user").on(table.userId)
+]);
+
+export const insertScheduledGenerationSchema = createInsertSchema(scheduledGenerations, {
+  request: GenerationCreateRequestSchema,
+  status: z.enum(["active", "paused", "completed"]).optional()
+}).omit({
+  id: true,
+  lastRunAt: true,
+  lastTaskId: true,
+  lastError: true,
+  runCount: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertScheduledGeneration = z.infer<typeof insertScheduledGenerationSchema>;
+export type ScheduledGeneration = typeof scheduledGenerations.$inferSelect;
+
+// Every output file of a generation; videoPath/imageGenerationPath mirror the picked video and first image
+export const generationAssets = pgTable("generation_assets", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  generationId: uuid("generation_id").notNull().references(() => videoGenerations.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull().$type<"video" | "image" | "audio">(),
+  path: text("path").notNull(),
+  mime: text("mime"),
+  sizeBytes: bigint("size_bytes", { mode: "number" }),
+  durationSeconds: doublePrecision("duration_seconds"),
+  width: integer("width"),
+  height: integer("height"),
+  variantIndex: integer("variant_index").notNull().default(0),
+  isPick: boolean("is_pick").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => [uniqueIndex("IDX_generation_assets_variant").on(table.generationId, table.kind, table.variantIndex)]);
+
+export const insertGenerationAssetSchema = createInsertSchema(generationAssets, {
+  kind: z.enum(["video", "image", "audio"])
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+export type InsertGenerationAsset = z.infer<typeof insertGenerationAssetSchema>;
+export type GenerationAsset = typeof generationAssets.$inferSelect;
+
+// A manifest of generations submitted together
+export const generationBatches = pgTable("generation_batches", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull().references(() => users.id),
+  name: text("name"),
+  source: text("source").notNull().$type<"csv" | "json">(),
+  totalItems: integer("total_items").notNull(),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => [index("IDX_generation_batches_user_created").on(table.userId, table.createdAt)]);
+
+export const insertGenerationBatchSchema = createInsertSchema(generationBatches, {
+  source: z.enum(["csv", "json"])
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+export type InsertGenerationBatch = z.infer<typeof insertGenerationBatchSchema>;
+export type GenerationBatch = typeof generationBatches.$inferSelect;
+
+// One row per manifest entry; rejected rows keep their error and have no generation
+export const generationBatchItems = pgTable("generation_batch_items", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: uuid("batch_id").notNull().references(() => generationBatches.id, { onDelete: "cascade" }),
+  rowIndex: integer("row_index").notNull(),
+  taskId: text("task_id").references(() => videoGenerations.taskId, { onDelete: "set null" }),
+  input: jsonb("input").notNull(), // The manifest row as submitted
+  scheduledFor: timestamp("scheduled_for"), // When the dispatch job may run under the generation rate limit
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => [uniqueIndex("IDX_generation_batch_items_batch_row").on(table.batchId, table.rowIndex)]);
+
+export const insertGenerationBatchItemSchema = createInsertSchema(generationBatchItems).omit({
+  id: true,
+  createdAt: true
+});
+
+export type InsertGenerationBatchItem = z.infer<typeof insertGenerationBatchItemSchema>;
+export type GenerationBatchItem = typeof generationBatchItems.$inferSelect;
+
+// Direct-to-bucket uploads: the browser PUTs to a presigned staging object, which completing verifies and publishes
+export const mediaUploads = pgTable("media_uploads", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull().references(() => users.id),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  sizeBytes: bigint("size_bytes", { mode: "number" }).notNull(),
+  sha256: text("sha256").notNull(),
+  stagingPath: text("staging_path").notNull(), // /<bucket>/<object> under PRIVATE_OBJECT_DIR
+  objectPath: text("object_path"), // Public path once completed
+  status: text("status").notNull().default("pending").$type<"pending" | "completed" | "rejected">(),
+  error: text("error"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at")
+}, (table) => [index("IDX_media_uploads_user_created").on(table.userId, table.createdAt)]);
+
+export const insertMediaUploadSchema = createInsertSchema(mediaUploads).omit({
+  id: true,
+  objectPath: true,
+  status: true,
+  error: true,
+  createdAt: true,
+  completedAt: true
+});
+
+export type InsertMediaUpload = z.infer<typeof insertMediaUploadSchema>;
+export type MediaUpload = typeof mediaUploads.$inferSelect;
+
+// tus uploads: each PATCH is stored as its own chunk object, and the chunks are joined into the public object at the end
+export const resumableUploads = pgTable("resumable_uploads", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull().references(() => users.id),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  sizeBytes: bigint("size_bytes", { mode: "number" }).notNull(), // Upload-Length
+  offsetBytes: bigint("offset_bytes", { mode: "number" }).notNull().default(0),
+  chunkPaths: jsonb("chunk_paths").notNull().default([]).$type<string[]>(), // Committed chunks in upload order
+  objectPath: text("object_path"), // Public path once assembled
+  status: text("status").notNull().default("uploading").$type<"uploading" | "completed">(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at")
+}, (table) => [index("IDX_resumable_uploads_user").on(table.userId)]);
+
+export const insertResumableUploadSchema = createInsertSchema(resumableUploads).omit({
+  id: true,
+  offsetBytes: true,
+  chunkPaths: true,
+  objectPath: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true
+});
+
+export type InsertResumableUpload = z.infer<typeof insertResumableUploadSchema>;
+export type ResumableUpload = typeof resumableUploads.$inferSelect;
+
 // Session storage table for authentication
 export const sessions = pgTable(
   "sessions",
@@ -1,54 +1,267 @@
 import { z } from "zod";
+import type { VideoGeneration } from "./schema";
 
 export const UploadResponseSchema = z.object({
   objectPath: z.string(),
   mediaUrl: z.string()
 });
 
+export const UPLOAD_IMAGE_TYPES = ["image/png", "image/jpeg", "image/jpg", "image/webp", "image/gif"] as const;
+export const DIRECT_UPLOAD_MAX_BYTES = 50 * 1024 * 1024;
+
+// The declared size, type and SHA-256 are checked against the stored object when the upload is completed
+export const DirectUploadPresignRequestSchema = z.object({
+  filename: z.string().trim().min(1, "Filename is required").max(255, "Filename must be less than 255 characters"),
+  contentType: z.enum(UPLOAD_IMAGE_TYPES, { errorMap: () => ({ message: "Invalid file type. Only PNG, JPG, WEBP, GIF allowed." }) }),
+  size: z.number().int().positive().max(DIRECT_UPLOAD_MAX_BYTES, "File must be 50MB or smaller"),
+  sha256: z.string().regex(/^[0-9a-fA-F]{64}$/, "sha256 must be a hex digest").transform((hash) => hash.toLowerCase())
+});
+
+// tus resumable uploads (https://tus.io/protocols/resumable-upload) are created here and live at TUS_UPLOAD_ROUTE/<id>
+export const TUS_UPLOAD_ROUTE = "/api/uploads/tus";
+// Sent with the final PATCH, and with HEAD afterwards, once the chunks have been joined into a public object
+export const TUS_OBJECT_PATH_HEADER = "X-Upload-Object-Path";
+
+export const DirectUploadPresignResponseSchema = z.object({
+  uploadId: z.string(),
+  uploadURL: z.string(),
+  method: z.literal("PUT"),
+  // Headers the PUT must send for the signature to match
+  headers: z.record(z.string()),
+  expiresAt: z.string()
+});
+
+export const GenerationProviderSchema = z.enum(["n8n", "mock"]);
+
+const PublicObjectPathSchema = z.string().refine(
+  (path) => path.startsWith('/public-objects/'),
+  "Each image path must be a valid public object path"
+);
+
+export const BrandPersonaRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
+  description: z.string().trim().min(1, "Description is required").max(2000, "Description must be less than 2000 characters"),
+  imagePaths: z.array(PublicObjectPathSchema).max(10, "Maximum 10 images allowed").default([])
+});
+
+export const BrandPersonaUpdateRequestSchema = BrandPersonaRequestSchema.partial();
+
+export const PromptTemplateRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
+  // Placeholders use {{variable}} syntax
+  body: z.string().trim().min(1, "Template is required").max(5000, "Template must be less than 5000 characters"),
+  shared: z.boolean().default(false)
+});
+
+export const PromptTemplateUpdateRequestSchema = PromptTemplateRequestSchema.partial();
+
+export const PromptTemplateVariablesSchema = z.record(z.string().max(500, "Variable values must be less than 500 characters"));
+
+export const AspectRatioSchema = z.enum(["16:9", "9:16"]);
+export const ResolutionSchema = z.enum(["720p", "1080p"]);
+export const DurationSecondsSchema = z.union([z.literal(4), z.literal(6), z.literal(8)]);
+
+export const NegativePromptSchema = z.string().trim().max(1000, "Negative prompt must be less than 1000 characters");
+export const SeedSchema = z.number().int().min(0).max(2147483647, "Seed must be at most 2147483647");
+
+// Model settings sent as typed fields instead of being described in the prompt
+export const GenerationParametersSchema = z.object({
+  aspectRatio: AspectRatioSchema,
+  durationSeconds: DurationSecondsSchema,
+  resolution: ResolutionSchema,
+  negativePrompt: NegativePromptSchema.nullable(),
+  seed: SeedSchema.nullable(),
+  generateAudio: z.boolean()
+});
+
+export const DEFAULT_GENERATION_PARAMETERS: GenerationParameters = {
+  aspectRatio: "9:16",
+  durationSeconds: 8,
+  resolution: "720p",
+  negativePrompt: null,
+  seed: null,
+  generateAudio: true
+};
+
 export const GenerationCreateRequestSchema = z.object({
   promptText: z.string().trim().min(1, "Prompt text is required"),
-  image_urls: z.array(
-    z.string().refine(
-      (path) => path.startsWith('/public-objects/'),
-      "Each image path must be a valid public object path"
-    )
-  ).max(10, "Maximum 10 images allowed").optional(),
-  brand_persona: z.string().optional()
+  image_urls: z.array(PublicObjectPathSchema).max(10, "Maximum 10 images allowed").optional(),
+  // Saved persona to use; brand_persona is free text used only when no persona is selected
+  brandPersonaId: z.string().uuid().optional(),
+  brand_persona: z.string().optional(),
+  // Overrides the deployment's default generation backend
+  provider: GenerationProviderSchema.optional(),
+  // Set when remixing an earlier completed or failed generation
+  parentGenerationId: z.string().uuid().optional(),
+  // When set, the server expands the template with these values and ignores promptText
+  promptTemplateId: z.string().uuid().optional(),
+  promptTemplateVariables: PromptTemplateVariablesSchema.optional(),
+  // Omitted parameters fall back to DEFAULT_GENERATION_PARAMETERS
+  aspectRatio: AspectRatioSchema.optional(),
+  durationSeconds: DurationSecondsSchema.optional(),
+  resolution: ResolutionSchema.optional(),
+  negativePrompt: NegativePromptSchema.optional(),
+  seed: SeedSchema.optional(),
+  generateAudio: z.boolean().optional()
+}).refine(
+  (request) => request.resolution !== "1080p" || (request.aspectRatio ?? DEFAULT_GENERATION_PARAMETERS.aspectRatio) === "16:9",
+  { message: "1080p is only available for 16:9 videos", path: ["resolution"] }
+);
+
+// Exactly one of runAt (one-off) or cron (recurring, five fields in UTC) is required
+export const ScheduledGenerationRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
+  request: GenerationCreateRequestSchema,
+  runAt: z.string().datetime({ offset: true }).transform((value) => new Date(value)).optional(),
+  cron: z.string().trim().min(1).max(100, "Cron expression must be less than 100 characters").optional()
+}).refine(
+  (schedule) => !!schedule.runAt !== !!schedule.cron,
+  { message: "Provide either a run time or a cron expression", path: ["cron"] }
+);
+
+export const ScheduledGenerationUpdateRequestSchema = z.object({
+  status: z.enum(["active", "paused"])
+});
+
+export const GenerationBatchRequestSchema = z.object({
+  name: z.string().trim().max(200, "Name must be less than 200 characters").optional(),
+  format: z.enum(["csv", "json"]),
+  // Raw manifest text; rows use the GenerationCreateRequest fields plus an optional persona name
+  content: z.string().min(1, "Manifest is empty").max(1_000_000, "Manifest must be less than 1MB")
+});
+
+export const GenerationAssetKindSchema = z.enum(["video", "image", "audio"]);
+
+// One output file reported by a provider; variants of the same kind are distinguished by variantIndex
+export const GenerationAssetSchema = z.object({
+  kind: GenerationAssetKindSchema,
+  path: z.string().min(1),
+  mime: z.string().optional(),
+  sizeBytes: z.number().int().nonnegative().optional(),
+  durationSeconds: z.number().nonnegative().optional(),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  variantIndex: z.number().int().nonnegative().optional()
 });
 
 export const GenerationCallbackSchema = z.object({
   taskId: z.string(),
+  // Single-output fields from older flows; assets[] supersedes them when present
   imageGenerationPath: z.string().optional(),
   videoPath: z.string().optional(),
-  status: z.enum(["completed", "failed", "200"]),
+  assets: z.array(GenerationAssetSchema).max(50, "Maximum 50 assets allowed").optional(),
+  // Older n8n flows report success as "200"
+  status: z.enum(["completed", "failed", "200"]).transform((status) => status === "200" ? "completed" as const : status),
   errorMessage: z.string().optional()
 });
 
+// Intermediate progress from the pipeline while a generation is in flight; stage names are
+// free-form (e.g. image_generated, video_rendering) and repeated reports of a stage update it in place
+export const GenerationProgressCallbackSchema = z.object({
+  taskId: z.string(),
+  stage: z.string().min(1).max(64).regex(/^[a-z0-9][a-z0-9_.-]*$/i, "Stage must be a slug such as video_rendering"),
+  percent: z.number().min(0).max(100).optional(),
+  message: z.string().max(500).optional(),
+  previewAsset: GenerationAssetSchema.optional()
+});
+
+// One entry of a generation's stage history, as stored on the row
+export const GenerationStageSchema = z.object({
+  stage: z.string(),
+  percent: z.number().nullable(),
+  message: z.string().nullable(),
+  previewAsset: GenerationAssetSchema.nullable(),
+  startedAt: z.string(),
+  updatedAt: z.string()
+});
+
 export const N8nWebhookPayloadSchema = z.object({
   taskId: z.string(),
   promptText: z.string(),
   image_urls: z.array(z.string()).optional(),
   brandPersonaImage1Url: z.string().nullable(),
   brandPersonaImage2Url: z.string().nullable(),
-  brand_persona: z.string().nullable()
+  // Every persona reference image; the first two are also sent as brandPersonaImage1Url/2Url
+  brandPersonaImageUrls: z.array(z.string()).optional(),
+  brand_persona_name: z.string().nullable().optional(),
+  brand_persona: z.string().nullable(),
+  // Absent for generations created before parameters were stored
+  parameters: GenerationParametersSchema.optional()
 });
 
+// Everything a generation was submitted with, replayed verbatim on retries. Bump the version when the shape changes,
+// keeping the old schema in the union below with an upgrade to the new shape.
+export const GENERATION_SUBMISSION_VERSION = 1;
+
+const GenerationSubmissionV1Schema = z.object({
+  version: z.literal(1),
+  payload: N8nWebhookPayloadSchema,
+  request: z.object({
+    correlationId: z.string().nullable(),
+    baseUrl: z.string(),
+    userAgent: z.string().nullable(),
+    submittedAt: z.string()
+  })
+});
+
+type CurrentGenerationSubmission = z.infer<typeof GenerationSubmissionV1Schema>;
+
+// Stored snapshots of any version parse into the current shape
+export const GenerationSubmissionSchema = z
+  .discriminatedUnion("version", [GenerationSubmissionV1Schema])
+  .transform((submission): CurrentGenerationSubmission => {
+    switch (submission.version) {
+      case 1:
+        return submission;
+    }
+  });
+
+export const GenerationStatusSchema = z.enum(["pending", "processing", "completed", "failed", "cancelled"]);
+
+export const GenerationErrorTypeSchema = z.enum(["webhook_failure", "network_error", "timeout", "validation_error", "configuration_error", "callback_timeout", "unknown"]);
+
 export const GenerationStatusResponseSchema = z.object({
   id: z.string(),
   taskId: z.string(),
-  status: z.enum(["pending", "processing", "completed", "failed", "200"]),
+  status: GenerationStatusSchema,
   errorMessage: z.string().nullable(),
   errorDetails: z.any().nullable(),
-  errorType: z.enum(["webhook_failure", "network_error", "timeout", "validation_error", "unknown"]).nullable(),
+  errorType: GenerationErrorTypeSchema.nullable(),
   retryCount: z.string().nullable(),
   maxRetries: z.string().nullable(),
   nextRetryAt: z.string().nullable(),
   webhookResponseStatus: z.string().nullable(),
   webhookResponseBody: z.string().nullable(),
   lastAttemptAt: z.string().nullable(),
+  stages: z.array(GenerationStageSchema),
   createdAt: z.string()
 });
 
+// Accepts repeated query params (?status=a&status=b) as well as comma-separated lists
+const queryList = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  (value) => (value === undefined ? undefined : (Array.isArray(value) ? value : [value]).flatMap((entry) => String(entry).split(',')).filter(Boolean)),
+  z.array(item).optional()
+);
+
+export const GenerationHistoryQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: queryList(GenerationStatusSchema),
+  errorType: queryList(GenerationErrorTypeSchema),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  q: z.string().trim().max(200).optional(),
+  sort: z.enum(["createdAt", "updatedAt"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc")
+});
+
+export const CancelGenerationResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  // Whether the backend confirmed it stopped the task; false when it can't be stopped remotely
+  providerCancelled: z.boolean()
+});
+
 export const RetryGenerationRequestSchema = z.object({
   taskId: z.string()
 });
@@ -60,9 +273,77 @@ export const RetryGenerationResponseSchema = z.object({
 });
 
 export type UploadResponse = z.infer<typeof UploadResponseSchema>;
+export type DirectUploadPresignRequest = z.input<typeof DirectUploadPresignRequestSchema>;
+export type DirectUploadPresignResponse = z.infer<typeof DirectUploadPresignResponseSchema>;
+export type GenerationProviderName = z.infer<typeof GenerationProviderSchema>;
+export type BrandPersonaRequest = z.infer<typeof BrandPersonaRequestSchema>;
+export type BrandPersonaUpdateRequest = z.infer<typeof BrandPersonaUpdateRequestSchema>;
+export type PromptTemplateRequest = z.infer<typeof PromptTemplateRequestSchema>;
+export type PromptTemplateUpdateRequest = z.infer<typeof PromptTemplateUpdateRequestSchema>;
+export type GenerationBatchRequest = z.infer<typeof GenerationBatchRequestSchema>;
+export type ScheduledGenerationRequest = z.input<typeof ScheduledGenerationRequestSchema>;
+export type ScheduledGenerationUpdateRequest = z.infer<typeof ScheduledGenerationUpdateRequestSchema>;
+export type GenerationParameters = z.infer<typeof GenerationParametersSchema>;
 export type GenerationCreateRequest = z.infer<typeof GenerationCreateRequestSchema>;
 export type GenerationCallback = z.infer<typeof GenerationCallbackSchema>;
+export type GenerationAssetInput = z.infer<typeof GenerationAssetSchema>;
+export type GenerationProgressCallback = z.infer<typeof GenerationProgressCallbackSchema>;
+export type GenerationStage = z.infer<typeof GenerationStageSchema>;
+export type GenerationAssetKind = z.infer<typeof GenerationAssetKindSchema>;
 export type N8nWebhookPayload = z.infer<typeof N8nWebhookPayloadSchema>;
+export type GenerationSubmission = z.infer<typeof GenerationSubmissionSchema>;
+export type StoredGenerationSubmission = z.input<typeof GenerationSubmissionSchema>;
 export type GenerationStatusResponse = z.infer<typeof GenerationStatusResponseSchema>;
+export type GenerationStatus = z.infer<typeof GenerationStatusSchema>;
+export type GenerationErrorType = z.infer<typeof GenerationErrorTypeSchema>;
+export type GenerationHistoryQuery = z.infer<typeof GenerationHistoryQuerySchema>;
+export type CancelGenerationResponse = z.infer<typeof CancelGenerationResponseSchema>;
 export type RetryGenerationRequest = z.infer<typeof RetryGenerationRequestSchema>;
 export type RetryGenerationResponse = z.infer<typeof RetryGenerationResponseSchema>;
+
+// Generation rows as serialized over JSON (timestamps become ISO strings)
+export type GenerationHistoryItem = Omit<VideoGeneration, "nextRetryAt" | "lastAttemptAt" | "createdAt" | "updatedAt"> & {
+  nextRetryAt: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+export interface GenerationHistoryResponse {
+  items: GenerationHistoryItem[];
+  nextCursor: string | null;
+  // Rows matching every filter
+  total: number;
+  // Matches per status with all filters except status applied, for filter chips
+  statusCounts: Record<string, number>;
+}
+
+export type GenerationLineageNode = Pick<GenerationHistoryItem, "id" | "taskId" | "parentGenerationId" | "promptText" | "status" | "createdAt">;
+
+// Every generation sharing a root with the requested one, in no particular order
+export interface GenerationLineageResponse {
+  rootId: string;
+  nodes: GenerationLineageNode[];
+}
+
+export interface GenerationBatchSummary {
+  id: string;
+  name: string | null;
+  source: "csv" | "json";
+  totalItems: number;
+  createdAt: string | null;
+  // Item counts keyed by generation status, plus "rejected" for rows that failed validation
+  counts: Record<string, number>;
+}
+
+export interface GenerationBatchItemResult {
+  rowIndex: number;
+  input: unknown;
+  error: string | null;
+  scheduledFor: string | null;
+  generation: Pick<GenerationHistoryItem, "id" | "taskId" | "status" | "errorMessage" | "videoPath"> | null;
+}
+
+export interface GenerationBatchDetail extends GenerationBatchSummary {
+  items: GenerationBatchItemResult[];
+}